@@ -1,15 +1,25 @@
 
 import React, { useState, useReducer, useEffect, useCallback, useRef } from 'react';
-import Canvas2D from './components/Canvas2D';
+import Canvas2D, { Canvas2DHandle } from './components/Canvas2D';
 import Viewport3D, { Viewport3DHandle } from './components/Viewport3D';
 import Toolbar from './components/Toolbar';
 import PropertiesPanel from './components/PropertiesPanel';
 import DraggablePanel from './components/DraggablePanel';
+import CommandLine from './components/CommandLine';
 import { backend } from './services/mockBackend';
-import { Entity, Layer, ToolType, ViewState, PolygonEntity, ViewType, ProjectData } from './types';
-import { DEFAULT_LAYERS } from './constants';
-import { booleanSubtract, booleanUnion, generateId, convertToPoints } from './utils/geometry';
+import { autosave } from './services/autosave';
+import { Entity, Layer, ToolType, ViewState, PolygonEntity, ViewType, ProjectData, SnapSettings, ProjectSettings, LengthUnit, AutosaveSnapshot } from './types';
+import { DEFAULT_LAYERS, DEFAULT_SNAPS, DEFAULT_PROJECT_SETTINGS, AUTOSAVE_DELAY, AUTOSAVE_INTERVAL } from './constants';
+import { booleanUnion, booleanShapes, entityToShapes, BooleanShape, EntityEdit, generateId } from './utils/geometry';
+import { syncArrays, getArrayChanges, withoutArrayLink } from './utils/array';
+import { syncAnnotations } from './utils/annotation';
+import { findCommand } from './utils/commands';
+import { scaleEntities, unitScale } from './utils/units';
 import { logger } from './utils/debug';
+import { parseDxf } from './utils/dxf';
+import { parseSvg } from './utils/svg';
+import { parseStl, parseObj, MeshImportResult } from './utils/meshImport';
+import { readProjectFile, formatLoadReport, ProjectFileError, SCHEMA_VERSION } from './utils/project';
 
 // --- Reducer for Undo/Redo ---
 type HistoryState = {
@@ -18,6 +28,12 @@ type HistoryState = {
   future: Entity[][];
 };
 
+// Project state that changed in the same step as the entities, so undo and redo keep the two together
+type StepChange = {
+  units?: { from: Pick<ProjectSettings, 'units' | 'gridSpacing'>; to: Pick<ProjectSettings, 'units' | 'gridSpacing'> };
+  addedLayers?: Layer[];
+};
+
 type Action = 
   | { type: 'PUSH_STATE'; payload: Entity[] }
   | { type: 'UNDO' }
@@ -129,9 +145,75 @@ const NewProjectModal: React.FC<NewProjectModalProps> = ({ isOpen, onClose, onCo
     );
 };
 
+interface RecoveryModalProps {
+    mode: 'prompt' | 'list' | null; // A prompt is shown on startup when the last session left unsaved work
+    snapshots: AutosaveSnapshot[];
+    onRestore: (snapshot: AutosaveSnapshot) => void;
+    onClose: () => void;
+}
+
+const RecoveryModal: React.FC<RecoveryModalProps> = ({ mode, snapshots, onRestore, onClose }) => {
+    if (!mode) return null;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <div className="bg-slate-800 border border-slate-600 rounded-lg shadow-2xl w-[28rem] max-w-[95vw] p-6">
+                <h2 className="text-xl font-bold text-white mb-4 flex items-center gap-2">
+                    <i className="fas fa-clock-rotate-left text-blue-400"></i> {mode === 'prompt' ? 'Recover Unsaved Work' : 'Autosaved Snapshots'}
+                </h2>
+
+                {mode === 'prompt' && (
+                    <div className="bg-amber-900/30 border border-amber-500/30 text-amber-200 text-xs p-3 rounded mb-4 flex gap-2 items-start">
+                        <i className="fas fa-exclamation-triangle mt-0.5"></i>
+                        <span>Your last session ended with changes that were never saved to a file. Restore a snapshot to continue where you left off.</span>
+                    </div>
+                )}
+
+                <div className="max-h-72 overflow-y-auto mb-6 flex flex-col gap-1">
+                    {snapshots.length === 0 && (
+                        <div className="text-xs text-slate-500 text-center py-4">No snapshots yet. Your work is copied here automatically as you draw.</div>
+                    )}
+                    {snapshots.map(s => (
+                        <div key={s.id} className="flex items-center gap-3 bg-slate-900 border border-slate-700 rounded px-3 py-2">
+                            <div className="flex-1 min-w-0">
+                                <div className="text-sm text-white truncate">{s.project?.name}</div>
+                                <div className="text-[10px] text-slate-400">
+                                    {new Date(s.savedAt).toLocaleString()} · {s.project?.entities?.length ?? 0} entities
+                                </div>
+                            </div>
+                            {s.unsaved && <span className="text-[9px] font-bold uppercase text-amber-400">Unsaved</span>}
+                            <button
+                                onClick={() => onRestore(s)}
+                                className="px-3 py-1 text-xs bg-blue-600 hover:bg-blue-500 text-white font-bold rounded transition-colors"
+                            >
+                                Restore
+                            </button>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="flex justify-end gap-3">
+                    <button 
+                        onClick={onClose}
+                        className="px-4 py-2 text-sm text-slate-300 hover:text-white hover:bg-slate-700 rounded transition-colors"
+                    >
+                        {mode === 'prompt' ? 'Start Fresh' : 'Close'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// What a file save captures, for telling whether the workspace has changed since
+const getProjectKey = (name: string, entities: Entity[], layers: Layer[], settings: ProjectSettings) =>
+    JSON.stringify([name, entities, layers, settings]);
+
 const App: React.FC = () => {
   // App State
   const [activeTool, setActiveTool] = useState<ToolType>('line');
+  const [snaps, setSnaps] = useState<SnapSettings>(DEFAULT_SNAPS);
+  const [projectSettings, setProjectSettings] = useState<ProjectSettings>(DEFAULT_PROJECT_SETTINGS);
   // Individual View States - Start centered
   const [viewTop, setViewTop] = useState<ViewState>({ scale: 1, offsetX: 0, offsetY: 0 });
   const [viewFront, setViewFront] = useState<ViewState>({ scale: 1, offsetX: 0, offsetY: 0 });
@@ -145,10 +227,14 @@ const App: React.FC = () => {
   // Scene Settings
   const [ambientIntensity, setAmbientIntensity] = useState(0.8);
   const [showGrid, setShowGrid] = useState(true);
+  const [svgTolerance, setSvgTolerance] = useState(0.5); // Curve flattening tolerance for SVG import
   
   // Project Management
   const [projectKey, setProjectKey] = useState(0); // Used to force re-mount of Canvas on new project
   const [showNewProjectModal, setShowNewProjectModal] = useState(false);
+  const [recoveryMode, setRecoveryMode] = useState<'prompt' | 'list' | null>(null);
+  const [snapshots, setSnapshots] = useState<AutosaveSnapshot[]>([]);
+  const [autosaveReady, setAutosaveReady] = useState(false); // Held back until startup has loaded the project
 
   // Mobile State
   const [mobileTab, setMobileTab] = useState<'none' | 'tools' | 'props' | 'layers'>('none');
@@ -168,21 +254,82 @@ const App: React.FC = () => {
   const [currentProjectName, setCurrentProjectName] = useState('Untitled Project');
 
   const viewportRef = useRef<Viewport3DHandle>(null);
+  const canvasRefs = useRef<Partial<Record<ViewType, Canvas2DHandle | null>>>({});
+
+  // Autosave
+  const savedProjectKey = useRef<string | null>(null); // Last state saved to or loaded from a file
+  const autosaveTimer = useRef<number | null>(null);
+  const autosavePending = useRef(false);
+  const autosaveArmed = useRef(false);
+
+  // Keyed by the entity list a step produced, which history keeps by identity
+  const stepChanges = useRef(new WeakMap<Entity[], StepChange>());
 
   // --- Actions ---
 
-  const handleAddEntity = (entity: Entity) => {
+  const applyStepChange = (change: StepChange | undefined, undo: boolean) => {
+      if (change?.units) {
+          const target = undo ? change.units.from : change.units.to;
+          setProjectSettings(s => ({ ...s, ...target }));
+      }
+      if (change?.addedLayers) {
+          // Later steps that used these layers are undone before this one, so nothing is left on them
+          // Works on the current list, so layers added or edited since the import are kept
+          const ids = new Set(change.addedLayers.map(l => l.id));
+          setLayers(current => {
+              const remaining = current.filter(l => !ids.has(l.id));
+              if (!undo) return [...remaining, ...change.addedLayers!];
+              // A project always keeps one layer to draw on
+              return remaining.length > 0 ? remaining : current;
+          });
+      }
+  };
+
+  // Undoing an import can take away the active layer; the first one left takes over
+  useEffect(() => {
+      if (layers.length > 0 && !layers.some(l => l.id === activeLayerId)) setActiveLayerId(layers[0].id);
+  }, [layers, activeLayerId]);
+
+  const handleUndo = () => {
+      if (history.past.length === 0) return;
+      applyStepChange(stepChanges.current.get(history.present), true);
+      dispatch({ type: 'UNDO' });
+  };
+
+  const handleRedo = () => {
+      if (history.future.length === 0) return;
+      applyStepChange(stepChanges.current.get(history.future[0]), false);
+      dispatch({ type: 'REDO' });
+  };
+
+  // Several new entities in one undo step; they become the selection.
+  // New entities derived from array copies are not copies themselves.
+  const handleAddEntities = (added: Entity[]) => {
+    if (added.length === 0) return;
     const deselectedEntities = entities.map(e => ({ ...e, selected: false, isBase: false }));
-    dispatch({ type: 'PUSH_STATE', payload: [...deselectedEntities, { ...entity, selected: true }] });
+    dispatch({ type: 'PUSH_STATE', payload: [...deselectedEntities, ...added.map(e => ({ ...withoutArrayLink(e), selected: true }))] });
     // On mobile, close drawer after picking tool and drawing
     if (activeTool !== 'select') setMobileTab('none');
   };
 
+  const handleAddEntity = (entity: Entity) => handleAddEntities([entity]);
+
+  // Associative arrays and attached annotations follow the entities they were built from
+  const syncLinked = (next: Entity[], changedIds: Set<string>) => syncAnnotations(syncArrays(next, changedIds), changedIds);
+
+  // Modify commands change existing entities and create new ones in one undo step
+  const handleEditEntities = ({ updated, added }: EntityEdit) => {
+    if (updated.length === 0 && added.length === 0) return;
+    const updateMap = new Map(updated.map(e => [e.id, e]));
+    const newEntities = entities.map(e => updateMap.has(e.id) ? updateMap.get(e.id)! : e);
+    dispatch({ type: 'PUSH_STATE', payload: syncLinked([...newEntities, ...added.map(withoutArrayLink)], getArrayChanges(entities, updated)) });
+  };
+
   const handleUpdateEntities = (updatedEntities: Entity[]) => {
     if (updatedEntities.length === 0) return;
     const updateMap = new Map(updatedEntities.map(e => [e.id, e]));
     const newEntities = entities.map(e => updateMap.has(e.id) ? updateMap.get(e.id)! : e);
-    dispatch({ type: 'PUSH_STATE', payload: newEntities });
+    dispatch({ type: 'PUSH_STATE', payload: syncLinked(newEntities, getArrayChanges(entities, updatedEntities)) });
   };
 
   const handleSelectionChange = (ids: string[]) => {
@@ -194,8 +341,10 @@ const App: React.FC = () => {
   };
 
   const handleDeleteSelected = () => {
-    const newEntities = entities.filter(e => !e.selected);
-    dispatch({ type: 'PUSH_STATE', payload: newEntities });
+    const lockedCount = entities.filter(e => e.selected && e.locked).length;
+    if (lockedCount > 0) logger.warn('APP', `${lockedCount} locked objects were kept. Unlock them to delete.`);
+    const newEntities = entities.filter(e => !e.selected || e.locked);
+    dispatch({ type: 'PUSH_STATE', payload: syncLinked(newEntities, new Set()) });
   };
   
   const handleDeleteLayer = (layerId: string) => {
@@ -228,7 +377,7 @@ const App: React.FC = () => {
   };
 
   const performBooleanSubtract = (keepPrimary: boolean) => {
-      const selected = entities.filter(e => e.selected && !['light'].includes(e.type));
+      const selected = entities.filter(e => e.selected && !['light', 'mesh', 'dimension', 'leader', 'hatch'].includes(e.type));
       if(selected.length < 2) return;
 
       const bases = selected.filter(e => e.isBase);
@@ -242,45 +391,34 @@ const App: React.FC = () => {
       const resultPolys: Entity[] = [];
 
       // For each base, subtract ALL cutters
-      bases.forEach(base => {
-          // Convert base to polygon points explicitly first
-          let shapes: { points: any[], holes: any[] }[] = [{
-              points: convertToPoints(base),
-              holes: (base as any).holes || []
-          }];
-
-          cutters.forEach(cutter => {
-              const nextShapes: { points: any[], holes: any[] }[] = [];
-              
+      try {
+          bases.forEach(base => {
+              let shapes: BooleanShape[] = entityToShapes(base);
+
+              // Text cuts with every glyph, which is how engraving is made
+              cutters.flatMap(entityToShapes).forEach(cutterShape => {
+                  shapes = shapes.flatMap(shape => booleanShapes(shape, cutterShape, 'subtract'));
+              });
+
+              // Create entities for all resulting fragments
               shapes.forEach(shape => {
-                   // Temporary entity to pass to booleanSubtract
-                   const tempBase: any = { ...base, type: 'polygon', points: shape.points, holes: shape.holes };
-                   const res = booleanSubtract(tempBase, cutter);
-                   
-                   if (res.polys.length > 0) {
-                       res.polys.forEach(p => {
-                           nextShapes.push({ points: p, holes: res.holes });
-                       });
-                   }
+                  const newPoly: PolygonEntity = {
+                    ...base,
+                    id: generateId(),
+                    type: 'polygon',
+                    points: shape.points,
+                    holes: shape.holes,
+                    selected: true,
+                    isBase: false,
+                    extrusionDepth: base.type === 'sphere' ? (base as any).radius * 2 : base.extrusionDepth
+                } as any;
+                resultPolys.push(newPoly);
               });
-              shapes = nextShapes;
-          });
-          
-          // Create entities for all resulting fragments
-          shapes.forEach(shape => {
-              const newPoly: PolygonEntity = {
-                ...base,
-                id: generateId(),
-                type: 'polygon',
-                points: shape.points,
-                holes: shape.holes,
-                selected: true,
-                isBase: false,
-                extrusionDepth: base.type === 'sphere' ? (base as any).radius * 2 : base.extrusionDepth
-            } as any;
-            resultPolys.push(newPoly);
           });
-      });
+      } catch (err: any) {
+          alert(`Subtract failed: ${err.message}`);
+          return;
+      }
 
       const idsToRemove = selected.map(e => e.id);
       const remaining = entities.filter(e => !idsToRemove.includes(e.id));
@@ -288,39 +426,134 @@ const App: React.FC = () => {
       logger.log('APP', `Boolean Subtract Complete. Generated ${resultPolys.length} fragments.`);
   };
 
+  // Intersect / XOR share the subtract selection model: each base is combined with every cutter in turn
+  const performBooleanCombine = (op: 'intersect' | 'xor') => {
+      const selected = entities.filter(e => e.selected && !['light', 'mesh', 'dimension', 'leader', 'hatch'].includes(e.type));
+      if(selected.length < 2) return;
+
+      const bases = selected.filter(e => e.isBase);
+      const cutters = selected.filter(e => !e.isBase);
+
+      if (bases.length === 0) {
+          alert("Please select at least one shape as Base (Click on it again to turn Green)");
+          return;
+      }
+
+      const resultPolys: Entity[] = [];
+
+      try {
+          bases.forEach(base => {
+              let shapes: BooleanShape[] = entityToShapes(base);
+
+              cutters.forEach(cutter => {
+                  const cutterShapes = entityToShapes(cutter);
+                  if (op === 'intersect') {
+                      // The glyphs of a text cutter never overlap, so its intersection is the pieces inside any of them
+                      shapes = cutterShapes.flatMap(cutterShape => shapes.flatMap(shape => booleanShapes(shape, cutterShape, 'intersect')));
+                  } else {
+                      cutterShapes.forEach(cutterShape => {
+                          // Islands minus the cutter, plus whatever of the cutter no island covers
+                          let cutterRest: BooleanShape[] = [cutterShape];
+                          shapes.forEach(shape => {
+                              cutterRest = cutterRest.flatMap(rest => booleanShapes(rest, shape, 'subtract'));
+                          });
+                          shapes = [...shapes.flatMap(shape => booleanShapes(shape, cutterShape, 'subtract')), ...cutterRest];
+                      });
+                  }
+              });
+
+              shapes.forEach(shape => {
+                  const newPoly: PolygonEntity = {
+                    ...base,
+                    id: generateId(),
+                    type: 'polygon',
+                    points: shape.points,
+                    holes: shape.holes,
+                    selected: true,
+                    isBase: false,
+                    extrusionDepth: base.type === 'sphere' ? (base as any).radius * 2 : base.extrusionDepth
+                } as any;
+                resultPolys.push(newPoly);
+              });
+          });
+      } catch (err: any) {
+          alert(`${op === 'intersect' ? 'Intersect' : 'XOR'} failed: ${err.message}`);
+          return;
+      }
+
+      const idsToRemove = selected.map(e => e.id);
+      const remaining = entities.filter(e => !idsToRemove.includes(e.id));
+      dispatch({ type: 'PUSH_STATE', payload: [...remaining, ...resultPolys] });
+      logger.log('APP', `Boolean ${op === 'intersect' ? 'Intersect' : 'XOR'} Complete. Generated ${resultPolys.length} islands.`);
+  };
+
+  const performBooleanIntersect = () => performBooleanCombine('intersect');
+  const performBooleanXor = () => performBooleanCombine('xor');
+
   const performBooleanUnion = () => {
-      const selected = entities.filter(e => e.selected && !['light'].includes(e.type));
+      const selected = entities.filter(e => e.selected && !['light', 'mesh', 'dimension', 'leader', 'hatch'].includes(e.type));
       if(selected.length < 2) return;
       
-      const result = booleanUnion(selected);
+      let islands: BooleanShape[];
+      try {
+          islands = booleanUnion(selected);
+      } catch (err: any) {
+          alert(`Union failed: ${err.message}`);
+          return;
+      }
       const primary = selected[selected.length - 1];
       
-      const newPoly: PolygonEntity = {
+      const resultPolys: Entity[] = islands.map(island => ({
           ...primary,
           id: generateId(),
           type: 'polygon',
-          points: result.points,
-          holes: result.holes,
+          points: island.points,
+          holes: island.holes,
           selected: true,
-          isBase: false
-      } as any;
+          isBase: false,
+          extrusionDepth: primary.type === 'sphere' ? (primary as any).radius * 2 : primary.extrusionDepth
+      } as any));
       
       const idsToRemove = selected.map(e => e.id);
       const remaining = entities.filter(e => !idsToRemove.includes(e.id));
-      dispatch({ type: 'PUSH_STATE', payload: [...remaining, newPoly] });
+      dispatch({ type: 'PUSH_STATE', payload: [...remaining, ...resultPolys] });
+      logger.log('APP', `Boolean Union Complete. Generated ${resultPolys.length} islands.`);
   }
 
+  const getProjectData = (): ProjectData => ({
+      id: 'project-1',
+      name: currentProjectName,
+      schemaVersion: SCHEMA_VERSION,
+      entities: entities,
+      layers: layers,
+      settings: projectSettings,
+      lastModified: Date.now()
+  });
+
+  // Snapshots are written once editing pauses; the interval catches changes that never pause, like a long pan
+  const flushAutosave = useRef<() => void>(() => {});
+  flushAutosave.current = () => {
+      if (autosaveTimer.current !== null) {
+          window.clearTimeout(autosaveTimer.current);
+          autosaveTimer.current = null;
+      }
+      if (!autosavePending.current) return;
+      autosavePending.current = false;
+      autosave.save({
+          savedAt: Date.now(),
+          unsaved: getProjectKey(currentProjectName, entities, layers, projectSettings) !== savedProjectKey.current,
+          project: getProjectData(),
+          views: { top: viewTop, front: viewFront, right: viewRight },
+          viewMode,
+          activeSingleView
+      });
+  };
+
   const handleSaveFile = () => {
     logger.log('FILE', 'Saving Project...');
     setIsSaving(true);
     try {
-        const projectData: ProjectData = {
-            id: 'project-1',
-            name: currentProjectName,
-            entities: entities,
-            layers: layers,
-            lastModified: Date.now()
-        };
+        const projectData = getProjectData();
         const blob = new Blob([JSON.stringify(projectData, null, 2)], { type: 'application/json' });
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
@@ -331,6 +564,9 @@ const App: React.FC = () => {
         document.body.removeChild(a);
         URL.revokeObjectURL(url);
         logger.log('FILE', 'Project Saved');
+        savedProjectKey.current = getProjectKey(currentProjectName, entities, layers, projectSettings);
+        autosavePending.current = true;
+        flushAutosave.current();
     } catch(e: any) {
         console.error("Save failed", e);
         logger.error('FILE', 'Save Failed', e.message);
@@ -339,25 +575,125 @@ const App: React.FC = () => {
     setIsSaving(false);
   };
   
+  // Files that state their units are scaled into the project's; the rest import 1:1
+  const toProjectUnits = (imported: Entity[], units?: LengthUnit) => {
+      if (!units || units === projectSettings.units) return imported;
+      logger.log('FILE', `Converting import from ${units} to ${projectSettings.units}`);
+      return scaleEntities(imported, unitScale(units, projectSettings.units));
+  };
+
+  // Switching units can either relabel the numbers or keep the drawing's physical size
+  const handleProjectSettingsChange = (next: ProjectSettings) => {
+      if (next.units !== projectSettings.units && entities.length > 0 &&
+          window.confirm(`Convert the drawing from ${projectSettings.units} to ${next.units}? Cancel keeps the numbers and only changes the unit.`)) {
+          const factor = unitScale(projectSettings.units, next.units);
+          const scaled = scaleEntities(entities, factor);
+          next = { ...next, gridSpacing: next.gridSpacing * factor };
+          // Undoing the conversion has to put the old unit back with the old numbers
+          stepChanges.current.set(scaled, {
+              units: {
+                  from: { units: projectSettings.units, gridSpacing: projectSettings.gridSpacing },
+                  to: { units: next.units, gridSpacing: next.gridSpacing }
+              }
+          });
+          dispatch({ type: 'PUSH_STATE', payload: scaled });
+          logger.log('APP', `Drawing converted from ${projectSettings.units} to ${next.units}`);
+      }
+      setProjectSettings(next);
+  };
+
+  // Imported drawings are merged into the current project as a single undoable step
+  const importDrawing = (imported: Entity[], importedLayers: Layer[]) => {
+      const layerIdMap = new Map<string, string>();
+      const newLayers: Layer[] = [];
+      importedLayers.forEach(l => {
+          const existing = layers.find(el => el.name === l.name);
+          if (existing) layerIdMap.set(l.id, existing.id);
+          else newLayers.push(l);
+      });
+      if (newLayers.length > 0) setLayers([...layers, ...newLayers]);
+
+      const added = imported.map(e => ({ ...e, layerId: layerIdMap.get(e.layerId) || e.layerId, selected: true } as Entity));
+      const deselectedEntities = entities.map(e => ({ ...e, selected: false, isBase: false }));
+      const payload = [...deselectedEntities, ...added];
+      if (newLayers.length > 0) stepChanges.current.set(payload, { addedLayers: newLayers });
+      dispatch({ type: 'PUSH_STATE', payload });
+      logger.log('FILE', `Imported ${added.length} entities, ${newLayers.length} new layers`);
+  };
+
+  const importMeshes = (result: MeshImportResult) => {
+      if (result.entities.length === 0) {
+          alert("No triangles found in mesh file.");
+          return;
+      }
+      importDrawing(toProjectUnits(result.entities, projectSettings.meshUnits), []);
+  };
+
+  // Replaces the workspace with a project that has been through readProjectFile
+  const applyProject = (project: ProjectData) => {
+      dispatch({ type: 'LOAD', payload: project.entities });
+      setLayers(project.layers);
+      if (!project.layers.some(l => l.id === activeLayerId)) setActiveLayerId(project.layers[0].id);
+      setCurrentProjectName(project.name);
+      setProjectSettings(project.settings || DEFAULT_PROJECT_SETTINGS);
+      setProjectKey(prev => prev + 1); // Force canvas reset
+  };
+
   const handleLoadFile = (file: File) => {
       logger.log('FILE', 'Loading Project...', file.name);
       const reader = new FileReader();
+      // Binary STL needs the raw bytes; the loader detects ASCII STL from the same buffer
+      if (file.name.toLowerCase().endsWith('.stl')) {
+          reader.onload = (e) => {
+              try {
+                  importMeshes(parseStl(e.target?.result as ArrayBuffer, activeLayerId, file.name));
+              } catch (err: any) {
+                  logger.error('FILE', 'STL import failed', err?.message);
+                  alert("Failed to parse STL file.");
+              }
+          };
+          reader.readAsArrayBuffer(file);
+          return;
+      }
       reader.onload = (e) => {
           try {
               const content = e.target?.result as string;
-              const data = JSON.parse(content) as ProjectData;
-              if (data.entities && Array.isArray(data.entities)) {
-                  dispatch({ type: 'LOAD', payload: data.entities });
-                  if (data.layers) setLayers(data.layers);
-                  if (data.name) setCurrentProjectName(data.name);
-                  setProjectKey(prev => prev + 1); // Force canvas reset
-                  logger.log('FILE', 'Project Loaded');
-              } else {
-                  alert("Invalid project file format.");
+              if (file.name.toLowerCase().endsWith('.dxf')) {
+                  const result = parseDxf(content);
+                  if (result.entities.length === 0) {
+                      alert("No supported entities found in DXF file.");
+                      return;
+                  }
+                  importDrawing(toProjectUnits(result.entities, result.units), result.layers);
+                  return;
+              }
+              if (file.name.toLowerCase().endsWith('.svg')) {
+                  const result = parseSvg(content, activeLayerId, { tolerance: svgTolerance });
+                  if (result.entities.length === 0) {
+                      alert("No supported shapes found in SVG file.");
+                      return;
+                  }
+                  importDrawing(toProjectUnits(result.entities, result.units), []);
+                  return;
               }
-          } catch (err) {
+              if (file.name.toLowerCase().endsWith('.obj')) {
+                  importMeshes(parseObj(content, activeLayerId, file.name));
+                  return;
+              }
+              // Older files are upgraded and every entity is checked before anything reaches the views
+              const { project, report } = readProjectFile(JSON.parse(content));
+              applyProject(project);
+              savedProjectKey.current = getProjectKey(project.name, project.entities, project.layers, project.settings || DEFAULT_PROJECT_SETTINGS);
+              logger.log('FILE', `Project Loaded (schema ${report.fromVersion}${report.fromVersion < SCHEMA_VERSION ? ` upgraded to ${SCHEMA_VERSION}` : ''})`);
+              const summary = formatLoadReport(report);
+              if (summary) {
+                  logger.warn('FILE', `Project loaded with ${report.repaired.length} repairs and ${report.rejected.length} rejections`, report);
+                  alert(summary);
+              }
+          } catch (err: any) {
               console.error(err);
-              alert("Failed to parse project file.");
+              if (err instanceof ProjectFileError) alert(err.message);
+              else alert("Failed to parse project file.");
           }
       };
       reader.readAsText(file);
@@ -368,9 +704,11 @@ const App: React.FC = () => {
       dispatch({ type: 'LOAD', payload: [] });
       setLayers(DEFAULT_LAYERS);
       setActiveLayerId(DEFAULT_LAYERS[0].id);
+      setProjectSettings(DEFAULT_PROJECT_SETTINGS);
       setActiveTool('select');
       setProjectKey(prev => prev + 1);
       setShowNewProjectModal(false);
+      savedProjectKey.current = getProjectKey(name, [], DEFAULT_LAYERS, DEFAULT_PROJECT_SETTINGS);
       logger.log('FILE', 'New Project Created', name);
   };
 
@@ -386,13 +724,94 @@ const App: React.FC = () => {
         dispatch({ type: 'LOAD', payload: p.entities });
         if(p.layers.length > 0) setLayers(p.layers);
         setCurrentProjectName(p.name);
+        setProjectSettings({ ...DEFAULT_PROJECT_SETTINGS, ...p.settings });
+        savedProjectKey.current = getProjectKey(p.name, p.entities, p.layers.length > 0 ? p.layers : DEFAULT_LAYERS, { ...DEFAULT_PROJECT_SETTINGS, ...p.settings });
     }
   }, []);
 
+  // Once the stored project is in, offer to recover a session that ended with unsaved work
   useEffect(() => {
-    handleLoad();
+    handleLoad().then(() => autosave.list()).then(list => {
+        setSnapshots(list);
+        const latest = list[0];
+        if (latest?.unsaved && latest.project?.entities?.length > 0) {
+            logger.log('AUTOSAVE', 'Unsaved session found', new Date(latest.savedAt).toISOString());
+            setRecoveryMode('prompt');
+        }
+        setAutosaveReady(true);
+    });
   }, [handleLoad]);
 
+  useEffect(() => {
+    if (!autosaveReady) return;
+    // The first run sees the state startup left, which is already stored somewhere
+    if (!autosaveArmed.current) {
+        autosaveArmed.current = true;
+        return;
+    }
+    autosavePending.current = true;
+    if (autosaveTimer.current !== null) window.clearTimeout(autosaveTimer.current);
+    autosaveTimer.current = window.setTimeout(() => flushAutosave.current(), AUTOSAVE_DELAY);
+  }, [autosaveReady, entities, layers, currentProjectName, projectSettings, viewTop, viewFront, viewRight, viewMode, activeSingleView]);
+
+  useEffect(() => {
+    const interval = window.setInterval(() => flushAutosave.current(), AUTOSAVE_INTERVAL);
+    // Closing the tab hides it first, which is the last reliable chance to write
+    const handleVisibility = () => {
+        if (document.visibilityState === 'hidden') flushAutosave.current();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+        window.clearInterval(interval);
+        document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, []);
+
+  const handleShowSnapshots = () => {
+      flushAutosave.current();
+      autosave.list().then(list => {
+          setSnapshots(list);
+          setRecoveryMode('list');
+      });
+  };
+
+  const handleRestoreSnapshot = (snapshot: AutosaveSnapshot) => {
+      if (recoveryMode === 'list' && entities.length > 0 && !window.confirm('Replace the current drawing with this snapshot? The current drawing stays in the autosave list.')) return;
+      flushAutosave.current();
+      try {
+          // Snapshots may predate the current schema, so they get the same checks as a file
+          const { project, report } = readProjectFile(snapshot.project);
+          applyProject(project);
+          if (snapshot.views) {
+              setViewTop(snapshot.views.top);
+              setViewFront(snapshot.views.front);
+              setViewRight(snapshot.views.right);
+          }
+          if (snapshot.viewMode) setViewMode(snapshot.viewMode);
+          if (snapshot.activeSingleView) setActiveSingleView(snapshot.activeSingleView);
+          // Work recovered from a snapshot is still not in any file
+          savedProjectKey.current = snapshot.unsaved ? null : getProjectKey(project.name, project.entities, project.layers, project.settings || DEFAULT_PROJECT_SETTINGS);
+          setRecoveryMode(null);
+          logger.log('AUTOSAVE', 'Snapshot Restored', new Date(snapshot.savedAt).toISOString());
+          const summary = formatLoadReport(report);
+          if (summary) {
+              logger.warn('AUTOSAVE', `Snapshot restored with ${report.repaired.length} repairs and ${report.rejected.length} rejections`, report);
+              alert(summary);
+          }
+      } catch (err: any) {
+          console.error(err);
+          if (err instanceof ProjectFileError) alert(err.message);
+          else alert("Could not restore the snapshot.");
+      }
+  };
+
+  // Declining the prompt keeps the snapshots in the list but stops asking at every startup
+  const handleCloseRecovery = () => {
+      const latest = snapshots[0];
+      if (recoveryMode === 'prompt' && latest?.id !== undefined) autosave.dismiss(latest.id);
+      setRecoveryMode(null);
+  };
+
   // Keyboard Shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -400,10 +819,10 @@ const App: React.FC = () => {
 
       if ((e.ctrlKey || e.metaKey) && e.key === 'z') {
         e.preventDefault();
-        dispatch({ type: 'UNDO' });
+        handleUndo();
       } else if ((e.ctrlKey || e.metaKey) && e.key === 'y') {
         e.preventDefault();
-        dispatch({ type: 'REDO' });
+        handleRedo();
       } else if ((e.ctrlKey || e.metaKey) && e.key === 's') {
         e.preventDefault();
         handleSaveFile();
@@ -413,16 +832,43 @@ const App: React.FC = () => {
         setActiveTool('select');
         handleSelectionChange([]);
         setShowNewProjectModal(false);
+        setRecoveryMode(null);
       } else if (e.key.toLowerCase() === 'l') setActiveTool('line');
       else if (e.key.toLowerCase() === 'r') setActiveTool('rectangle');
       else if (e.key.toLowerCase() === 'c') setActiveTool('circle');
+      else if (e.key.toLowerCase() === 'a') setActiveTool('arc');
+      else if (e.key.toLowerCase() === 'e') setActiveTool('ellipse');
+      else if (e.key.toLowerCase() === 's') setActiveTool('spline');
       else if (e.key.toLowerCase() === 'p') setActiveTool('polygon');
       else if (e.key.toLowerCase() === 'v') setActiveTool('select');
       else if (e.key.toLowerCase() === 'h') setActiveTool('pan');
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [entities]);
+  }, [entities, history]); // Undo and redo read the whole history
+
+  // Command names switch tools or act at once; points and values go to the view waiting for one
+  const handleCommand = (text: string): string | null => {
+    const command = findCommand(text);
+    if (command) {
+        if ('tool' in command) {
+            setActiveTool(command.tool);
+        } else if (command.action === 'undo') {
+            handleUndo();
+        } else if (command.action === 'redo') {
+            handleRedo();
+        } else if (command.action === 'erase') {
+            if (!entities.some(e => e.selected)) return 'Nothing is selected';
+            handleDeleteSelected();
+        }
+        logger.log('APP', `Command: ${text}`);
+        return null;
+    }
+    const canvases = Object.values(canvasRefs.current).filter((c): c is Canvas2DHandle => !!c);
+    const target = canvases.find(c => c.isWaitingForInput()) ?? canvasRefs.current.top ?? canvases[0];
+    if (!target) return 'No drawing view is open';
+    return target.enterInput(text);
+  };
 
   const selectedEntities = entities.filter(e => e.selected);
 
@@ -435,16 +881,21 @@ const App: React.FC = () => {
             {/* Key prop forces full re-mount of canvas on project reset */}
             <Canvas2D 
                 key={`canvas-${projectKey}-${type}`}
+                ref={(handle) => { canvasRefs.current[type] = handle; }}
                 entities={entities}
                 activeTool={activeTool}
                 view={viewState}
                 setView={setViewState}
                 onEntityAdd={handleAddEntity}
+                onEntitiesAdd={handleAddEntities}
+                onEntitiesEdit={handleEditEntities}
                 onEntitiesUpdate={handleUpdateEntities}
                 onSelectionChange={handleSelectionChange}
                 activeLayerId={activeLayerId}
                 layers={layers}
                 viewType={type}
+                snaps={snaps}
+                settings={projectSettings}
             />
          </div>
       </div>
@@ -506,10 +957,10 @@ const App: React.FC = () => {
                   <span className="text-[9px] uppercase font-bold">Tools</span>
               </button>
               <div className="flex gap-4 mx-2">
-                   <button onClick={() => dispatch({ type: 'UNDO' })} disabled={history.past.length === 0} className="w-10 h-10 rounded-full bg-slate-800 flex items-center justify-center border border-slate-700 disabled:opacity-30">
+                   <button onClick={handleUndo} disabled={history.past.length === 0} className="w-10 h-10 rounded-full bg-slate-800 flex items-center justify-center border border-slate-700 disabled:opacity-30">
                        <i className="fas fa-undo text-sm text-slate-300"></i>
                    </button>
-                   <button onClick={() => dispatch({ type: 'REDO' })} disabled={history.future.length === 0} className="w-10 h-10 rounded-full bg-slate-800 flex items-center justify-center border border-slate-700 disabled:opacity-30">
+                   <button onClick={handleRedo} disabled={history.future.length === 0} className="w-10 h-10 rounded-full bg-slate-800 flex items-center justify-center border border-slate-700 disabled:opacity-30">
                        <i className="fas fa-redo text-sm text-slate-300"></i>
                    </button>
               </div>
@@ -539,16 +990,21 @@ const App: React.FC = () => {
                              <Toolbar 
                                 activeTool={activeTool} 
                                 setTool={(t) => { setActiveTool(t); setMobileTab('none'); }} 
-                                undo={() => dispatch({ type: 'UNDO' })}
-                                redo={() => dispatch({ type: 'REDO' })}
+                                undo={handleUndo}
+                                redo={handleRedo}
                                 save={handleSaveFile}
                                 onNewProject={handleNewProject}
+                                onShowSnapshots={handleShowSnapshots}
                                 onLoadFile={handleLoadFile}
                                 canUndo={history.past.length > 0}
                                 canRedo={history.future.length > 0}
                                 isSaving={isSaving}
                                 entities={entities}
+                                layers={layers}
                                 onExportImage={() => viewportRef.current?.triggerScreenshot()}
+                                snaps={snaps}
+                                setSnaps={setSnaps}
+                                settings={projectSettings}
                                 mobile={true}
                             />
                           )}
@@ -566,6 +1022,10 @@ const App: React.FC = () => {
                                 addEntity={handleAddEntity}
                                 performBooleanSubtract={performBooleanSubtract}
                                 performBooleanUnion={performBooleanUnion}
+                                performBooleanIntersect={performBooleanIntersect}
+                                performBooleanXor={performBooleanXor}
+                                settings={projectSettings}
+                                onSettingsChange={handleProjectSettingsChange}
                                 mobile={true}
                                 mobileMode="properties"
                             />
@@ -586,6 +1046,10 @@ const App: React.FC = () => {
                                     addEntity={() => {}}
                                     performBooleanSubtract={() => {}}
                                     performBooleanUnion={() => {}}
+                                    performBooleanIntersect={() => {}}
+                                    performBooleanXor={() => {}}
+                                    settings={projectSettings}
+                                    onSettingsChange={handleProjectSettingsChange}
                                     mobile={true}
                                     mobileMode="layers"
                                 />
@@ -650,16 +1114,21 @@ const App: React.FC = () => {
             <Toolbar 
                 activeTool={activeTool} 
                 setTool={setActiveTool} 
-                undo={() => dispatch({ type: 'UNDO' })}
-                redo={() => dispatch({ type: 'REDO' })}
+                undo={handleUndo}
+                redo={handleRedo}
                 save={handleSaveFile}
                 onNewProject={handleNewProject}
+                onShowSnapshots={handleShowSnapshots}
                 onLoadFile={handleLoadFile}
                 canUndo={history.past.length > 0}
                 canRedo={history.future.length > 0}
                 isSaving={isSaving}
                 entities={entities}
+                layers={layers}
                 onExportImage={() => viewportRef.current?.triggerScreenshot()}
+                snaps={snaps}
+                setSnaps={setSnaps}
+                settings={projectSettings}
             />
 
             <PropertiesPanel 
@@ -675,9 +1144,15 @@ const App: React.FC = () => {
                 addEntity={handleAddEntity}
                 performBooleanSubtract={performBooleanSubtract}
                 performBooleanUnion={performBooleanUnion}
+                performBooleanIntersect={performBooleanIntersect}
+                performBooleanXor={performBooleanXor}
+                settings={projectSettings}
+                onSettingsChange={handleProjectSettingsChange}
             />
 
-            <DraggablePanel title="Scene Settings" initialPos={{ x: window.innerWidth - 260, y: window.innerHeight - 220 }} className="w-60">
+            <CommandLine prompt={activeTool} onSubmit={handleCommand} />
+
+            <DraggablePanel title="Scene Settings" initialPos={{ x: window.innerWidth - 260, y: window.innerHeight - 290 }} className="w-60">
                 <div className="p-4 space-y-5">
                     <div>
                         <div className="flex justify-between text-xs font-bold text-slate-400 mb-2 uppercase tracking-wide">
@@ -688,6 +1163,15 @@ const App: React.FC = () => {
                             value={ambientIntensity} onChange={(e) => setAmbientIntensity(parseFloat(e.target.value))} />
                     </div>
                     
+                    <div>
+                        <div className="flex justify-between text-xs font-bold text-slate-400 mb-2 uppercase tracking-wide">
+                            <span>SVG Curve Tolerance</span>
+                            <span className="text-white">{svgTolerance.toFixed(2)}</span>
+                        </div>
+                        <input type="range" min="0.05" max="5" step="0.05" className="w-full accent-blue-500 h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer"
+                            value={svgTolerance} onChange={(e) => setSvgTolerance(parseFloat(e.target.value))} />
+                    </div>
+
                     <div className="flex items-center justify-between">
                         <span className="text-xs font-bold text-slate-300 uppercase tracking-wide">Show Grid</span>
                         <button onClick={() => setShowGrid(!showGrid)} className={`w-10 h-5 rounded-full relative transition-all ${showGrid ? 'bg-blue-600' : 'bg-slate-700 border border-slate-600'}`}>
@@ -754,6 +1238,12 @@ const App: React.FC = () => {
             onConfirm={confirmNewProject}
             hasUnsavedChanges={entities.length > 0}
         />
+      <RecoveryModal
+            mode={recoveryMode}
+            snapshots={snapshots}
+            onRestore={handleRestoreSnapshot}
+            onClose={handleCloseRecovery}
+        />
 
     </div>
   );
@@ -1,9 +1,18 @@
 
-import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { Entity, Point, ViewState, ToolType, Layer, BaseEntity, EntityType, ViewType, PolygonEntity, LightEntity } from '../types';
-import { screenToWorld, worldToScreen, snapPoint, distance, getRectPoints, generateId, getEntityHandles, isPointInEntity, Handle, mapEntityToView, getDelta3D, getBounds, doRectsIntersect, distanceToSegment } from '../utils/geometry';
-import { GRID_SIZE, GRID_COLOR_MAJOR, GRID_COLOR_MINOR, BACKGROUND_COLOR, SELECTION_COLOR, HIGHLIGHT_COLOR } from '../constants';
+import React, { useRef, useEffect, useState, useCallback, forwardRef, useImperativeHandle } from 'react';
+import { Entity, Point, ViewState, ToolType, Layer, BaseEntity, EntityType, ViewType, PolygonEntity, LightEntity, ArcEntity, SplineEntity, PolylineEntity, ArrayParams, SnapSettings, ProjectSettings, DimensionKind, DimensionEntity, LeaderEntity, AnnotationEntity, AnnotationAnchor, TextEntity, TextFont, HatchEntity, HatchPattern } from '../types';
+import { screenToWorld, worldToScreen, snapPoint, distance, getRectPoints, generateId, getEntityHandles, isPointInEntity, Handle, mapEntityToView, getDelta3D, getBounds, doRectsIntersect, distanceToSegment, arePointsEqual, arcFromThreePoints, arcFromCenter, getArcSweep, splineToBeziers, getPolylineOutline, DEFAULT_POLYLINE_THICKNESS, PolygonCorner, findPolygonCorner, roundPolygonCorners, rectToPolygon, getRectCorners, rotatePoint, OffsetJoin, offsetEntity, getOffsetDistance, isOffsetSupported, EntityEdit, trimEntity, extendEntity, splitEntity, isTrimSupported, isSplitSupported, isAnnotation, isDrafting, getAnnotationGeometry, getArrowOutline, entityToShapes, BooleanShape } from '../utils/geometry';
+import { GRID_COLOR_MAJOR, GRID_COLOR_MINOR, BACKGROUND_COLOR, SELECTION_COLOR, HIGHLIGHT_COLOR, SNAP_COLOR, SNAP_TOLERANCE } from '../constants';
 import { logger } from '../utils/debug';
+import { findSnap, SnapResult } from '../utils/snap';
+import { trackOrtho, trackPolar, TrackingResult } from '../utils/tracking';
+import { getAdaptiveGrid } from '../utils/units';
+import { findAnchor, getAttachedRadius } from '../utils/annotation';
+import { TEXT_FONTS } from '../utils/text';
+import { HATCH_PATTERNS, getHatchSegments, findHatchBoundary, getPickedBoundaries } from '../utils/hatch';
+import { parseCoordinate, resolveCoordinate } from '../utils/commands';
+import { generateArrayCopies, getArrayPath, withoutArrayLink, countArrayItems, MAX_ARRAY_ITEMS } from '../utils/array';
+import { Matrix, translationMatrix, rotationMatrix, scaleMatrix, mirrorMatrix, transformEntity, getSelectionBounds } from '../utils/transform';
 
 interface Canvas2DProps {
   entities: Entity[];
@@ -11,25 +20,38 @@ interface Canvas2DProps {
   view: ViewState;
   setView: (v: ViewState | ((prev: ViewState) => ViewState)) => void;
   onEntityAdd: (e: Entity) => void;
+  onEntitiesAdd: (e: Entity[]) => void;
+  onEntitiesEdit: (edit: EntityEdit) => void;
   onEntitiesUpdate: (e: Entity[]) => void;
   onSelectionChange: (ids: string[]) => void;
   activeLayerId: string;
   layers: Layer[];
   viewType: ViewType;
+  snaps: SnapSettings;
+  settings: ProjectSettings;
 }
 
-const Canvas2D: React.FC<Canvas2DProps> = ({
+export interface Canvas2DHandle {
+  enterInput: (text: string) => string | null; // A point or value typed for the active tool; returns why it was refused
+  isWaitingForInput: () => boolean;
+}
+
+const Canvas2D = forwardRef<Canvas2DHandle, Canvas2DProps>(({
   entities,
   activeTool,
   view,
   setView,
   onEntityAdd,
+  onEntitiesAdd,
+  onEntitiesEdit,
   onEntitiesUpdate,
   onSelectionChange,
   activeLayerId,
   layers,
-  viewType
-}) => {
+  viewType,
+  snaps,
+  settings
+}, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null); // Wrapper for ResizeObserver
   const [isDragging, setIsDragging] = useState(false);
@@ -44,6 +66,32 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
   const [polyPoints, setPolyPoints] = useState<Point[]>([]);
   const [clickStartPos, setClickStartPos] = useState<Point | null>(null);
   const [currentMousePos, setCurrentMousePos] = useState<Point | null>(null);
+  const [cornerSize, setCornerSize] = useState(10);
+  const [pickedCorners, setPickedCorners] = useState<{ entityId: string, corner: PolygonCorner }[]>([]);
+  const [hoverCorner, setHoverCorner] = useState<{ entityId: string, corner: PolygonCorner } | null>(null);
+  const [offsetSourceId, setOffsetSourceId] = useState<string | null>(null);
+  const [offsetJoin, setOffsetJoin] = useState<OffsetJoin>('miter');
+  const [offsetValue, setOffsetValue] = useState<number | null>(null); // null: follow the cursor
+  const [modifyPreview, setModifyPreview] = useState<EntityEdit | null>(null);
+  const [typedAngle, setTypedAngle] = useState<number | null>(null); // Degrees; null: follow the cursor
+  const [typedScale, setTypedScale] = useState<{ x: number | null, y: number | null }>({ x: null, y: null });
+  const [mirrorKeepOriginal, setMirrorKeepOriginal] = useState(false);
+  const [arrayKind, setArrayKind] = useState<ArrayParams['kind']>('rectangular');
+  const [arraySettings, setArraySettings] = useState({ rows: 2, columns: 3, rowSpacing: 50, columnSpacing: 50, count: 6, angle: 360, rotateItems: true, alignToPath: true });
+  const [arrayPathId, setArrayPathId] = useState<string | null>(null);
+  const [arrayAssociative, setArrayAssociative] = useState(true);
+  const [dimensionKind, setDimensionKind] = useState<DimensionKind>('aligned');
+  const [dimensionTargetId, setDimensionTargetId] = useState<string | null>(null); // Circle, arc or sphere a radial dimension measures
+  const [leaderText, setLeaderText] = useState('Note');
+  const [textSettings, setTextSettings] = useState<{ text: string, font: TextFont, size: number, align: TextEntity['align'], rotation: number }>(
+      { text: 'TEXT', font: 'helvetiker', size: settings.gridSpacing, align: 'left', rotation: 0 }); // Rotation in degrees
+  const [hatchSettings, setHatchSettings] = useState<{ pattern: HatchPattern, angle: number, scale: number }>(
+      { pattern: 'ansi31', angle: 0, scale: settings.gridSpacing }); // Angle in degrees
+  const [hatchPick, setHatchPick] = useState<'point' | 'object'>('point'); // Click inside a region, or on a closed entity
+  const [activeSnap, setActiveSnap] = useState<SnapResult | null>(null);
+  const [tracking, setTracking] = useState<TrackingResult | null>(null);
+  const [lastPoint, setLastPoint] = useState<Point | null>(null); // Where relative typed input starts when nothing is being drawn
+  const [dynamicText, setDynamicText] = useState(''); // Typed over the dynamic input readout
   
   // Mobile Gesture State
   const [pinchStartDist, setPinchStartDist] = useState<number>(0);
@@ -56,6 +104,174 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
   const viewRef = useRef(view);
   useEffect(() => { viewRef.current = view; }, [view]);
 
+  // Tools that build an entity from successive clicks instead of a drag
+  const isPickTool = (tool: ToolType) => tool === 'polygon' || tool === 'arc' || tool === 'arc-center' || tool === 'spline' || tool === 'polyline' || tool === 'leader';
+
+  const isCornerTool = (tool: ToolType) => tool === 'fillet' || tool === 'chamfer';
+
+  // Corners are picked on polygons, and on rectangles through the polygon they convert to
+  const getCornerTargets = (): PolygonEntity[] => entities
+      .filter(e => (e.type === 'polygon' || e.type === 'rectangle') && !e.locked && isLayerVisible(e.layerId))
+      .map(e => e.type === 'rectangle' ? rectToPolygon(e) : e as PolygonEntity);
+
+  const findCorner = (p: Point) => {
+      for (const target of getCornerTargets()) {
+          const corner = findPolygonCorner(target, p, 8 / view.scale);
+          if (corner) return { entityId: target.id, corner };
+      }
+      return null;
+  };
+
+  // Every entity with picked corners, rounded with the current tool and size
+  const buildCornerResults = (picks: { entityId: string, corner: PolygonCorner }[]): PolygonEntity[] => {
+      const mode = activeTool === 'chamfer' ? 'chamfer' : 'fillet';
+      return getCornerTargets()
+          .filter(target => picks.some(p => p.entityId === target.id))
+          .map(target => roundPolygonCorners(target, picks.filter(p => p.entityId === target.id).map(p => p.corner), mode, cornerSize));
+  };
+
+  const applyCorners = () => {
+      const results = buildCornerResults(pickedCorners);
+      if (results.length === 0) return;
+      onEntitiesUpdate(results);
+      logger.log('CANVAS', `${activeTool === 'chamfer' ? 'Chamfered' : 'Filleted'} ${pickedCorners.length} corners (size ${cornerSize})`);
+      setPickedCorners([]);
+  };
+
+  // Copies of the offset source on the cursor's side, at the typed distance or the cursor's
+  const buildOffsetResults = (cursor: Point | null): Entity[] => {
+      const source = entities.find(e => e.id === offsetSourceId);
+      if (!source || !cursor) return [];
+      const cursorDistance = getOffsetDistance(source, cursor);
+      if (cursorDistance === null || Math.abs(cursorDistance) < 1e-6) return [];
+      const delta = offsetValue !== null ? Math.sign(cursorDistance) * offsetValue : cursorDistance;
+      return offsetEntity(source, delta, offsetJoin);
+  };
+
+  const isModifyTool = (tool: ToolType) => tool === 'trim' || tool === 'extend' || tool === 'split';
+
+  // What the trim/extend/split tool would do to the entity under p; every visible entity is a boundary
+  const buildModifyEdit = (tool: ToolType, p: Point, splitAt: Point): EntityEdit | null => {
+      const tolerance = 6 / view.scale;
+      const visible = entities.filter(e => isLayerVisible(e.layerId));
+      const supported = tool === 'split' ? isSplitSupported : tool === 'extend'
+          ? (e: Entity) => e.type === 'line' || e.type === 'polyline'
+          : isTrimSupported;
+      const target = [...visible].reverse().find(e => {
+          if (!supported(e) || e.locked) return false;
+          // Closed shapes are picked on their outline, not their inside
+          const outlineDistance = getOffsetDistance(e, p);
+          return e.type === 'rectangle' || e.type === 'polygon'
+              ? outlineDistance !== null && Math.abs(outlineDistance) < tolerance
+              : isPointInEntity(p, e, tolerance);
+      });
+      if (!target) return null;
+      if (tool === 'trim') return trimEntity(target, p, visible);
+      if (tool === 'split') return splitEntity(target, splitAt);
+      const extended = extendEntity(target, p, visible);
+      return extended ? { updated: [extended], added: [] } : null;
+  };
+
+  const isTransformTool = (tool: ToolType) => tool === 'move' || tool === 'copy' || tool === 'rotate' || tool === 'scale' || tool === 'mirror';
+  const getTransformSelection = () => entities.filter(e => e.selected && !e.locked && isLayerVisible(e.layerId));
+
+  // Move from / rotate about / scale from the first pick, or mirror across the line from it to the cursor.
+  // Typed values win over the cursor; the cursor still picks the mirror line.
+  const buildTransformMatrix = (tool: ToolType, cursor: Point | null): Matrix | null => {
+      if (polyPoints.length === 0) return null;
+      const origin = polyPoints[0];
+      if (tool === 'move' || tool === 'copy') return cursor ? translationMatrix(cursor.x - origin.x, cursor.y - origin.y) : null;
+      if (tool === 'rotate') {
+          if (typedAngle !== null) return rotationMatrix(origin, typedAngle * Math.PI / 180);
+          return cursor && !arePointsEqual(cursor, origin) ? rotationMatrix(origin, Math.atan2(cursor.y - origin.y, cursor.x - origin.x)) : null;
+      }
+      if (tool === 'scale') {
+          if (typedScale.x !== null) return scaleMatrix(origin, typedScale.x, typedScale.y ?? typedScale.x);
+          const selection = getTransformSelection();
+          if (!cursor || selection.length === 0) return null;
+          // The cursor at the farthest corner of the selection is a factor of 1
+          const b = getSelectionBounds(selection);
+          const reference = Math.max(...[{ x: b.x1, y: b.y1 }, { x: b.x2, y: b.y1 }, { x: b.x2, y: b.y2 }, { x: b.x1, y: b.y2 }].map(c => distance(origin, c)));
+          return reference > 0 ? scaleMatrix(origin, distance(origin, cursor) / reference) : null;
+      }
+      return cursor && !arePointsEqual(cursor, origin) ? mirrorMatrix(origin, cursor) : null;
+  };
+
+  const applyTransform = (m: Matrix | null) => {
+      const selection = getTransformSelection();
+      if (!m || selection.length === 0) return;
+      const transformed = selection.map(e => transformEntity(e, m));
+      if (activeTool === 'copy' || (activeTool === 'mirror' && mirrorKeepOriginal)) {
+          onEntitiesAdd(transformed.map(e => ({ ...e, id: generateId() })));
+      } else {
+          onEntitiesUpdate(transformed);
+      }
+      logger.log('CANVAS', `${activeTool} applied to ${selection.length} entities`);
+      setPolyPoints([]);
+  };
+
+  // The polar centre is the first picked point; the path is picked from the drawing
+  const buildArrayParams = (): ArrayParams | null => {
+      const s = arraySettings;
+      if (arrayKind === 'rectangular') return { kind: 'rectangular', rows: s.rows, columns: s.columns, rowSpacing: s.rowSpacing, columnSpacing: s.columnSpacing };
+      if (arrayKind === 'polar') return polyPoints.length > 0 ? { kind: 'polar', count: s.count, angle: s.angle * Math.PI / 180, center: polyPoints[0], rotateItems: s.rotateItems } : null;
+      return arrayPathId ? { kind: 'path', count: s.count, pathId: arrayPathId, alignToPath: s.alignToPath } : null;
+  };
+
+  const getArraySources = () => getTransformSelection().filter(e => e.id !== arrayPathId);
+
+  const applyArray = () => {
+      const params = buildArrayParams();
+      const sources = getArraySources();
+      if (!params || sources.length === 0) return;
+      const perSource = countArrayItems(params);
+      if (perSource * sources.length > MAX_ARRAY_ITEMS) {
+          alert(`An array is limited to ${MAX_ARRAY_ITEMS} items.`);
+          return;
+      }
+      if (arrayAssociative) {
+          // The copies are generated from the parameters when the sources are updated
+          onEntitiesUpdate(sources.map(e => ({ ...withoutArrayLink(e), array: params } as Entity)));
+      } else {
+          onEntitiesAdd(sources.flatMap(e => generateArrayCopies(e, params, entities, false)));
+      }
+      logger.log('CANVAS', `${params.kind} array of ${sources.length} entities, ${perSource} items each${arrayAssociative ? ' (associative)' : ''}`);
+      setPolyPoints([]);
+      setArrayPathId(null);
+  };
+
+  // Snaps work on what this view shows. Whatever is being dragged is not a target, and
+  // perpendicular and tangent snaps are measured from the last picked point.
+  const getSnap = (worldPos: Point): SnapResult => {
+      const dragged = new Set([...(movingOrigins || []).map(m => m.id), ...(activeHandle ? [activeHandle.entityId] : [])]);
+      const targets = entities
+          .filter(e => isLayerVisible(e.layerId) && !dragged.has(e.id) && !isDrafting(e))
+          .map(e => mapEntityToView(e, viewType))
+          .filter((e): e is Entity => !!e);
+      const from = polyPoints.length > 0 ? polyPoints[polyPoints.length - 1] : tempEntity?.type === 'line' ? tempEntity.start : null;
+      return findSnap(worldPos, targets, snaps, SNAP_TOLERANCE / view.scale, from, settings.gridSpacing);
+  };
+
+  // Points a rubber-band segment is tracked from; the last one is the segment's own start
+  const getTrackingAnchors = (): Point[] => {
+      if (currentAction === 'moving' && dragStart) return [dragStart];
+      if (currentAction === 'drawing' && dragStart && activeTool === 'line') return [dragStart];
+      if (activeTool === 'polygon' || activeTool === 'polyline' || activeTool === 'leader') return polyPoints.slice(-8);
+      if ((activeTool === 'move' || activeTool === 'copy') && polyPoints.length > 0) return [polyPoints[0]];
+      return [];
+  };
+
+  // Ortho and polar tracking refine grid and free points; an object snap is exact and wins
+  const trackPoint = (worldPos: Point, snap: SnapResult, shiftKey: boolean): TrackingResult | null => {
+      const anchors = getTrackingAnchors();
+      if (anchors.length === 0 || (snap.mode && snap.mode !== 'grid')) return null;
+      const anchor = anchors[anchors.length - 1];
+      const step = snaps.grid ? settings.gridSpacing : 0;
+      if (snaps.ortho !== shiftKey) return trackOrtho(anchor, worldPos, step);
+      if (!snaps.polar) return null;
+      return trackPolar(worldPos, anchor, anchors.slice(0, -1), snaps.polarAngle * Math.PI / 180, SNAP_TOLERANCE / view.scale, step);
+  };
+
   const getLayerColor = (layerId: string) => layers.find(l => l.id === layerId)?.color || '#fff';
   const isLayerVisible = (layerId: string) => layers.find(l => l.id === layerId)?.visible ?? true;
 
@@ -81,6 +297,24 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
           if (e.key === 'Enter' && activeTool === 'polygon' && polyPoints.length >= 3) {
              finishPolygon();
           }
+          if (e.key === 'Enter' && activeTool === 'spline' && polyPoints.length >= 2) {
+             finishSpline(false);
+          }
+          if (e.key === 'Enter' && activeTool === 'polyline' && polyPoints.length >= 2) {
+             finishPolyline();
+          }
+          if (e.key === 'Enter' && activeTool === 'leader' && polyPoints.length >= 2) {
+             finishLeader();
+          }
+          if (e.key === 'Enter' && isCornerTool(activeTool) && pickedCorners.length > 0) {
+             applyCorners();
+          }
+          if (e.key === 'Enter' && (activeTool === 'rotate' || activeTool === 'scale') && polyPoints.length > 0) {
+             applyTransform(buildTransformMatrix(activeTool, null));
+          }
+          if (e.key === 'Enter' && activeTool === 'array') {
+             applyArray();
+          }
       }
       const handleKeyUp = (e: KeyboardEvent) => {
           if(e.code === 'Space') {
@@ -94,7 +328,22 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
           window.removeEventListener('keydown', handleKeyDown);
           window.removeEventListener('keyup', handleKeyUp);
       }
-  }, [polyPoints, activeTool]);
+  }, [polyPoints, activeTool, pickedCorners, cornerSize, entities, typedAngle, typedScale, arrayKind, arraySettings, arrayPathId, arrayAssociative, leaderText]);
+
+  // Picked points belong to the tool that collected them
+  useEffect(() => {
+      setPolyPoints([]);
+      setPickedCorners([]);
+      setHoverCorner(null);
+      setOffsetSourceId(null);
+      setModifyPreview(null);
+      setArrayPathId(null);
+      setDimensionTargetId(null);
+      setTempEntity(null);
+      setCurrentAction(a => a === 'drawing' ? null : a);
+      setDynamicText('');
+      setTracking(null);
+  }, [activeTool]);
 
   // Robust Auto-Center using ResizeObserver
   useEffect(() => {
@@ -144,6 +393,128 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
       logger.log('CANVAS', 'Polygon finished');
   }
 
+  const newEntityBase = () => ({
+      id: generateId(),
+      layerId: activeLayerId,
+      selected: true,
+      extrusionDepth: 20,
+      elevation: 0,
+      roughness: 0.5,
+      metalness: 0.1,
+      operation: 'solid' as const
+  });
+
+  const finishSpline = (closed: boolean) => {
+      if (polyPoints.length < 2) return;
+      const spline: SplineEntity = { ...newEntityBase(), type: 'spline', points: [...polyPoints], closed };
+      onEntityAdd(spline);
+      setPolyPoints([]);
+      logger.log('CANVAS', `Spline finished (${closed ? 'closed' : 'open'})`);
+  }
+
+  const finishPolyline = () => {
+      if (polyPoints.length < 2) return;
+      const polyline: PolylineEntity = { ...newEntityBase(), type: 'polyline', points: [...polyPoints], thickness: DEFAULT_POLYLINE_THICKNESS };
+      onEntityAdd(polyline);
+      setPolyPoints([]);
+      logger.log('CANVAS', `Polyline finished (${polyline.points.length} vertices)`);
+  }
+
+  // Arc through the picked points, the last one being the cursor while previewing
+  const buildArc = (tool: ToolType, picks: Point[]): ArcEntity | null => {
+      if (picks.length < 3) return null;
+      const arc = tool === 'arc' ? arcFromThreePoints(picks[0], picks[1], picks[2]) : arcFromCenter(picks[0], picks[1], picks[2]);
+      return arc ? { ...newEntityBase(), type: 'arc', ...arc } : null;
+  }
+
+  // Annotations lie flat in this view and are one grid step tall, whatever the units
+  const newAnnotationBase = () => ({
+      ...newEntityBase(),
+      extrusionDepth: 0,
+      view: viewType,
+      textHeight: settings.gridSpacing
+  });
+
+  const getAnchorTargets = () => entities.filter(e => !isDrafting(e) && isLayerVisible(e.layerId));
+
+  const getRadialTarget = (id: string | null) => {
+      const target = entities.find(e => e.id === id);
+      const radius = target ? getAttachedRadius(target, viewType) : undefined;
+      const mapped = target && radius !== undefined ? mapEntityToView(target, viewType) : null;
+      return mapped && 'center' in mapped ? { id: target!.id, center: mapped.center, radius: radius! } : null;
+  };
+
+  // Linear dimensions pick two points and angular ones three before the position; radial ones pick a curve
+  const getDimensionPickCount = (kind: DimensionKind) => kind === 'angular' ? 3 : kind === 'radial' || kind === 'diameter' ? 0 : 2;
+
+  const buildDimension = (picks: Point[], position: Point | null): DimensionEntity | null => {
+      if (!position) return null;
+      const base = { ...newAnnotationBase(), type: 'dimension' as const, kind: dimensionKind, position };
+      if (dimensionKind === 'radial' || dimensionKind === 'diameter') {
+          const target = getRadialTarget(dimensionTargetId);
+          if (!target) return null;
+          return { ...base, anchors: [{ point: target.center, ref: { entityId: target.id, key: 'center' } }], radius: target.radius };
+      }
+      const count = getDimensionPickCount(dimensionKind);
+      if (picks.length < count) return null;
+      const targets = getAnchorTargets();
+      return { ...base, anchors: picks.slice(0, count).map(p => findAnchor(p, targets, viewType)) };
+  };
+
+  const buildLeader = (picks: Point[]): LeaderEntity | null => {
+      if (picks.length < 2) return null;
+      return { ...newAnnotationBase(), type: 'leader', anchor: findAnchor(picks[0], getAnchorTargets(), viewType), points: picks.slice(1), text: leaderText };
+  };
+
+  const buildText = (position: Point | null): TextEntity | null => {
+      if (!position || !textSettings.text.trim()) return null;
+      return {
+          ...newEntityBase(),
+          extrusionDepth: 2,
+          type: 'text',
+          position,
+          text: textSettings.text,
+          font: textSettings.font,
+          size: textSettings.size,
+          align: textSettings.align,
+          rotation: textSettings.rotation * Math.PI / 180
+      };
+  };
+
+  const buildHatch = (shape: BooleanShape): HatchEntity => ({
+      ...newEntityBase(),
+      extrusionDepth: 0,
+      type: 'hatch',
+      view: viewType,
+      points: shape.points,
+      ...(shape.holes.length > 0 ? { holes: shape.holes } : {}),
+      pattern: hatchSettings.pattern,
+      angle: hatchSettings.angle * Math.PI / 180,
+      scale: hatchSettings.scale
+  });
+
+  // Boundaries are found among what this view shows
+  const getHatchBoundaries = (worldPos: Point): BooleanShape[] => {
+      const visible = entities
+          .filter(e => isLayerVisible(e.layerId) && !isDrafting(e))
+          .map(e => mapEntityToView(e, viewType))
+          .filter((e): e is Entity => !!e);
+      if (hatchPick === 'object') {
+          const picked = [...visible].reverse().find(e => isPointInEntity(worldPos, e, 5 / view.scale) && getPickedBoundaries(e).length > 0);
+          return picked ? getPickedBoundaries(picked) : [];
+      }
+      const region = findHatchBoundary(visible, worldPos, 0.5 / view.scale);
+      return region ? [region] : [];
+  };
+
+  const finishLeader = () => {
+      const leader = buildLeader(polyPoints);
+      if (!leader) return;
+      onEntityAdd(leader);
+      setPolyPoints([]);
+      logger.log('CANVAS', `Leader finished (${leader.anchor.ref ? 'attached' : 'free'})`);
+  };
+
   const render = useCallback(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -157,29 +528,67 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
     const startWorld = screenToWorld(0, 0, view, viewType);
     const endWorld = screenToWorld(canvas.width, canvas.height, view, viewType);
     
-    const left = Math.floor(startWorld.x / GRID_SIZE) * GRID_SIZE;
-    const top = Math.floor(startWorld.y / GRID_SIZE) * GRID_SIZE;
-    const right = Math.ceil(endWorld.x / GRID_SIZE) * GRID_SIZE;
-    const bottom = Math.ceil(endWorld.y / GRID_SIZE) * GRID_SIZE;
+    // Lines are counted in whole grid steps so major lines and the axes are found exactly
+    const grid = getAdaptiveGrid(settings.gridSpacing, settings.gridMajor, view.scale);
+    const firstX = Math.floor(startWorld.x / grid.minor), lastX = Math.ceil(endWorld.x / grid.minor);
+    const firstY = Math.floor(startWorld.y / grid.minor), lastY = Math.ceil(endWorld.y / grid.minor);
+    const gridColor = (i: number) => i % grid.factor === 0 ? GRID_COLOR_MAJOR : GRID_COLOR_MINOR;
 
     ctx.lineWidth = 1;
-    for (let x = left; x <= right; x += GRID_SIZE) {
-      const screenX = worldToScreen(x, 0, view).x;
+    for (let i = firstX; i <= lastX; i++) {
+      const screenX = worldToScreen(i * grid.minor, 0, view).x;
       ctx.beginPath();
-      ctx.strokeStyle = x === 0 ? '#ef4444' : (x % (GRID_SIZE * 5) === 0 ? GRID_COLOR_MAJOR : GRID_COLOR_MINOR);
+      ctx.strokeStyle = i === 0 ? '#ef4444' : gridColor(i);
       ctx.moveTo(screenX, 0);
       ctx.lineTo(screenX, canvas.height);
       ctx.stroke();
     }
-    for (let y = top; y <= bottom; y += GRID_SIZE) {
-      const screenY = worldToScreen(0, y, view).y;
+    for (let i = firstY; i <= lastY; i++) {
+      const screenY = worldToScreen(0, i * grid.minor, view).y;
       ctx.beginPath();
-      ctx.strokeStyle = y === 0 ? '#22c55e' : (y % (GRID_SIZE * 5) === 0 ? GRID_COLOR_MAJOR : GRID_COLOR_MINOR);
+      ctx.strokeStyle = i === 0 ? '#22c55e' : gridColor(i);
       ctx.moveTo(0, screenY);
       ctx.lineTo(canvas.width, screenY);
       ctx.stroke();
     }
 
+    const drawAnnotation = (annotation: AnnotationEntity, color: string) => {
+        const g = getAnnotationGeometry(annotation);
+        g.segments.forEach(([a, b]) => {
+            const sa = worldToScreen(a.x, a.y, view), sb = worldToScreen(b.x, b.y, view);
+            ctx.moveTo(sa.x, sa.y);
+            ctx.lineTo(sb.x, sb.y);
+        });
+        g.arcs.forEach(arc => {
+            const center = worldToScreen(arc.center.x, arc.center.y, view);
+            const start = worldToScreen(arc.center.x + arc.radius * Math.cos(arc.startAngle), arc.center.y + arc.radius * Math.sin(arc.startAngle), view);
+            ctx.moveTo(start.x, start.y);
+            ctx.arc(center.x, center.y, arc.radius * view.scale, arc.startAngle, arc.startAngle + getArcSweep(arc.startAngle, arc.endAngle));
+        });
+        ctx.stroke();
+
+        ctx.fillStyle = color;
+        g.arrows.forEach(arrow => {
+            ctx.beginPath();
+            getArrowOutline(arrow, annotation.textHeight).forEach((p, i) => {
+                const sp = worldToScreen(p.x, p.y, view);
+                if (i === 0) ctx.moveTo(sp.x, sp.y); else ctx.lineTo(sp.x, sp.y);
+            });
+            ctx.closePath();
+            ctx.fill();
+        });
+
+        const at = worldToScreen(g.text.position.x, g.text.position.y, view);
+        ctx.save();
+        ctx.translate(at.x, at.y);
+        ctx.rotate(g.text.angle);
+        ctx.font = `${g.text.height * view.scale}px sans-serif`;
+        ctx.textAlign = g.text.align;
+        ctx.textBaseline = 'middle';
+        ctx.fillText(g.text.value, 0, 0);
+        ctx.restore();
+    };
+
     const drawEntity = (entity: Entity, colorOverride?: string) => {
         // Safety check for missing layer (e.g. during new project reset)
         if (!entity || !entity.layerId) return;
@@ -202,6 +611,7 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
         ctx.lineWidth = entity.selected || entity.isBase ? 2 : 1;
         
         if (entity.operation === 'cut') ctx.setLineDash([5, 5]); 
+        else if (entity.locked) ctx.setLineDash([2, 3]);
         else ctx.setLineDash([]);
 
         if (mapped.type === 'line') {
@@ -211,10 +621,16 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
             ctx.lineTo(end.x, end.y);
             ctx.stroke();
         } else if (mapped.type === 'rectangle') {
-            const start = worldToScreen(mapped.start.x, mapped.start.y, view);
-            const w = mapped.width * view.scale;
-            const h = mapped.height * view.scale;
-            ctx.rect(start.x, start.y, w, h);
+            if (mapped.rotation) {
+                getRectCorners(mapped).forEach((p, i) => {
+                    const sp = worldToScreen(p.x, p.y, view);
+                    if (i === 0) ctx.moveTo(sp.x, sp.y); else ctx.lineTo(sp.x, sp.y);
+                });
+                ctx.closePath();
+            } else {
+                const start = worldToScreen(mapped.start.x, mapped.start.y, view);
+                ctx.rect(start.x, start.y, mapped.width * view.scale, mapped.height * view.scale);
+            }
             ctx.stroke();
             if (viewType !== 'top' && entity.operation !== 'cut') {
                 ctx.fillStyle = color + '33'; 
@@ -233,6 +649,56 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
                 ctx.lineTo(center.x, center.y + 4);
                 ctx.stroke();
             }
+        } else if (mapped.type === 'arc') {
+            const center = worldToScreen(mapped.center.x, mapped.center.y, view);
+            ctx.arc(center.x, center.y, mapped.radius * view.scale, mapped.startAngle, mapped.startAngle + getArcSweep(mapped.startAngle, mapped.endAngle));
+            ctx.stroke();
+        } else if (mapped.type === 'ellipse') {
+            const center = worldToScreen(mapped.center.x, mapped.center.y, view);
+            ctx.ellipse(center.x, center.y, mapped.radiusX * view.scale, mapped.radiusY * view.scale, mapped.rotation || 0, 0, Math.PI * 2);
+            ctx.stroke();
+            if (viewType === 'top') {
+                ctx.fillStyle = color + '22';
+                ctx.fill();
+            }
+        } else if (mapped.type === 'spline') {
+            const segments = splineToBeziers(mapped.points, mapped.closed);
+            if (segments.length > 0) {
+                const start = worldToScreen(segments[0].start.x, segments[0].start.y, view);
+                ctx.moveTo(start.x, start.y);
+                segments.forEach(seg => {
+                    const c1 = worldToScreen(seg.c1.x, seg.c1.y, view);
+                    const c2 = worldToScreen(seg.c2.x, seg.c2.y, view);
+                    const end = worldToScreen(seg.end.x, seg.end.y, view);
+                    ctx.bezierCurveTo(c1.x, c1.y, c2.x, c2.y, end.x, end.y);
+                });
+                if (mapped.closed) ctx.closePath();
+                ctx.stroke();
+                if (mapped.closed && viewType === 'top') {
+                    ctx.fillStyle = color + '22';
+                    ctx.fill();
+                }
+            }
+        } else if (mapped.type === 'polyline') {
+            if (viewType === 'top') {
+                // Wall footprint under the centreline
+                const outline = getPolylineOutline(mapped);
+                if (outline.length > 2) {
+                    outline.forEach((p, i) => {
+                        const sp = worldToScreen(p.x, p.y, view);
+                        if (i === 0) ctx.moveTo(sp.x, sp.y); else ctx.lineTo(sp.x, sp.y);
+                    });
+                    ctx.closePath();
+                    ctx.fillStyle = color + '22';
+                    ctx.fill();
+                    ctx.beginPath();
+                }
+            }
+            mapped.points.forEach((p, i) => {
+                const sp = worldToScreen(p.x, p.y, view);
+                if (i === 0) ctx.moveTo(sp.x, sp.y); else ctx.lineTo(sp.x, sp.y);
+            });
+            ctx.stroke();
         } else if (mapped.type === 'polygon') {
             if (mapped.points.length > 0) {
                 const start = worldToScreen(mapped.points[0].x, mapped.points[0].y, view);
@@ -284,10 +750,51 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
                  ctx.fillStyle = '#f59e0b';
                  ctx.fillRect(tPos.x - 3, tPos.y - 3, 6, 6);
              }
+        } else if (mapped.type === 'text') {
+            entityToShapes(mapped).forEach(glyph => [glyph.points, ...glyph.holes].forEach(ring => {
+                ring.forEach((p, i) => {
+                    const sp = worldToScreen(p.x, p.y, view);
+                    if (i === 0) ctx.moveTo(sp.x, sp.y); else ctx.lineTo(sp.x, sp.y);
+                });
+                ctx.closePath();
+            }));
+            ctx.stroke();
+            ctx.fillStyle = color + (entity.operation === 'cut' ? '22' : '66');
+            ctx.fill('evenodd');
+        } else if (mapped.type === 'hatch') {
+            const traceRings = () => [mapped.points, ...(mapped.holes || [])].forEach(ring => {
+                ring.forEach((p, i) => {
+                    const sp = worldToScreen(p.x, p.y, view);
+                    if (i === 0) ctx.moveTo(sp.x, sp.y); else ctx.lineTo(sp.x, sp.y);
+                });
+                ctx.closePath();
+            });
+            if (mapped.pattern === 'solid') {
+                traceRings();
+                ctx.fillStyle = color + '99';
+                ctx.fill('evenodd');
+            } else {
+                getHatchSegments(mapped).forEach(([a, b]) => {
+                    const sa = worldToScreen(a.x, a.y, view), sb = worldToScreen(b.x, b.y, view);
+                    ctx.moveTo(sa.x, sa.y);
+                    ctx.lineTo(sb.x, sb.y);
+                });
+                ctx.stroke();
+            }
+            // The boundary belongs to the entities it was picked from; it is only outlined while selected
+            if (entity.selected) {
+                ctx.beginPath();
+                ctx.setLineDash([4, 4]);
+                traceRings();
+                ctx.stroke();
+            }
+        } else if (mapped.type === 'dimension' || mapped.type === 'leader') {
+            drawAnnotation(mapped, color!);
         }
         ctx.setLineDash([]);
 
-        if (entity.selected && !currentAction?.startsWith('drawing')) {
+        // Meshes have no editable vertices; locked entities cannot be reshaped
+        if (entity.selected && !entity.locked && entity.type !== 'mesh' && !currentAction?.startsWith('drawing')) {
             const handles = getEntityHandles(mapped);
             ctx.strokeStyle = SELECTION_COLOR;
             handles.forEach(h => {
@@ -308,6 +815,101 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
     });
 
     if (tempEntity) drawEntity(tempEntity, HIGHLIGHT_COLOR);
+
+    if (activeTool === 'text' && viewType === 'top') {
+        const preview = buildText(currentMousePos);
+        if (preview) drawEntity({ ...preview, selected: false }, HIGHLIGHT_COLOR);
+    }
+
+    if (activeTool === 'dimension' || activeTool === 'leader') {
+        const target = activeTool === 'dimension' ? entities.find(e => e.id === dimensionTargetId) : undefined;
+        if (target) drawEntity({ ...target, selected: true });
+        const preview = activeTool === 'dimension'
+            ? buildDimension(polyPoints, currentMousePos)
+            : buildLeader(currentMousePos ? [...polyPoints, currentMousePos] : polyPoints);
+        if (preview) drawEntity(preview, HIGHLIGHT_COLOR);
+        ctx.strokeStyle = HIGHLIGHT_COLOR;
+        polyPoints.forEach(p => {
+            const sp = worldToScreen(p.x, p.y, view);
+            ctx.beginPath();
+            ctx.arc(sp.x, sp.y, 4, 0, Math.PI * 2);
+            ctx.stroke();
+        });
+    }
+
+    if (isTransformTool(activeTool) && viewType === 'top' && polyPoints.length > 0) {
+        const origin = worldToScreen(polyPoints[0].x, polyPoints[0].y, view);
+        if (activeTool === 'mirror' && currentMousePos) {
+            const end = worldToScreen(currentMousePos.x, currentMousePos.y, view);
+            ctx.beginPath();
+            ctx.strokeStyle = HIGHLIGHT_COLOR;
+            ctx.setLineDash([5, 5]);
+            ctx.moveTo(origin.x, origin.y);
+            ctx.lineTo(end.x, end.y);
+            ctx.stroke();
+            ctx.setLineDash([]);
+        }
+        const m = buildTransformMatrix(activeTool, currentMousePos);
+        if (m) getTransformSelection().forEach(e => drawEntity({ ...transformEntity(e, m), selected: false }, HIGHLIGHT_COLOR));
+        ctx.strokeStyle = HIGHLIGHT_COLOR;
+        ctx.beginPath();
+        ctx.arc(origin.x, origin.y, 4, 0, Math.PI * 2);
+        ctx.stroke();
+    }
+
+    if (activeTool === 'array' && viewType === 'top') {
+        const path = entities.find(e => e.id === arrayPathId);
+        if (path) drawEntity({ ...path, selected: false }, HIGHLIGHT_COLOR);
+        if (arrayKind === 'polar' && polyPoints.length > 0) {
+            const c = worldToScreen(polyPoints[0].x, polyPoints[0].y, view);
+            ctx.strokeStyle = HIGHLIGHT_COLOR;
+            ctx.beginPath();
+            ctx.arc(c.x, c.y, 4, 0, Math.PI * 2);
+            ctx.stroke();
+        }
+        const params = buildArrayParams();
+        const sources = getArraySources();
+        const perSource = params ? countArrayItems(params) : 0;
+        if (params && perSource * sources.length <= MAX_ARRAY_ITEMS) {
+            sources.forEach(e => generateArrayCopies(e, params, entities, false).forEach(copy => drawEntity(copy, HIGHLIGHT_COLOR)));
+        }
+    }
+
+    if (isModifyTool(activeTool) && modifyPreview) {
+        [...modifyPreview.updated, ...modifyPreview.added].forEach(result => drawEntity({ ...result, selected: false }, HIGHLIGHT_COLOR));
+    }
+
+    if (activeTool === 'offset' && viewType === 'top' && offsetSourceId) {
+        const source = entities.find(e => e.id === offsetSourceId);
+        if (source) drawEntity({ ...source, selected: true });
+        try {
+            buildOffsetResults(currentMousePos).forEach(result => drawEntity({ ...result, selected: false }, HIGHLIGHT_COLOR));
+        } catch (e) {
+            // Already logged; the preview just shows nothing for this cursor position
+        }
+    }
+
+    if (isCornerTool(activeTool) && viewType === 'top' && (pickedCorners.length > 0 || hoverCorner)) {
+        // Live result of the picked corners plus the one under the cursor
+        const isPicked = (c: { entityId: string, corner: PolygonCorner }) => pickedCorners.some(p =>
+            p.entityId === c.entityId && p.corner.ring === c.corner.ring && p.corner.index === c.corner.index);
+        const picks = hoverCorner && !isPicked(hoverCorner) ? [...pickedCorners, hoverCorner] : pickedCorners;
+        buildCornerResults(picks).forEach(result => drawEntity({ ...result, selected: false }, HIGHLIGHT_COLOR));
+
+        const targets = getCornerTargets();
+        picks.forEach(pick => {
+            const target = targets.find(t => t.id === pick.entityId);
+            const ring = target && (pick.corner.ring === 0 ? target.points : target.holes?.[pick.corner.ring - 1]);
+            const vertex = ring?.[pick.corner.index];
+            if (!vertex) return;
+            const sp = worldToScreen(vertex.x, vertex.y, view);
+            ctx.setLineDash([]);
+            ctx.strokeStyle = HIGHLIGHT_COLOR;
+            ctx.fillStyle = HIGHLIGHT_COLOR;
+            if (isPicked(pick)) ctx.fillRect(sp.x - 4, sp.y - 4, 8, 8);
+            else ctx.strokeRect(sp.x - 4, sp.y - 4, 8, 8);
+        });
+    }
     
     if (activeTool === 'polygon' && polyPoints.length > 0) {
         ctx.beginPath();
@@ -329,6 +931,34 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
         ctx.fillRect(start.x-2, start.y-2, 4, 4);
     }
 
+    if ((activeTool === 'arc' || activeTool === 'arc-center' || activeTool === 'spline' || activeTool === 'polyline') && polyPoints.length > 0) {
+        const picks = currentMousePos ? [...polyPoints, currentMousePos] : polyPoints;
+        const preview = activeTool === 'spline'
+            ? { ...newEntityBase(), type: 'spline', points: picks, closed: false } as SplineEntity
+            : activeTool === 'polyline'
+            ? { ...newEntityBase(), type: 'polyline', points: picks, thickness: DEFAULT_POLYLINE_THICKNESS } as PolylineEntity
+            : buildArc(activeTool, picks);
+        if (preview) {
+            drawEntity({ ...preview, selected: false }, HIGHLIGHT_COLOR);
+        } else if (picks.length > 1) {
+            // Not enough points for a curve yet: show the chord (or radius) being picked
+            ctx.beginPath();
+            ctx.strokeStyle = HIGHLIGHT_COLOR;
+            ctx.setLineDash([5, 5]);
+            picks.forEach((p, i) => {
+                const sp = worldToScreen(p.x, p.y, view);
+                if (i === 0) ctx.moveTo(sp.x, sp.y); else ctx.lineTo(sp.x, sp.y);
+            });
+            ctx.stroke();
+            ctx.setLineDash([]);
+        }
+        ctx.fillStyle = HIGHLIGHT_COLOR;
+        polyPoints.forEach(p => {
+            const sp = worldToScreen(p.x, p.y, view);
+            ctx.fillRect(sp.x - 2, sp.y - 2, 4, 4);
+        });
+    }
+
     if (currentAction === 'box-select' && selectionBox) {
         const s = worldToScreen(selectionBox.start.x, selectionBox.start.y, view);
         const e = worldToScreen(selectionBox.end.x, selectionBox.end.y, view);
@@ -340,7 +970,99 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
         ctx.stroke();
     }
 
-  }, [view, entities, tempEntity, layers, currentAction, previewEntities, viewType, polyPoints, selectionBox, currentMousePos]);
+    // Tracking guides run from the points they were measured from to beyond the cursor
+    if (tracking) {
+        ctx.save();
+        ctx.strokeStyle = SNAP_COLOR;
+        ctx.fillStyle = SNAP_COLOR;
+        ctx.lineWidth = 1;
+        ctx.setLineDash([6, 4]);
+        const reach = Math.max(ctx.canvas.width, ctx.canvas.height) * 2 / view.scale;
+        tracking.guides.forEach(guide => {
+            const s = worldToScreen(guide.from.x, guide.from.y, view);
+            const e = worldToScreen(guide.from.x + Math.cos(guide.angle) * reach, guide.from.y + Math.sin(guide.angle) * reach, view);
+            ctx.beginPath();
+            ctx.moveTo(s.x, s.y);
+            ctx.lineTo(e.x, e.y);
+            ctx.stroke();
+        });
+        ctx.setLineDash([]);
+        const at = worldToScreen(tracking.point.x, tracking.point.y, view);
+        ctx.beginPath();
+        ctx.moveTo(at.x - 5, at.y - 5);
+        ctx.lineTo(at.x + 5, at.y + 5);
+        ctx.moveTo(at.x + 5, at.y - 5);
+        ctx.lineTo(at.x - 5, at.y + 5);
+        ctx.stroke();
+        ctx.font = '10px sans-serif';
+        ctx.fillText(tracking.label, at.x + 10, at.y + 18);
+        ctx.restore();
+    }
+
+    // Snap glyphs follow the usual drafting shapes; plain selecting does not show them
+    const showSnap = activeTool !== 'select' || currentAction === 'moving' || currentAction === 'resizing';
+    if (activeSnap && activeSnap.mode && activeSnap.mode !== 'grid' && showSnap) {
+        const { x, y } = worldToScreen(activeSnap.point.x, activeSnap.point.y, view);
+        const r = 6;
+        ctx.save();
+        ctx.strokeStyle = SNAP_COLOR;
+        ctx.fillStyle = SNAP_COLOR;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        switch (activeSnap.mode) {
+            case 'endpoint':
+                ctx.rect(x - r, y - r, r * 2, r * 2);
+                break;
+            case 'midpoint':
+                ctx.moveTo(x, y - r);
+                ctx.lineTo(x + r, y + r);
+                ctx.lineTo(x - r, y + r);
+                ctx.closePath();
+                break;
+            case 'center':
+                ctx.arc(x, y, r, 0, Math.PI * 2);
+                break;
+            case 'quadrant':
+                ctx.moveTo(x, y - r);
+                ctx.lineTo(x + r, y);
+                ctx.lineTo(x, y + r);
+                ctx.lineTo(x - r, y);
+                ctx.closePath();
+                break;
+            case 'intersection':
+                ctx.moveTo(x - r, y - r);
+                ctx.lineTo(x + r, y + r);
+                ctx.moveTo(x + r, y - r);
+                ctx.lineTo(x - r, y + r);
+                break;
+            case 'nearest':
+                ctx.moveTo(x - r, y - r);
+                ctx.lineTo(x + r, y - r);
+                ctx.lineTo(x - r, y + r);
+                ctx.lineTo(x + r, y + r);
+                ctx.closePath();
+                break;
+            case 'perpendicular':
+                ctx.moveTo(x - r, y - r);
+                ctx.lineTo(x - r, y + r);
+                ctx.lineTo(x + r, y + r);
+                ctx.moveTo(x - r, y);
+                ctx.lineTo(x, y);
+                ctx.lineTo(x, y + r);
+                break;
+            case 'tangent':
+                ctx.arc(x, y, r * 0.7, 0, Math.PI * 2);
+                ctx.moveTo(x - r, y - r);
+                ctx.lineTo(x + r, y - r);
+                break;
+        }
+        ctx.stroke();
+        ctx.font = '10px sans-serif';
+        ctx.fillText(activeSnap.mode, x + r + 4, y - r - 2);
+        ctx.restore();
+    }
+
+  }, [view, entities, tempEntity, layers, currentAction, previewEntities, viewType, polyPoints, selectionBox, currentMousePos, activeTool, pickedCorners, hoverCorner, cornerSize, offsetSourceId, offsetJoin, offsetValue, modifyPreview, typedAngle, typedScale, arrayKind, arraySettings, arrayPathId, activeSnap, tracking, settings, dimensionKind, dimensionTargetId, leaderText, textSettings]);
 
   useEffect(() => {
     let animationFrameId: number;
@@ -354,17 +1076,23 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
     };
   }, [render]);
 
-  // Unified Handler for Mouse and Touch
-  const handlePointerDown = (clientX: number, clientY: number, button: number, shiftKey: boolean) => {
-    if(canvasRef.current) canvasRef.current.focus();
-    
-    const rect = canvasRef.current!.getBoundingClientRect();
-    const screenX = clientX - rect.left;
-    const screenY = clientY - rect.top;
-    const worldPos = screenToWorld(screenX, screenY, view, viewType);
-    const snappedPos = snapPoint(worldPos);
-    setIsDragging(true);
-    setClickStartPos({ x: clientX, y: clientY });
+  // Unified Handler for Mouse and Touch. A typed point stands in for a click at exactly that spot.
+  const handlePointerDown = (clientX: number, clientY: number, button: number, shiftKey: boolean, typedPos?: Point) => {
+    let worldPos: Point, snappedPos: Point;
+    if (typedPos) {
+        worldPos = snappedPos = typedPos;
+    } else {
+        if(canvasRef.current) canvasRef.current.focus();
+
+        const rect = canvasRef.current!.getBoundingClientRect();
+        const screenX = clientX - rect.left;
+        const screenY = clientY - rect.top;
+        worldPos = screenToWorld(screenX, screenY, view, viewType);
+        const snap = getSnap(worldPos);
+        snappedPos = trackPoint(worldPos, snap, shiftKey)?.point ?? snap.point;
+        setIsDragging(true);
+        setClickStartPos({ x: clientX, y: clientY });
+    }
 
     const effectiveTool = isSpacePanning ? 'pan' : activeTool;
 
@@ -374,6 +1102,100 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
       return;
     }
 
+    // A drawing started from a typed point ends where the pointer is released
+    if (currentAction === 'drawing' && tempEntity) return;
+    if (effectiveTool !== 'select') setLastPoint(snappedPos);
+
+    if (isTransformTool(effectiveTool)) {
+        if (button === 2) {
+            setPolyPoints([]);
+            return;
+        }
+        if (viewType !== 'top' || getTransformSelection().length === 0) return;
+        if (polyPoints.length === 0) setPolyPoints([snappedPos]);
+        else applyTransform(buildTransformMatrix(effectiveTool, snappedPos));
+        return;
+    }
+
+    if (effectiveTool === 'array') {
+        if (button === 2) {
+            setPolyPoints([]);
+            setArrayPathId(null);
+            return;
+        }
+        if (viewType !== 'top') return;
+        if (arrayKind === 'polar') {
+            setPolyPoints([snappedPos]);
+        } else if (arrayKind === 'path') {
+            const path = [...entities].reverse().find(e =>
+                getArrayPath(e) && isLayerVisible(e.layerId) && isPointInEntity(worldPos, e, 5 / view.scale));
+            if (path) setArrayPathId(path.id);
+        }
+        return;
+    }
+
+    if (isModifyTool(effectiveTool)) {
+        if (button === 2 || viewType !== 'top') return;
+        const result = buildModifyEdit(effectiveTool, worldPos, snappedPos);
+        if (!result) {
+            logger.warn('CANVAS', `Nothing to ${effectiveTool} here`);
+            return;
+        }
+        onEntitiesEdit(result);
+        setModifyPreview(null);
+        logger.log('CANVAS', `${effectiveTool}: ${result.updated.length} changed, ${result.added.length} added`);
+        return;
+    }
+
+    if (effectiveTool === 'offset') {
+        if (button === 2) {
+            setOffsetSourceId(null);
+            return;
+        }
+        if (viewType !== 'top') return;
+        if (!offsetSourceId) {
+            const source = [...entities].reverse().find(e =>
+                isOffsetSupported(e) && isLayerVisible(e.layerId) && isPointInEntity(worldPos, e, 5 / view.scale));
+            if (source) setOffsetSourceId(source.id);
+            return;
+        }
+        try {
+            const results = buildOffsetResults(snappedPos);
+            if (results.length === 0) {
+                logger.warn('CANVAS', 'Offset leaves nothing at this distance');
+                return;
+            }
+            onEntitiesAdd(results);
+            logger.log('CANVAS', `Offset created ${results.length} entities (${offsetJoin} joins)`);
+            setOffsetSourceId(null);
+        } catch (e: any) {
+            alert(`Offset failed: ${e.message}`);
+        }
+        return;
+    }
+
+    if (isCornerTool(effectiveTool)) {
+        if (button === 2) {
+            setPickedCorners([]);
+            return;
+        }
+        if (viewType !== 'top') return;
+        const hit = findCorner(worldPos);
+        if (hit) {
+            const same = (p: { entityId: string, corner: PolygonCorner }) =>
+                p.entityId === hit.entityId && p.corner.ring === hit.corner.ring && p.corner.index === hit.corner.index;
+            setPickedCorners(pickedCorners.some(same) ? pickedCorners.filter(p => !same(p)) : [...pickedCorners, hit]);
+            return;
+        }
+        // Clicking inside a shape picks all of its corners, holes included
+        const target = getCornerTargets().reverse().find(t => isPointInEntity(worldPos, t, 5 / view.scale));
+        if (target) {
+            const all = [target.points, ...(target.holes || [])].flatMap((ring, r) => ring.map((_, index) => ({ entityId: target.id, corner: { ring: r, index } })));
+            setPickedCorners([...pickedCorners.filter(p => p.entityId !== target.id), ...all]);
+        }
+        return;
+    }
+
     if (effectiveTool === 'polygon') {
         if (button === 2) { 
             setPolyPoints([]); 
@@ -388,6 +1210,112 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
         return; 
     }
     
+    if (effectiveTool === 'arc' || effectiveTool === 'arc-center' || effectiveTool === 'spline' || effectiveTool === 'polyline') {
+        if (button === 2) {
+            setPolyPoints([]);
+            logger.log('CANVAS', `${effectiveTool} drawing cancelled`);
+            return;
+        }
+        if (polyPoints.length > 0 && distance(polyPoints[polyPoints.length - 1], snappedPos) < 0.1) return;
+
+        if (effectiveTool === 'spline') {
+            // Picking the first point again closes the curve
+            if (polyPoints.length >= 3 && distance(polyPoints[0], snappedPos) < 0.1) {
+                finishSpline(true);
+                return;
+            }
+            setPolyPoints([...polyPoints, snappedPos]);
+            return;
+        }
+
+        if (effectiveTool === 'polyline') {
+            setPolyPoints([...polyPoints, snappedPos]);
+            return;
+        }
+
+        const picks = [...polyPoints, snappedPos];
+        if (picks.length < 3) {
+            setPolyPoints(picks);
+            return;
+        }
+        const arc = buildArc(effectiveTool, picks);
+        if (arc) {
+            onEntityAdd(arc);
+            logger.log('CANVAS', 'Entity added: arc');
+        } else {
+            logger.warn('CANVAS', 'Arc points are collinear or coincident, nothing drawn');
+        }
+        setPolyPoints([]);
+        return;
+    }
+
+    if (effectiveTool === 'dimension') {
+        if (button === 2) {
+            setPolyPoints([]);
+            setDimensionTargetId(null);
+            return;
+        }
+        if ((dimensionKind === 'radial' || dimensionKind === 'diameter') && !dimensionTargetId) {
+            const target = [...entities].reverse().find(e => {
+                if (!isLayerVisible(e.layerId) || getAttachedRadius(e, viewType) === undefined) return false;
+                const mapped = mapEntityToView(e, viewType);
+                return !!mapped && isPointInEntity(worldPos, mapped, 5 / view.scale);
+            });
+            if (target) setDimensionTargetId(target.id);
+            else logger.warn('CANVAS', 'Pick a circle, arc or sphere to dimension');
+            return;
+        }
+        if (polyPoints.length < getDimensionPickCount(dimensionKind)) {
+            if (polyPoints.length > 0 && distance(polyPoints[polyPoints.length - 1], snappedPos) < 0.1) return;
+            setPolyPoints([...polyPoints, snappedPos]);
+            return;
+        }
+        const dimension = buildDimension(polyPoints, snappedPos);
+        if (dimension) {
+            onEntityAdd(dimension);
+            logger.log('CANVAS', `${dimensionKind} dimension added: ${dimension.anchors.filter(a => a.ref).length} of ${dimension.anchors.length} points attached`);
+        }
+        setPolyPoints([]);
+        setDimensionTargetId(null);
+        return;
+    }
+
+    if (effectiveTool === 'leader') {
+        if (button === 2) {
+            setPolyPoints([]);
+            logger.log('CANVAS', 'Leader cancelled');
+            return;
+        }
+        if (polyPoints.length > 0 && distance(polyPoints[polyPoints.length - 1], snappedPos) < 0.1) return;
+        setPolyPoints([...polyPoints, snappedPos]);
+        return;
+    }
+
+    if (effectiveTool === 'text') {
+        if (button === 2 || viewType !== 'top') return;
+        const text = buildText(snappedPos);
+        if (!text) {
+            logger.warn('CANVAS', 'Type the text to place first');
+            return;
+        }
+        onEntityAdd(text);
+        logger.log('CANVAS', `Text placed: "${text.text}" (${text.font}, ${text.size})`);
+        return;
+    }
+
+    if (effectiveTool === 'hatch') {
+        if (button === 2) return;
+        // The raw position: a grid point may sit right on a boundary
+        const boundaries = getHatchBoundaries(worldPos);
+        if (boundaries.length === 0) {
+            logger.warn('CANVAS', hatchPick === 'object' ? 'Pick a closed entity to hatch' : 'No closed region around this point');
+            return;
+        }
+        onEntitiesAdd(boundaries.map(buildHatch));
+        logger.log('CANVAS', `Hatch added: ${hatchSettings.pattern}, ${boundaries.length} region(s), ${boundaries.reduce((n, b) => n + b.holes.length, 0)} hole(s)`);
+        return;
+    }
+
     if (effectiveTool === 'light') {
         const light: LightEntity = {
             id: generateId(),
@@ -407,7 +1335,7 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
     }
 
     if (effectiveTool === 'select') {
-        const selected = entities.filter(e => e.selected && isLayerVisible(e.layerId));
+        const selected = entities.filter(e => e.selected && !e.locked && e.type !== 'mesh' && isLayerVisible(e.layerId));
         for (const ent of selected) {
             const mapped = mapEntityToView(ent, viewType);
             if(!mapped) continue;
@@ -442,7 +1370,7 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
                 setCurrentAction('moving');
                 setDragStart(snappedPos);
                 const idsToMove = entities.filter(e => e.selected).map(e => e.id);
-                const toMove = entities.filter(e => idsToMove.includes(e.id)).map(e => ({ id: e.id, original: { ...e } }));
+                const toMove = entities.filter(e => idsToMove.includes(e.id) && !e.locked).map(e => ({ id: e.id, original: { ...e } }));
                 setMovingOrigins(toMove);
                 const pMap = new Map();
                 toMove.forEach(item => pMap.set(item.id, { ...item.original }));
@@ -457,10 +1385,10 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
 
                     setCurrentAction('moving');
                     setDragStart(snappedPos);
-                    const toMove = [{ id: hitEntity.id, original: { ...hitEntity, selected: true } }];
+                    const toMove = hitEntity.locked ? [] : [{ id: hitEntity.id, original: { ...hitEntity, selected: true } }];
                     setMovingOrigins(toMove);
                     const pMap = new Map();
-                    pMap.set(hitEntity.id, { ...hitEntity, selected: true });
+                    toMove.forEach(item => pMap.set(item.id, item.original));
                     setPreviewEntities(pMap);
                     return;
                 } else {
@@ -480,8 +1408,13 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
         }
     }
 
+    startDrawing(snappedPos);
+  };
+
+  // Line, rectangle, circle, sphere and ellipse are dragged out from their first point
+  const startDrawing = (start: Point) => {
     setCurrentAction('drawing');
-    setDragStart(snappedPos);
+    setDragStart(start);
 
     const baseEntity: BaseEntity = {
         id: generateId(),
@@ -496,24 +1429,190 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
     };
 
     if (activeTool === 'line') {
-        setTempEntity({ ...baseEntity, type: 'line', start: snappedPos, end: snappedPos, extrusionDepth: 0 });
+        setTempEntity({ ...baseEntity, type: 'line', start, end: start, extrusionDepth: 0 });
     } else if (activeTool === 'rectangle') {
-        setTempEntity({ ...baseEntity, type: 'rectangle', start: snappedPos, width: 0, height: 0 });
+        setTempEntity({ ...baseEntity, type: 'rectangle', start, width: 0, height: 0 });
     } else if (activeTool === 'circle') {
-        setTempEntity({ ...baseEntity, type: 'circle', center: snappedPos, radius: 0 });
+        setTempEntity({ ...baseEntity, type: 'circle', center: start, radius: 0 });
     } else if (activeTool === 'sphere') {
-        setTempEntity({ ...baseEntity, type: 'sphere', center: snappedPos, radius: 0 });
+        setTempEntity({ ...baseEntity, type: 'sphere', center: start, radius: 0 });
+    } else if (activeTool === 'ellipse') {
+        setTempEntity({ ...baseEntity, type: 'ellipse', center: start, radiusX: 0, radiusY: 0, rotation: 0 });
+    }
+  };
+
+  const stretchTempEntity = (temp: Entity, start: Point, end: Point): Entity => {
+    if (temp.type === 'line') return { ...temp, end };
+    if (temp.type === 'rectangle') {
+        const { x, y, width, height } = getRectPoints(start, end);
+        return { ...temp, start: { x, y }, width, height };
+    }
+    if (temp.type === 'circle' || temp.type === 'sphere') return { ...temp, radius: distance(start, end) };
+    if (temp.type === 'ellipse') {
+        // Inscribed in the dragged box, like the rectangle tool
+        const { x, y, width, height } = getRectPoints(start, end);
+        return { ...temp, center: { x: x + width / 2, y: y + height / 2 }, radiusX: width / 2, radiusY: height / 2 };
+    }
+    return temp;
+  };
+
+  // Adds the dragged-out entity unless it has no size
+  const commitTempEntity = (temp: Entity): boolean => {
+    let isValid = false;
+    if (temp.type === 'line') {
+         if(distance(temp.start, temp.end) > 0) isValid = true;
+    }
+    if (temp.type === 'rectangle') {
+         if(temp.width > 0) isValid = true;
+    }
+    if ((temp.type === 'circle' || temp.type === 'sphere')) {
+         if(temp.radius > 0) isValid = true;
+    }
+    if (temp.type === 'ellipse') {
+         if (temp.radiusX > 0 && temp.radiusY > 0) isValid = true;
     }
+
+    if (isValid) {
+        onEntityAdd(temp);
+        logger.log('CANVAS', `Entity added: ${temp.type}`);
+    }
+    return isValid;
+  };
+
+  // --- Typed Input ---
+
+  // The point being drawn from: typed relative input and the dynamic readout are measured from it
+  const getInputAnchor = (): Point | null => {
+    if (currentAction === 'drawing' && dragStart) return dragStart;
+    if (polyPoints.length > 0) return polyPoints[polyPoints.length - 1];
+    return null;
+  };
+
+  const isDragTool = (tool: ToolType) => tool === 'line' || tool === 'rectangle' || tool === 'circle' || tool === 'sphere' || tool === 'ellipse';
+
+  const enterPoint = (p: Point): string | null => {
+    if (activeTool === 'select' || activeTool === 'pan') return 'No command is waiting for a point';
+    if (!isDragTool(activeTool)) {
+        handlePointerDown(0, 0, 0, false, p);
+        return null;
+    }
+    setLastPoint(p);
+    if (!(currentAction === 'drawing' && tempEntity && dragStart)) {
+        startDrawing(p);
+        return null;
+    }
+    const added = commitTempEntity(stretchTempEntity(tempEntity, dragStart, p));
+    setCurrentAction(null);
+    setTempEntity(null);
+    setDragStart(null);
+    if (!added) return 'That shape has no size';
+    // Typed lines chain on from their end until Escape
+    if (activeTool === 'line') startDrawing(p);
+    return null;
+  };
+
+  // A bare number: an angle, factor, size or radius for the tools that ask for one,
+  // otherwise a distance from the anchor towards the cursor
+  const enterValue = (value: number): string | null => {
+    const anchor = getInputAnchor();
+    if (activeTool === 'rotate' || activeTool === 'scale') {
+        if (polyPoints.length === 0) return activeTool === 'rotate' ? 'Pick the pivot first' : 'Pick the base point first';
+        if (activeTool === 'scale' && value === 0) return 'The factor cannot be 0';
+        applyTransform(activeTool === 'rotate' ? rotationMatrix(polyPoints[0], value * Math.PI / 180) : scaleMatrix(polyPoints[0], value));
+        return null;
+    }
+    if (activeTool === 'offset') {
+        setOffsetValue(Math.abs(value));
+        return null;
+    }
+    if (isCornerTool(activeTool)) {
+        if (value <= 0) return 'The size must be positive';
+        setCornerSize(value);
+        return null;
+    }
+    if (!anchor) return 'Type a point first';
+    if ((tempEntity?.type === 'circle' || tempEntity?.type === 'sphere') && dragStart) {
+        return enterPoint({ x: dragStart.x + value, y: dragStart.y });
+    }
+    const cursor = currentMousePos && !arePointsEqual(currentMousePos, anchor) ? currentMousePos : { x: anchor.x + 1, y: anchor.y };
+    const d = distance(anchor, cursor);
+    return enterPoint({ x: anchor.x + (cursor.x - anchor.x) / d * value, y: anchor.y + (cursor.y - anchor.y) / d * value });
+  };
+
+  const enterInput = (text: string): string | null => {
+    const input = parseCoordinate(text);
+    if (!input) return `Not a point or value: ${text}`;
+    if (input.kind === 'value') return enterValue(input.value);
+    const p = resolveCoordinate(input, getInputAnchor() ?? lastPoint);
+    if (!p) return 'There is no previous point to measure from';
+    return enterPoint(p);
   };
 
-  const handlePointerMove = (clientX: number, clientY: number) => {
+  useImperativeHandle(ref, () => ({
+    enterInput,
+    isWaitingForInput: () => getInputAnchor() !== null
+  }));
+
+  // While something is being drawn, typing goes to the dynamic input instead of the shortcuts
+  useEffect(() => {
+    const handleTypedKey = (e: KeyboardEvent) => {
+        if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+        if (e.ctrlKey || e.metaKey || e.altKey || !getInputAnchor()) return;
+        if (/^[0-9.,<@+-]$/.test(e.key)) {
+            setDynamicText(dynamicText + e.key);
+        } else if (e.key === 'Backspace' && dynamicText) {
+            setDynamicText(dynamicText.slice(0, -1));
+        } else if (e.key === 'Enter' && dynamicText) {
+            const error = enterInput(dynamicText);
+            if (error) logger.warn('CANVAS', error);
+            setDynamicText('');
+        } else if (e.key === 'Escape' && (dynamicText || (currentAction === 'drawing' && !isDragging))) {
+            setDynamicText('');
+            if (!dynamicText) {
+                setCurrentAction(null);
+                setTempEntity(null);
+                setDragStart(null);
+            }
+        } else {
+            return;
+        }
+        e.preventDefault();
+        e.stopPropagation();
+    };
+    // Capture runs before the window shortcuts, so they never see these keys
+    window.addEventListener('keydown', handleTypedKey, true);
+    return () => window.removeEventListener('keydown', handleTypedKey, true);
+  });
+
+  // Live length and angle from the anchor, or what is being typed over them
+  const getDynamicReadout = () => {
+    const anchor = getInputAnchor();
+    if (!anchor || !currentMousePos) return null;
+    const at = worldToScreen(currentMousePos.x, currentMousePos.y, view);
+    if (dynamicText) return { ...at, text: dynamicText, typing: true };
+    const round2 = (v: number) => Math.round(v * 100) / 100;
+    const dx = currentMousePos.x - anchor.x, dy = currentMousePos.y - anchor.y;
+    // Counter-clockwise with +Y up, the way an angle is typed back in
+    let text = `${round2(Math.hypot(dx, dy))} < ${round2(Math.atan2(-dy, dx) * 180 / Math.PI)}°`;
+    if (tempEntity?.type === 'circle' || tempEntity?.type === 'sphere') text = `R ${round2(Math.hypot(dx, dy))}`;
+    if (tempEntity?.type === 'rectangle' || tempEntity?.type === 'ellipse') text = `${round2(Math.abs(dx))} × ${round2(Math.abs(dy))}`;
+    return { ...at, text, typing: false };
+  };
+
+  const handlePointerMove = (clientX: number, clientY: number, shiftKey: boolean = false) => {
     const rect = canvasRef.current!.getBoundingClientRect();
     const screenX = clientX - rect.left;
     const screenY = clientY - rect.top;
     const worldPos = screenToWorld(screenX, screenY, view, viewType);
-    const snappedPos = snapPoint(worldPos);
+    const snap = currentAction === 'panning' || currentAction === 'box-select' ? null : getSnap(worldPos);
+    const tracked = snap ? trackPoint(worldPos, snap, shiftKey) : null;
+    const snappedPos = tracked ? tracked.point : snap ? snap.point : worldPos;
     
+    setActiveSnap(snap);
+    setTracking(tracked);
     setCurrentMousePos(snappedPos);
+    if (isCornerTool(activeTool) && viewType === 'top') setHoverCorner(findCorner(worldPos));
+    if (isModifyTool(activeTool) && viewType === 'top') setModifyPreview(buildModifyEdit(activeTool, worldPos, snappedPos));
 
     if (currentAction === 'panning' && dragStart) {
       const dx = clientX - dragStart.x;
@@ -545,10 +1644,14 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
             if (orig.type === 'line') {
                 newEnt.start = { x: orig.start.x + delta3D.x, y: orig.start.y + delta3D.y };
                 newEnt.end = { x: orig.end.x + delta3D.x, y: orig.end.y + delta3D.y };
-            } else if (orig.type === 'circle' || orig.type === 'sphere') {
+            } else if (orig.type === 'circle' || orig.type === 'sphere' || orig.type === 'mesh' || orig.type === 'arc' || orig.type === 'ellipse') {
                 newEnt.center = { x: orig.center.x + delta3D.x, y: orig.center.y + delta3D.y };
+            } else if (orig.type === 'spline' || orig.type === 'polyline') {
+                newEnt.points = orig.points.map(p => ({ x: p.x + delta3D.x, y: p.y + delta3D.y }));
             } else if (orig.type === 'rectangle') {
                 newEnt.start = { x: orig.start.x + delta3D.x, y: orig.start.y + delta3D.y };
+            } else if (orig.type === 'text') {
+                newEnt.position = { x: orig.position.x + delta3D.x, y: orig.position.y + delta3D.y };
             } else if (orig.type === 'polygon') {
                 newEnt.points = (orig as PolygonEntity).points.map(p => ({ x: p.x + delta3D.x, y: p.y + delta3D.y }));
                 if ((orig as PolygonEntity).holes) {
@@ -571,9 +1674,28 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
                          if (light.target) newEnt.target = { ...light.target, y: light.target.y + delta3D.y };
                     }
                 }
+            } else if (orig.type === 'hatch') {
+                if (orig.view === viewType) {
+                    const shift = (p: Point) => ({ x: p.x + dx, y: p.y + dy });
+                    newEnt.points = orig.points.map(shift);
+                    if (orig.holes) newEnt.holes = orig.holes.map(h => h.map(shift));
+                }
+            } else if (orig.type === 'dimension' || orig.type === 'leader') {
+                // Annotations move in their own view only. Anchors stay on geometry that is not moving with them.
+                if (orig.view === viewType) {
+                    const shift = (p: Point) => ({ x: p.x + dx, y: p.y + dy });
+                    const shiftAnchor = (a: AnnotationAnchor) => a.ref && !movingOrigins.some(m => m.id === a.ref!.entityId) ? a : { ...a, point: shift(a.point) };
+                    if (orig.type === 'dimension') {
+                        newEnt.anchors = orig.anchors.map(shiftAnchor);
+                        newEnt.position = shift(orig.position);
+                    } else {
+                        newEnt.anchor = shiftAnchor(orig.anchor);
+                        newEnt.points = orig.points.map(shift);
+                    }
+                }
             }
-            
-            if (orig.type !== 'light') {
+
+            if (orig.type !== 'light' && !isDrafting(orig)) {
                 newEnt.elevation = (orig.elevation || 0) + delta3D.z;
             }
             
@@ -634,18 +1756,19 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
         } 
         else if (viewType === 'top') {
             if (ent.type === 'rectangle') {
-                 const rect = { ...ent } as any;
-                 if (activeHandle.handle.type === 'br') {
-                    rect.width = Math.max(0, snappedPos.x - rect.start.x);
-                    rect.height = Math.max(0, snappedPos.y - rect.start.y);
-                } else if (activeHandle.handle.type === 'tl') {
-                     const brX = rect.start.x + rect.width;
-                     const brY = rect.start.y + rect.height;
-                     rect.start = { x: Math.min(brX, snappedPos.x), y: Math.min(brY, snappedPos.y) };
-                     rect.width = brX - rect.start.x;
-                     rect.height = brY - rect.start.y;
-                }
-                newEnt = rect;
+                 // The opposite corner stays put; sizes are measured along the rectangle's own axes
+                 const cornerIndex = ['tl', 'tr', 'br', 'bl'].indexOf(activeHandle.handle.type);
+                 if (cornerIndex !== -1) {
+                     const rot = ent.rotation || 0;
+                     const fixed = getRectCorners(ent)[(cornerIndex + 2) % 4];
+                     const local = rotatePoint(snappedPos, fixed, -rot);
+                     const sx = cornerIndex === 1 || cornerIndex === 2 ? 1 : -1;
+                     const sy = cornerIndex >= 2 ? 1 : -1;
+                     const width = Math.max(0, (local.x - fixed.x) * sx);
+                     const height = Math.max(0, (local.y - fixed.y) * sy);
+                     const center = rotatePoint({ x: fixed.x + sx * width / 2, y: fixed.y + sy * height / 2 }, fixed, rot);
+                     newEnt = { ...ent, start: { x: center.x - width / 2, y: center.y - height / 2 }, width, height };
+                 }
             } else if (ent.type === 'circle' || ent.type === 'sphere') {
                  const circle = { ...ent } as any;
                  if (activeHandle.handle.type === 'radius') {
@@ -654,6 +1777,34 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
                      circle.center = snappedPos;
                  }
                  newEnt = circle;
+            } else if (ent.type === 'arc') {
+                 const arc = { ...ent };
+                 const handleType = activeHandle.handle.type;
+                 if (handleType === 'center') {
+                     arc.center = snappedPos;
+                 } else if ((handleType === 'arc-start' || handleType === 'arc-end') && !arePointsEqual(snappedPos, arc.center)) {
+                     const angle = Math.atan2(snappedPos.y - arc.center.y, snappedPos.x - arc.center.x);
+                     arc.radius = distance(arc.center, snappedPos);
+                     if (handleType === 'arc-start') arc.startAngle = angle;
+                     else arc.endAngle = angle;
+                 }
+                 newEnt = arc;
+            } else if (ent.type === 'ellipse') {
+                 const ellipse = { ...ent };
+                 const handleType = activeHandle.handle.type;
+                 const rot = ellipse.rotation || 0;
+                 const dx = snappedPos.x - ellipse.center.x;
+                 const dy = snappedPos.y - ellipse.center.y;
+                 if (handleType === 'center') ellipse.center = snappedPos;
+                 else if (handleType === 'radius-x') ellipse.radiusX = Math.max(0.1, Math.abs(dx * Math.cos(rot) + dy * Math.sin(rot)));
+                 else if (handleType === 'radius-y') ellipse.radiusY = Math.max(0.1, Math.abs(-dx * Math.sin(rot) + dy * Math.cos(rot)));
+                 newEnt = ellipse;
+            } else if (ent.type === 'spline' || ent.type === 'polyline') {
+                 if (activeHandle.handle.type === 'poly-point' && activeHandle.handle.index !== undefined) {
+                     const newPoints = [...ent.points];
+                     newPoints[activeHandle.handle.index] = snappedPos;
+                     newEnt = { ...ent, points: newPoints };
+                 }
             } else if (ent.type === 'polygon') {
                  const poly = { ...ent } as PolygonEntity;
                  if (activeHandle.handle.type === 'poly-point' && activeHandle.handle.index !== undefined) {
@@ -671,15 +1822,7 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
     }
 
     if (currentAction === 'drawing' && tempEntity && dragStart) {
-      if (tempEntity.type === 'line') {
-        setTempEntity({ ...tempEntity, end: snappedPos });
-      } else if (tempEntity.type === 'rectangle') {
-        const { x, y, width, height } = getRectPoints(dragStart, snappedPos);
-        setTempEntity({ ...tempEntity, start: { x, y }, width, height });
-      } else if (tempEntity.type === 'circle' || tempEntity.type === 'sphere') {
-        const radius = distance(dragStart, snappedPos);
-        setTempEntity({ ...tempEntity, radius });
-      }
+      setTempEntity(stretchTempEntity(tempEntity, dragStart, snappedPos));
     }
   };
 
@@ -736,22 +1879,11 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
         setSelectionBox(null);
     }
 
-    if (currentAction === 'drawing' && tempEntity) {
-        let isValid = false;
-        if (tempEntity.type === 'line') {
-             if(distance((tempEntity as any).start, (tempEntity as any).end) > 0) isValid = true;
-        }
-        if (tempEntity.type === 'rectangle') {
-             if((tempEntity as any).width > 0) isValid = true;
-        }
-        if ((tempEntity.type === 'circle' || tempEntity.type === 'sphere')) {
-             if((tempEntity as any).radius > 0) isValid = true;
-        }
+    // A drawing started from a typed point waits for a click or a second typed point
+    if (currentAction === 'drawing' && tempEntity && !isDragging) return;
 
-        if (isValid) {
-            onEntityAdd(tempEntity);
-            logger.log('CANVAS', `Entity added: ${tempEntity.type}`);
-        }
+    if (currentAction === 'drawing' && tempEntity) {
+        if (commitTempEntity(tempEntity) && tempEntity.type === 'line') setLastPoint(tempEntity.end);
     }
     
     setIsDragging(false);
@@ -771,7 +1903,7 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
-      handlePointerMove(e.clientX, e.clientY);
+      handlePointerMove(e.clientX, e.clientY, e.shiftKey);
   };
 
   const handleMouseUp = (e: React.MouseEvent) => {
@@ -864,22 +1996,43 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
   const handleDoubleClick = (e: React.MouseEvent) => {
       if (activeTool === 'polygon') {
           finishPolygon();
+      } else if (activeTool === 'spline') {
+          finishSpline(false);
+      } else if (activeTool === 'polyline') {
+          finishPolyline();
+      } else if (isCornerTool(activeTool)) {
+          applyCorners();
       } else if (activeTool === 'select') {
           const rect = canvasRef.current!.getBoundingClientRect();
           const worldPos = screenToWorld(e.clientX - rect.left, e.clientY - rect.top, view, viewType);
+          const tolerance = 5 / view.scale;
           
-          const selectedPolys = entities.filter(ent => ent.selected && ent.type === 'polygon' && isLayerVisible(ent.layerId));
+          const selectedPolys = entities.filter(ent => ent.selected && (ent.type === 'polygon' || ent.type === 'polyline') && isLayerVisible(ent.layerId)) as (PolygonEntity | PolylineEntity)[];
           for(const poly of selectedPolys) {
-              const points = (poly as PolygonEntity).points;
-              for(let i=0; i<points.length; i++) {
+              const points = poly.points;
+              const closed = poly.type === 'polygon';
+
+              // Double-clicking a vertex removes it, as long as the shape keeps enough points
+              const vertexIndex = points.findIndex(p => distance(p, worldPos) < tolerance);
+              if (vertexIndex !== -1) {
+                  if (points.length > (closed ? 3 : 2)) {
+                      onEntitiesUpdate([{...poly, points: points.filter((_, i) => i !== vertexIndex)}]);
+                      logger.log('CANVAS', `Removed vertex from ${poly.type}`);
+                  }
+                  return;
+              }
+
+              // Open polylines have no segment from the last point back to the first
+              const segmentCount = closed ? points.length : points.length - 1;
+              for(let i=0; i<segmentCount; i++) {
                   const p1 = points[i];
                   const p2 = points[(i + 1) % points.length];
                   const d = distanceToSegment(worldPos, p1, p2);
-                  if (d < 5 / view.scale) {
+                  if (d < tolerance) {
                       const newPoints = [...points];
-                      newPoints.splice(i + 1, 0, snapPoint(worldPos));
-                      onEntitiesUpdate([{...poly, points: newPoints} as PolygonEntity]);
-                      logger.log('CANVAS', 'Added vertex to polygon');
+                      newPoints.splice(i + 1, 0, snapPoint(worldPos, true, settings.gridSpacing));
+                      onEntitiesUpdate([{...poly, points: newPoints}]);
+                      logger.log('CANVAS', `Added vertex to ${poly.type}`);
                       return;
                   }
               }
@@ -914,6 +2067,8 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
       return 'crosshair';
   }
 
+  const dynamicReadout = getDynamicReadout();
+
   return (
     <div ref={containerRef} className="relative w-full h-full">
         <canvas
@@ -921,7 +2076,7 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
             onMouseDown={handleMouseDown}
             onMouseMove={handleMouseMove}
             onMouseUp={handleMouseUp}
-            onMouseLeave={handleMouseUp}
+            onMouseLeave={(e) => { handleMouseUp(e); setActiveSnap(null); setTracking(null); }}
             onTouchStart={handleTouchStart}
             onTouchMove={handleTouchMove}
             onTouchEnd={handleTouchEnd}
@@ -930,7 +2085,308 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
             className="block w-full h-full touch-none outline-none bg-slate-900"
             style={{ cursor: getCursor() }}
         />
-        
+
+        {dynamicReadout && (
+            <div className={`absolute pointer-events-none rounded px-1.5 py-0.5 text-[10px] font-mono shadow z-40 border ${dynamicReadout.typing ? 'bg-blue-900/90 border-blue-500 text-white' : 'bg-slate-900/90 border-slate-600 text-slate-300'}`}
+                style={{ left: dynamicReadout.x + 16, top: dynamicReadout.y + 16 }}>
+                {dynamicReadout.text}{dynamicReadout.typing && <span className="animate-pulse">|</span>}
+            </div>
+        )}
+
+        {isTransformTool(activeTool) && (
+            <div className="absolute top-2 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-slate-800/90 border border-slate-600 rounded px-3 py-1.5 text-xs text-slate-300 shadow-lg z-40">
+                {viewType !== 'top' ? (
+                    <span>Transform in the top view</span>
+                ) : getTransformSelection().length === 0 ? (
+                    <span>Select unlocked entities first</span>
+                ) : (
+                    <>
+                        <span>
+                            {polyPoints.length === 0
+                                ? (activeTool === 'rotate' ? 'Pick the pivot' : activeTool === 'mirror' ? 'Pick the first point of the mirror line' : 'Pick the base point')
+                                : (activeTool === 'mirror' ? 'Pick the second point' : activeTool === 'move' || activeTool === 'copy' ? 'Pick the destination' : 'Click or press Enter to apply')}
+                        </span>
+                        {activeTool === 'rotate' && (
+                            <input type="number" placeholder="Angle °" title="Degrees, clockwise (empty: follow the cursor)"
+                                className="bg-slate-900 border border-slate-600 rounded px-2 py-0.5 text-sm text-white w-20"
+                                value={typedAngle ?? ''}
+                                onChange={(e) => { const v = parseFloat(e.target.value); setTypedAngle(isNaN(v) ? null : v); }} />
+                        )}
+                        {activeTool === 'scale' && (
+                            <>
+                                <input type="number" placeholder="Factor" title="Uniform factor, or X factor when Y is set (empty: follow the cursor)"
+                                    className="bg-slate-900 border border-slate-600 rounded px-2 py-0.5 text-sm text-white w-16"
+                                    value={typedScale.x ?? ''}
+                                    onChange={(e) => { const v = parseFloat(e.target.value); setTypedScale(s => ({ ...s, x: isNaN(v) || v === 0 ? null : v })); }} />
+                                <input type="number" placeholder="Y" title="Y factor (empty: same as X)"
+                                    className="bg-slate-900 border border-slate-600 rounded px-2 py-0.5 text-sm text-white w-14"
+                                    value={typedScale.y ?? ''}
+                                    onChange={(e) => { const v = parseFloat(e.target.value); setTypedScale(s => ({ ...s, y: isNaN(v) || v === 0 ? null : v })); }} />
+                            </>
+                        )}
+                        {activeTool === 'mirror' && (
+                            <label className="flex items-center gap-1">
+                                <input type="checkbox" checked={mirrorKeepOriginal} onChange={() => setMirrorKeepOriginal(!mirrorKeepOriginal)} />
+                                Keep original
+                            </label>
+                        )}
+                        {(activeTool === 'rotate' || activeTool === 'scale') && (
+                            <button
+                                className="bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded px-2 py-0.5"
+                                onClick={() => applyTransform(buildTransformMatrix(activeTool, null))}
+                                disabled={polyPoints.length === 0 || (activeTool === 'rotate' ? typedAngle === null : typedScale.x === null)}
+                            >
+                                Apply
+                            </button>
+                        )}
+                    </>
+                )}
+            </div>
+        )}
+
+        {activeTool === 'array' && (
+            <div className="absolute top-2 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-slate-800/90 border border-slate-600 rounded px-3 py-1.5 text-xs text-slate-300 shadow-lg z-40">
+                {viewType !== 'top' ? (
+                    <span>Array in the top view</span>
+                ) : getTransformSelection().length === 0 ? (
+                    <span>Select unlocked entities first</span>
+                ) : (
+                    <>
+                        <select className="bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-sm text-white"
+                            value={arrayKind} onChange={(e) => { setArrayKind(e.target.value as ArrayParams['kind']); setPolyPoints([]); setArrayPathId(null); }}>
+                            <option value="rectangular">Rectangular</option>
+                            <option value="polar">Polar</option>
+                            <option value="path">Path</option>
+                        </select>
+                        {arrayKind === 'rectangular' ? (
+                            <>
+                                <input type="number" min="1" title="Rows" className="bg-slate-900 border border-slate-600 rounded px-2 py-0.5 text-sm text-white w-14"
+                                    value={arraySettings.rows} onChange={(e) => setArraySettings({ ...arraySettings, rows: Math.max(1, parseInt(e.target.value) || 1) })} />
+                                <span>×</span>
+                                <input type="number" min="1" title="Columns" className="bg-slate-900 border border-slate-600 rounded px-2 py-0.5 text-sm text-white w-14"
+                                    value={arraySettings.columns} onChange={(e) => setArraySettings({ ...arraySettings, columns: Math.max(1, parseInt(e.target.value) || 1) })} />
+                                <input type="number" title="Row spacing (negative: upwards)" className="bg-slate-900 border border-slate-600 rounded px-2 py-0.5 text-sm text-white w-16"
+                                    value={arraySettings.rowSpacing} onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v)) setArraySettings({ ...arraySettings, rowSpacing: v }); }} />
+                                <input type="number" title="Column spacing (negative: leftwards)" className="bg-slate-900 border border-slate-600 rounded px-2 py-0.5 text-sm text-white w-16"
+                                    value={arraySettings.columnSpacing} onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v)) setArraySettings({ ...arraySettings, columnSpacing: v }); }} />
+                            </>
+                        ) : (
+                            <>
+                                <span>{arrayKind === 'polar' ? (polyPoints.length === 0 ? 'Pick the centre' : 'Centre set') : (arrayPathId ? 'Path set' : 'Pick the path')}</span>
+                                <input type="number" min="2" title="Items, the original included" className="bg-slate-900 border border-slate-600 rounded px-2 py-0.5 text-sm text-white w-14"
+                                    value={arraySettings.count} onChange={(e) => setArraySettings({ ...arraySettings, count: Math.max(2, parseInt(e.target.value) || 2) })} />
+                                {arrayKind === 'polar' && (
+                                    <input type="number" title="Angle to fill (degrees, clockwise)" className="bg-slate-900 border border-slate-600 rounded px-2 py-0.5 text-sm text-white w-16"
+                                        value={arraySettings.angle} onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v)) setArraySettings({ ...arraySettings, angle: v }); }} />
+                                )}
+                                <label className="flex items-center gap-1">
+                                    <input type="checkbox"
+                                        checked={arrayKind === 'polar' ? arraySettings.rotateItems : arraySettings.alignToPath}
+                                        onChange={() => setArraySettings(arrayKind === 'polar'
+                                            ? { ...arraySettings, rotateItems: !arraySettings.rotateItems }
+                                            : { ...arraySettings, alignToPath: !arraySettings.alignToPath })} />
+                                    {arrayKind === 'polar' ? 'Rotate items' : 'Align'}
+                                </label>
+                            </>
+                        )}
+                        <label className="flex items-center gap-1">
+                            <input type="checkbox" checked={arrayAssociative} onChange={() => setArrayAssociative(!arrayAssociative)} />
+                            Associative
+                        </label>
+                        <button
+                            className="bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded px-2 py-0.5"
+                            onClick={applyArray}
+                            disabled={!buildArrayParams() || getArraySources().length === 0}
+                        >
+                            Apply
+                        </button>
+                    </>
+                )}
+            </div>
+        )}
+
+        {isModifyTool(activeTool) && (
+            <div className="absolute top-2 left-1/2 -translate-x-1/2 bg-slate-800/90 border border-slate-600 rounded px-3 py-1.5 text-xs text-slate-300 shadow-lg z-40 pointer-events-none">
+                {viewType !== 'top' ? `${activeTool[0].toUpperCase()}${activeTool.slice(1)} in the top view`
+                    : activeTool === 'trim' ? 'Click the piece of a line or outline to cut away'
+                    : activeTool === 'extend' ? 'Click near the end of a line to extend'
+                    : 'Click a line, polyline or arc where it should be split'}
+            </div>
+        )}
+
+        {activeTool === 'offset' && (
+            <div className="absolute top-2 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-slate-800/90 border border-slate-600 rounded px-3 py-1.5 text-xs text-slate-300 shadow-lg z-40">
+                {viewType === 'top' ? (
+                    <>
+                        <span>{offsetSourceId ? 'Click the side to place the copy' : 'Pick a line, circle, rectangle or polygon'}</span>
+                        <select
+                            className="bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-white"
+                            value={offsetJoin}
+                            onChange={(e) => setOffsetJoin(e.target.value as OffsetJoin)}
+                            title="Corner joins"
+                        >
+                            <option value="miter">Miter</option>
+                            <option value="round">Round</option>
+                            <option value="square">Square</option>
+                        </select>
+                        <input
+                            type="number"
+                            min={0}
+                            placeholder="Cursor"
+                            title="Distance (empty: follow the cursor)"
+                            className="bg-slate-900 border border-slate-600 rounded px-2 py-0.5 text-sm text-white w-20"
+                            value={offsetValue ?? ''}
+                            onChange={(e) => { const v = parseFloat(e.target.value); setOffsetValue(isNaN(v) || v <= 0 ? null : v); }}
+                        />
+                    </>
+                ) : (
+                    <span>Offset in the top view</span>
+                )}
+            </div>
+        )}
+
+        {isCornerTool(activeTool) && (
+            <div className="absolute top-2 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-slate-800/90 border border-slate-600 rounded px-3 py-1.5 text-xs text-slate-300 shadow-lg z-40">
+                {viewType === 'top' ? (
+                    <>
+                        <label htmlFor={`corner-size-${viewType}`}>{activeTool === 'fillet' ? 'Radius' : 'Distance'}</label>
+                        <input
+                            id={`corner-size-${viewType}`}
+                            type="number"
+                            min={0}
+                            className="bg-slate-900 border border-slate-600 rounded px-2 py-0.5 text-sm text-white w-20"
+                            value={cornerSize}
+                            onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v) && v >= 0) setCornerSize(v); }}
+                        />
+                        <span className="text-slate-500">{pickedCorners.length} corners</span>
+                        <button
+                            className="bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded px-2 py-0.5"
+                            onClick={applyCorners}
+                            disabled={pickedCorners.length === 0}
+                        >
+                            Apply
+                        </button>
+                    </>
+                ) : (
+                    <span>Pick corners in the top view</span>
+                )}
+            </div>
+        )}
+
+        {activeTool === 'dimension' && (
+            <div className="absolute top-2 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-slate-800/90 border border-slate-600 rounded px-3 py-1.5 text-xs text-slate-300 shadow-lg z-40">
+                <select
+                    className="bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-white"
+                    value={dimensionKind}
+                    onChange={(e) => { setDimensionKind(e.target.value as DimensionKind); setPolyPoints([]); setDimensionTargetId(null); }}
+                    title="Dimension type"
+                >
+                    <option value="aligned">Aligned</option>
+                    <option value="horizontal">Horizontal</option>
+                    <option value="vertical">Vertical</option>
+                    <option value="angular">Angular</option>
+                    <option value="radial">Radius</option>
+                    <option value="diameter">Diameter</option>
+                </select>
+                <span>{dimensionKind === 'radial' || dimensionKind === 'diameter'
+                    ? (dimensionTargetId ? 'Click to place the text' : 'Pick a circle, arc or sphere')
+                    : polyPoints.length < getDimensionPickCount(dimensionKind)
+                        ? (dimensionKind === 'angular' ? ['Pick the vertex', 'Pick a point on the first side', 'Pick a point on the second side'][polyPoints.length] : `Pick point ${polyPoints.length + 1}`)
+                        : (dimensionKind === 'angular' ? 'Click to place the arc' : 'Click to place the dimension line')}</span>
+            </div>
+        )}
+
+        {activeTool === 'leader' && (
+            <div className="absolute top-2 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-slate-800/90 border border-slate-600 rounded px-3 py-1.5 text-xs text-slate-300 shadow-lg z-40">
+                <span>{polyPoints.length === 0 ? 'Pick the point to annotate' : 'Pick bends, then finish at the text'}</span>
+                <input
+                    type="text"
+                    title="Leader text"
+                    className="bg-slate-900 border border-slate-600 rounded px-2 py-0.5 text-sm text-white w-32"
+                    value={leaderText}
+                    onChange={(e) => setLeaderText(e.target.value)}
+                />
+                <button
+                    className="bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded px-2 py-0.5"
+                    onClick={finishLeader}
+                    disabled={polyPoints.length < 2}
+                >
+                    Finish
+                </button>
+            </div>
+        )}
+
+        {activeTool === 'text' && (
+            <div className="absolute top-2 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-slate-800/90 border border-slate-600 rounded px-3 py-1.5 text-xs text-slate-300 shadow-lg z-40">
+                {viewType === 'top' ? (
+                    <>
+                        <input
+                            type="text"
+                            title="Text"
+                            className="bg-slate-900 border border-slate-600 rounded px-2 py-0.5 text-sm text-white w-32"
+                            value={textSettings.text}
+                            onChange={(e) => setTextSettings({ ...textSettings, text: e.target.value })}
+                        />
+                        <select
+                            className="bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-white"
+                            value={textSettings.font}
+                            onChange={(e) => setTextSettings({ ...textSettings, font: e.target.value as TextFont })}
+                            title="Font"
+                        >
+                            {TEXT_FONTS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+                        </select>
+                        <input type="number" min={0} title={`Height (${settings.units})`} className="bg-slate-900 border border-slate-600 rounded px-2 py-0.5 text-sm text-white w-16"
+                            value={textSettings.size} onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v) && v > 0) setTextSettings({ ...textSettings, size: v }); }} />
+                        <select
+                            className="bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-white"
+                            value={textSettings.align}
+                            onChange={(e) => setTextSettings({ ...textSettings, align: e.target.value as TextEntity['align'] })}
+                            title="Alignment at the picked point"
+                        >
+                            <option value="left">Left</option>
+                            <option value="center">Center</option>
+                            <option value="right">Right</option>
+                        </select>
+                        <input type="number" title="Rotation (degrees, clockwise)" className="bg-slate-900 border border-slate-600 rounded px-2 py-0.5 text-sm text-white w-14"
+                            value={textSettings.rotation} onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v)) setTextSettings({ ...textSettings, rotation: v }); }} />
+                    </>
+                ) : (
+                    <span>Place text in the top view</span>
+                )}
+            </div>
+        )}
+
+        {activeTool === 'hatch' && (
+            <div className="absolute top-2 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-slate-800/90 border border-slate-600 rounded px-3 py-1.5 text-xs text-slate-300 shadow-lg z-40">
+                <select
+                    className="bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-white"
+                    value={hatchPick}
+                    onChange={(e) => setHatchPick(e.target.value as 'point' | 'object')}
+                    title="How the boundary is picked"
+                >
+                    <option value="point">Pick point</option>
+                    <option value="object">Select object</option>
+                </select>
+                <select
+                    className="bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-white"
+                    value={hatchSettings.pattern}
+                    onChange={(e) => setHatchSettings({ ...hatchSettings, pattern: e.target.value as HatchPattern })}
+                    title="Pattern"
+                >
+                    {HATCH_PATTERNS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                </select>
+                {hatchSettings.pattern !== 'solid' && (
+                    <>
+                        <input type="number" title="Pattern angle (degrees)" className="bg-slate-900 border border-slate-600 rounded px-2 py-0.5 text-sm text-white w-14"
+                            value={hatchSettings.angle} onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v)) setHatchSettings({ ...hatchSettings, angle: v }); }} />
+                        <input type="number" min={0} title={`Pattern spacing (${settings.units})`} className="bg-slate-900 border border-slate-600 rounded px-2 py-0.5 text-sm text-white w-16"
+                            value={hatchSettings.scale} onChange={(e) => { const v = parseFloat(e.target.value); if (!isNaN(v) && v > 0) setHatchSettings({ ...hatchSettings, scale: v }); }} />
+                    </>
+                )}
+                <span>{hatchPick === 'point' ? 'Click inside a closed region' : 'Click a closed entity'}</span>
+            </div>
+        )}
+
         {/* Mobile Context Helpers */}
         <div className="absolute bottom-4 right-4 flex flex-col gap-3 pointer-events-none md:hidden z-50">
             {activeTool === 'select' && (
@@ -943,7 +2399,7 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
                 </button>
             )}
             
-            {activeTool === 'polygon' && polyPoints.length > 0 && (
+            {isPickTool(activeTool) && polyPoints.length > 0 && (
                 <>
                     <button 
                         className="w-12 h-12 rounded-full bg-red-900/90 text-white border border-red-700 shadow-lg pointer-events-auto flex items-center justify-center active:bg-red-700"
@@ -951,18 +2407,20 @@ const Canvas2D: React.FC<Canvas2DProps> = ({
                     >
                         <i className="fas fa-times text-lg"></i>
                     </button>
-                    <button 
-                        className="w-12 h-12 rounded-full bg-green-600/90 text-white border border-green-500 shadow-lg pointer-events-auto flex items-center justify-center active:bg-green-500"
-                        onTouchStart={(e) => { e.stopPropagation(); finishPolygon(); }}
-                        disabled={polyPoints.length < 3}
-                    >
-                        <i className="fas fa-check text-lg"></i>
-                    </button>
+                    {(activeTool === 'polygon' || activeTool === 'spline' || activeTool === 'polyline' || activeTool === 'leader') && (
+                        <button 
+                            className="w-12 h-12 rounded-full bg-green-600/90 text-white border border-green-500 shadow-lg pointer-events-auto flex items-center justify-center active:bg-green-500"
+                            onTouchStart={(e) => { e.stopPropagation(); if (activeTool === 'polygon') finishPolygon(); else if (activeTool === 'polyline') finishPolyline(); else if (activeTool === 'leader') finishLeader(); else finishSpline(false); }}
+                            disabled={polyPoints.length < (activeTool === 'polygon' ? 3 : 2)}
+                        >
+                            <i className="fas fa-check text-lg"></i>
+                        </button>
+                    )}
                 </>
             )}
         </div>
     </div>
   );
-};
+});
 
 export default Canvas2D;
@@ -0,0 +1,85 @@
+import React, { useState, useRef, useEffect } from 'react';
+import DraggablePanel from './DraggablePanel';
+
+interface CommandLineProps {
+  prompt: string; // Name of the active tool
+  onSubmit: (text: string) => string | null; // Returns a message for the history, if any
+}
+
+const HISTORY_LINES = 4;
+
+const CommandLine: React.FC<CommandLineProps> = ({ prompt, onSubmit }) => {
+  const [text, setText] = useState('');
+  const [lines, setLines] = useState<{ text: string, error?: boolean }[]>([]);
+  const [recall, setRecall] = useState<string[]>([]);
+  const [recallIndex, setRecallIndex] = useState<number | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // "/" jumps to the command line from anywhere but another input
+  useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+          if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+          if (e.key === '/') {
+              e.preventDefault();
+              inputRef.current?.focus();
+          }
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const submit = () => {
+      const input = text.trim();
+      if (!input) return;
+      const message = onSubmit(input);
+      const echoed = [...lines, { text: `${prompt}: ${input}` }];
+      setLines((message ? [...echoed, { text: message, error: true }] : echoed).slice(-HISTORY_LINES));
+      setRecall([...recall.filter(r => r !== input), input]);
+      setRecallIndex(null);
+      setText('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (e.key === 'Enter') {
+          submit();
+      } else if (e.key === 'Escape') {
+          setText('');
+          inputRef.current?.blur();
+      } else if (e.key === 'ArrowUp' && recall.length > 0) {
+          e.preventDefault();
+          const index = recallIndex === null ? recall.length - 1 : Math.max(0, recallIndex - 1);
+          setRecallIndex(index);
+          setText(recall[index]);
+      } else if (e.key === 'ArrowDown' && recallIndex !== null) {
+          e.preventDefault();
+          const index = recallIndex + 1;
+          setRecallIndex(index < recall.length ? index : null);
+          setText(index < recall.length ? recall[index] : '');
+      }
+  };
+
+  return (
+    <DraggablePanel title="Command Line" initialPos={{ x: Math.max(120, window.innerWidth / 2 - 220), y: window.innerHeight - 190 }} className="w-[440px]">
+      <div className="p-2 space-y-1 font-mono">
+          {lines.map((line, i) => (
+              <div key={i} className={`text-[10px] truncate ${line.error ? 'text-amber-400' : 'text-slate-500'}`}>{line.text}</div>
+          ))}
+          <div className="flex items-center gap-2 bg-slate-900 border border-slate-600 rounded px-2 focus-within:border-blue-500">
+              <span className="text-[10px] font-bold text-blue-400 uppercase">{prompt}</span>
+              <input
+                  ref={inputRef}
+                  type="text"
+                  value={text}
+                  onChange={(e) => { setText(e.target.value); setRecallIndex(null); }}
+                  onKeyDown={handleKeyDown}
+                  placeholder="Command, x,y, @dx,dy or @dist<angle  ( / to focus)"
+                  className="flex-1 bg-transparent py-1.5 text-xs text-white outline-none placeholder:text-slate-600"
+                  spellCheck={false}
+              />
+          </div>
+      </div>
+    </DraggablePanel>
+  );
+};
+
+export default CommandLine;
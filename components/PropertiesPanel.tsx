@@ -1,9 +1,14 @@
 
 import React from 'react';
-import { Layer, Entity, PolygonEntity, LightEntity } from '../types';
+import { Layer, Entity, PolygonEntity, LightEntity, MeshEntity, ArrayParams, ProjectSettings, LengthUnit, Point } from '../types';
 import { TEXTURES } from '../constants';
 import DraggablePanel from './DraggablePanel';
+import { convertToPoints, isAnnotation, isDrafting, measureDimension } from '../utils/geometry';
 import { logger } from '../utils/debug';
+import { countArrayItems, withoutArrayLink, MAX_ARRAY_ITEMS } from '../utils/array';
+import { LENGTH_UNITS } from '../utils/units';
+import { TEXT_FONTS } from '../utils/text';
+import { HATCH_PATTERNS } from '../utils/hatch';
 
 interface PropertiesPanelProps {
   layers: Layer[];
@@ -18,6 +23,10 @@ interface PropertiesPanelProps {
   addEntity: (e: Entity) => void;
   performBooleanSubtract: (keepPrimary: boolean) => void;
   performBooleanUnion: () => void;
+  performBooleanIntersect: () => void;
+  performBooleanXor: () => void;
+  settings: ProjectSettings;
+  onSettingsChange: (settings: ProjectSettings) => void;
   mobile?: boolean;
   mobileMode?: 'layers' | 'properties';
 }
@@ -35,24 +44,45 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
   addEntity,
   performBooleanSubtract,
   performBooleanUnion,
+  performBooleanIntersect,
+  performBooleanXor,
+  settings,
+  onSettingsChange,
   mobile,
   mobileMode = 'properties'
 }) => {
   
   const handleValueChange = (key: string, val: string | number) => {
     const num = typeof val === 'string' ? parseFloat(val) : val;
-    if (typeof val === 'string' && isNaN(num) && key !== 'color' && key !== 'operation' && key !== 'texture' && key !== 'name') return;
+    const isText = key === 'color' || key === 'operation' || key === 'texture' || key === 'name' || key === 'text' || key === 'font' || key === 'align' || key === 'pattern';
+    if (typeof val === 'string' && isNaN(num) && !isText) return;
     
     const updates: Entity[] = [];
     selectedEntities.forEach(e => {
-        let updated: any = { ...e, [key]: (key === 'color' || key === 'operation' || key === 'texture' || key === 'name') ? val : num };
+        if (e.locked && key !== 'name') return;
+        let updated: any = { ...e, [key]: isText ? val : num };
         
-        if (e.type === 'circle' || e.type === 'sphere') {
+        if (e.type === 'mesh' || e.type === 'ellipse') {
+             if (key === 'x') updated.center = { ...updated.center, x: num };
+             if (key === 'y') updated.center = { ...updated.center, y: num };
+             if (key === 'rotation') updated.rotation = num * Math.PI / 180;
+        } else if (e.type === 'arc') {
+             if (key === 'x') updated.center = { ...updated.center, x: num };
+             if (key === 'y') updated.center = { ...updated.center, y: num };
+             // Angles are edited in degrees
+             if (key === 'startAngle' || key === 'endAngle') updated[key] = num * Math.PI / 180;
+        } else if (e.type === 'spline' || e.type === 'polyline') {
+             if (key === 'x' || key === 'y') {
+                 const delta = num - e.points[0][key];
+                 updated.points = e.points.map(p => ({ ...p, [key]: p[key] + delta }));
+             }
+        } else if (e.type === 'circle' || e.type === 'sphere') {
              if (key === 'radius') updated.radius = num;
              if (key === 'x') updated.center = { ...updated.center, x: num };
              if (key === 'y') updated.center = { ...updated.center, y: num };
         } else if (e.type === 'rectangle') {
              if (key === 'width' || key === 'height') updated[key] = num;
+             if (key === 'rotation') updated.rotation = num * Math.PI / 180;
              if (key === 'x') updated.start = { ...updated.start, x: num };
              if (key === 'y') updated.start = { ...updated.start, y: num };
         } else if (e.type === 'line') {
@@ -79,6 +109,33 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
              }
              if (key === 'intensity') updated.intensity = num;
              if (key === 'distance') updated.distance = num;
+        } else if (e.type === 'dimension') {
+             // The anchors stay on what they measure; only the dimension line or text moves
+             if (key === 'x') updated.position = { ...e.position, x: num };
+             if (key === 'y') updated.position = { ...e.position, y: num };
+             if (key === 'text' && !val) updated.text = undefined;
+             if (key === 'textHeight' && num <= 0) return;
+        } else if (e.type === 'leader') {
+             // Moves the text and bends; the arrowhead stays on what it points at
+             if (key === 'x' || key === 'y') {
+                 const delta = num - e.points[e.points.length - 1][key];
+                 updated.points = e.points.map(p => ({ ...p, [key]: p[key] + delta }));
+             }
+             if (key === 'textHeight' && num <= 0) return;
+        } else if (e.type === 'text') {
+             if (key === 'x') updated.position = { ...e.position, x: num };
+             if (key === 'y') updated.position = { ...e.position, y: num };
+             if (key === 'rotation') updated.rotation = num * Math.PI / 180;
+             if (key === 'size' && num <= 0) return;
+        } else if (e.type === 'hatch') {
+             if (key === 'x' || key === 'y') {
+                 const delta = num - e.points[0][key];
+                 const shift = (p: Point) => ({ ...p, [key]: p[key] + delta });
+                 updated.points = e.points.map(shift);
+                 if (e.holes) updated.holes = e.holes.map(h => h.map(shift));
+             }
+             if (key === 'angle') updated.angle = num * Math.PI / 180;
+             if (key === 'scale' && num <= 0) return;
         }
         
         updates.push(updated as Entity);
@@ -87,6 +144,12 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
     if (updates.length > 0) onUpdateEntities(updates);
   };
 
+  const toggleLocked = () => {
+      const locked = !selectedEntities.every(e => e.locked);
+      onUpdateEntities(selectedEntities.map(e => ({ ...e, locked } as Entity)));
+      logger.log('PROPS', `${locked ? 'Locked' : 'Unlocked'} ${selectedEntities.length} objects`);
+  };
+
   const convertToPolygon = () => {
       if (selectedEntities.length !== 1) return;
       const ent = selectedEntities[0];
@@ -95,12 +158,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
       logger.log('PROPS', `Converting ${ent.type} to Polygon`);
 
       if (ent.type === 'rectangle') {
-          points = [
-              { x: ent.start.x, y: ent.start.y },
-              { x: ent.start.x + ent.width, y: ent.start.y },
-              { x: ent.start.x + ent.width, y: ent.start.y + ent.height },
-              { x: ent.start.x, y: ent.start.y + ent.height },
-          ];
+          points = convertToPoints(ent);
       } else if (ent.type === 'circle') {
           const segments = 128; 
           for(let i=0; i<segments; i++) {
@@ -110,6 +168,8 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                   y: ent.center.y + Math.sin(theta) * ent.radius
               });
           }
+      } else if (ent.type === 'arc' || ent.type === 'ellipse' || ent.type === 'spline' || ent.type === 'polyline') {
+          points = convertToPoints(ent);
       } else {
           return;
       }
@@ -124,17 +184,61 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
       addEntity(poly);
   };
 
+  // Joins the last vertex back to the first; the wall thickness has no meaning on a filled polygon
+  const closePolyline = () => {
+      if (selectedEntities.length !== 1 || selectedEntities[0].type !== 'polyline') return;
+      const { thickness, ...rest } = selectedEntities[0];
+      if (rest.points.length < 3) {
+          alert('A polyline needs at least 3 vertices to close into a polygon.');
+          return;
+      }
+      logger.log('PROPS', 'Closing polyline into Polygon');
+      onUpdateEntities([{ ...rest, type: 'polygon' } as PolygonEntity]);
+  };
+
+  // Changing the parameters of an associative array regenerates its copies
+  const updateArray = (changes: Partial<ArrayParams>) => {
+      if (selectedEntities.length !== 1 || !selectedEntities[0].array) return;
+      const ent = selectedEntities[0];
+      const array = { ...ent.array, ...changes } as ArrayParams;
+      if (countArrayItems(array) > MAX_ARRAY_ITEMS) {
+          alert(`An array is limited to ${MAX_ARRAY_ITEMS} items.`);
+          return;
+      }
+      onUpdateEntities([{ ...ent, array }]);
+  };
+
+  // The copies stay where they are as ordinary entities
+  const explodeArray = () => {
+      if (selectedEntities.length !== 1) return;
+      logger.log('PROPS', 'Exploding array');
+      onUpdateEntities([withoutArrayLink(selectedEntities[0])]);
+  };
+
+  const readCount = (val: string, min: number) => Math.max(min, parseInt(val) || min);
+  const readNumber = (val: string, apply: (n: number) => void) => {
+      const num = parseFloat(val);
+      if (!isNaN(num)) apply(num);
+  };
+
+  // Lengths are shown in the project's units
+  const unit = settings.units;
+
   const primaryEntity = selectedEntities.length > 0 ? selectedEntities[selectedEntities.length - 1] : null;
   const getPrimaryPos = (e: Entity) => {
       if (e.type === 'rectangle' || e.type === 'line') return e.start;
-      if (e.type === 'circle' || e.type === 'sphere') return e.center;
-      if (e.type === 'polygon') return e.points[0];
-      if (e.type === 'light') return e.position;
+      if (e.type === 'circle' || e.type === 'sphere' || e.type === 'mesh' || e.type === 'arc' || e.type === 'ellipse') return e.center;
+      if (e.type === 'polygon' || e.type === 'spline' || e.type === 'polyline' || e.type === 'hatch') return e.points[0];
+      if (e.type === 'light' || e.type === 'text') return e.position;
+      if (e.type === 'dimension') return e.position;
+      if (e.type === 'leader') return e.points[e.points.length - 1];
       return { x: 0, y: 0 };
   }
   const primaryPos = primaryEntity ? getPrimaryPos(primaryEntity) : { x: 0, y: 0 };
+  const annotationAnchors = primaryEntity?.type === 'dimension' ? primaryEntity.anchors : primaryEntity?.type === 'leader' ? [primaryEntity.anchor] : [];
   
   const baseCount = selectedEntities.filter(e => e.isBase).length;
+  const primaryLocked = !!primaryEntity?.locked;
 
   const LayerContent = (
       <div className={`overflow-y-auto p-3 space-y-2 ${mobile ? 'bg-slate-900 pointer-events-auto relative z-50' : 'border-b border-slate-700 max-h-[160px]'}`}>
@@ -183,7 +287,38 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
   const PropertiesContent = (
       <div className={`p-4 overflow-y-auto ${mobile ? 'bg-slate-900 pointer-events-auto relative z-50' : ''}`}>
          {selectedEntities.length === 0 ? (
-           <div className="text-slate-500 text-sm italic text-center py-8">No objects selected</div>
+           <div className="space-y-4 relative z-10">
+             <div className="text-slate-500 text-sm italic text-center py-4">No objects selected</div>
+
+             {/* Project Units & Grid */}
+             <div className="grid grid-cols-2 gap-3 bg-slate-800 p-3 rounded border border-slate-700">
+                <label className="text-xs font-bold text-slate-300 col-span-2 uppercase tracking-wide">Units & Grid</label>
+                <div className="col-span-1">
+                    <label className="text-xs font-medium text-slate-500 block mb-1">Drawing Units</label>
+                    <select className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full focus:border-blue-500 outline-none pointer-events-auto relative z-20"
+                        value={settings.units} onChange={(e) => onSettingsChange({ ...settings, units: e.target.value as LengthUnit })} style={{ touchAction: 'manipulation' }}>
+                        {LENGTH_UNITS.map(u => <option key={u.id} value={u.id}>{u.label}</option>)}
+                    </select>
+                </div>
+                <div className="col-span-1">
+                    <label className="text-xs font-medium text-slate-500 block mb-1" title="Units of STL and OBJ files, which do not record their own">Mesh Files</label>
+                    <select className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full focus:border-blue-500 outline-none pointer-events-auto relative z-20"
+                        value={settings.meshUnits} onChange={(e) => onSettingsChange({ ...settings, meshUnits: e.target.value as LengthUnit })} style={{ touchAction: 'manipulation' }}>
+                        {LENGTH_UNITS.map(u => <option key={u.id} value={u.id}>{u.label}</option>)}
+                    </select>
+                </div>
+                <div className="col-span-1">
+                    <label className="text-xs font-medium text-slate-500 block mb-1">Grid ({unit})</label>
+                    <input type="number" min={0} className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full focus:border-blue-500 outline-none pointer-events-auto relative z-20"
+                        value={settings.gridSpacing} onChange={(e) => readNumber(e.target.value, n => n > 0 && onSettingsChange({ ...settings, gridSpacing: n }))} style={{ touchAction: 'manipulation' }} />
+                </div>
+                <div className="col-span-1">
+                    <label className="text-xs font-medium text-slate-500 block mb-1">Major Every</label>
+                    <input type="number" min={2} step={1} className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full focus:border-blue-500 outline-none pointer-events-auto relative z-20"
+                        value={settings.gridMajor} onChange={(e) => onSettingsChange({ ...settings, gridMajor: readCount(e.target.value, 2) })} style={{ touchAction: 'manipulation' }} />
+                </div>
+             </div>
+           </div>
          ) : (
            <div className="space-y-4 relative z-10">
              <div className="text-sm text-slate-300 flex justify-between items-center border-b border-slate-700 pb-2">
@@ -195,13 +330,18 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
              {primaryEntity && (
                  <div>
                     <label className="text-xs font-medium text-slate-400 block mb-1">Name</label>
-                    <input type="text" 
-                        className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full focus:border-blue-500 outline-none pointer-events-auto relative z-20"
-                        value={primaryEntity.name || ''} 
-                        placeholder={primaryEntity.type}
-                        onChange={(e) => handleValueChange('name', e.target.value)}
-                        style={{ touchAction: 'manipulation' }}
-                    />
+                    <div className="flex gap-2">
+                        <input type="text" 
+                            className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full focus:border-blue-500 outline-none pointer-events-auto relative z-20"
+                            value={primaryEntity.name || ''} 
+                            placeholder={primaryEntity.type}
+                            onChange={(e) => handleValueChange('name', e.target.value)}
+                            style={{ touchAction: 'manipulation' }}
+                        />
+                        <button onClick={toggleLocked} title={primaryLocked ? 'Unlock' : 'Lock as reference'} className={`px-3 rounded border pointer-events-auto relative z-20 ${primaryLocked ? 'bg-amber-900/40 border-amber-700 text-amber-400' : 'bg-slate-900 border-slate-600 text-slate-400 hover:text-white'}`} style={{ touchAction: 'manipulation' }}>
+                            <i className={`fas ${primaryLocked ? 'fa-lock' : 'fa-lock-open'} text-xs`}></i>
+                        </button>
+                    </div>
                  </div>
              )}
 
@@ -223,6 +363,17 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                          </div>
                          <i className="fas fa-moon"></i>
                      </button>
+
+                     <div className="grid grid-cols-2 gap-2">
+                         <button onClick={performBooleanIntersect} disabled={baseCount === 0} className={`py-2 px-3 rounded text-xs flex items-center justify-between shadow pointer-events-auto relative z-20 ${baseCount > 0 ? 'bg-sky-700 hover:bg-sky-600 text-white' : 'bg-slate-700 text-slate-500 cursor-not-allowed'}`} style={{ touchAction: 'manipulation' }} title="Keep only the area shared by Base and others">
+                             <span className="font-bold">Intersect</span>
+                             <i className="fas fa-circle-half-stroke"></i>
+                         </button>
+                         <button onClick={performBooleanXor} disabled={baseCount === 0} className={`py-2 px-3 rounded text-xs flex items-center justify-between shadow pointer-events-auto relative z-20 ${baseCount > 0 ? 'bg-amber-700 hover:bg-amber-600 text-white' : 'bg-slate-700 text-slate-500 cursor-not-allowed'}`} style={{ touchAction: 'manipulation' }} title="Keep everything except the shared area">
+                             <span className="font-bold">Exclude (XOR)</span>
+                             <i className="fas fa-clone"></i>
+                         </button>
+                     </div>
                      
                      <button onClick={performBooleanUnion} className="w-full bg-emerald-700 hover:bg-emerald-600 text-white py-2 px-3 rounded text-xs flex items-center justify-between shadow pointer-events-auto relative z-20" style={{ touchAction: 'manipulation' }}>
                          <span className="font-bold">Merge / Union</span>
@@ -231,15 +382,22 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                  </div>
              )}
              
+             {primaryEntity?.type === 'mesh' && (
+                 <div className="text-[10px] text-slate-400 bg-slate-800 rounded border border-slate-700 px-2 py-1.5">
+                     <i className="fas fa-cube mr-1"></i> Reference mesh{primaryEntity.sourceFile ? ` from ${primaryEntity.sourceFile}` : ''}, {(primaryEntity as MeshEntity).vertices.length / 9} triangles
+                 </div>
+             )}
+
+             <fieldset disabled={primaryLocked} className={`space-y-4 min-w-0 ${primaryLocked ? 'opacity-50' : ''}`}>
              {/* Coords */}
              <div className="grid grid-cols-2 gap-3">
                 <div className="col-span-1">
-                    <label className="text-xs font-medium text-slate-400 block mb-1">X Pos</label>
+                    <label className="text-xs font-medium text-slate-400 block mb-1">X Pos ({unit})</label>
                     <input type="number" className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full focus:border-blue-500 outline-none pointer-events-auto relative z-20"
                         value={Math.round(primaryPos.x * 100) / 100} onChange={(e) => handleValueChange('x', e.target.value)} style={{ touchAction: 'manipulation' }} />
                 </div>
                 <div className="col-span-1">
-                    <label className="text-xs font-medium text-slate-400 block mb-1">Y Pos</label>
+                    <label className="text-xs font-medium text-slate-400 block mb-1">Y Pos ({unit})</label>
                     <input type="number" className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full focus:border-blue-500 outline-none pointer-events-auto relative z-20"
                         value={Math.round(primaryPos.y * 100) / 100} onChange={(e) => handleValueChange('y', e.target.value)} style={{ touchAction: 'manipulation' }} />
                 </div>
@@ -255,12 +413,12 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                             value={primaryEntity.intensity} onChange={(e) => handleValueChange('intensity', e.target.value)} style={{ touchAction: 'manipulation' }} />
                      </div>
                      <div>
-                        <div className="flex justify-between text-xs text-slate-400 mb-1"><span>Range</span><span>{primaryEntity.distance}</span></div>
+                        <div className="flex justify-between text-xs text-slate-400 mb-1"><span>Range ({unit})</span><span>{primaryEntity.distance}</span></div>
                         <input type="range" min="10" max="500" step="10" className="w-full accent-yellow-400 h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer pointer-events-auto relative z-20"
                             value={primaryEntity.distance} onChange={(e) => handleValueChange('distance', e.target.value)} style={{ touchAction: 'manipulation' }} />
                      </div>
                      <div>
-                        <div className="flex justify-between text-xs text-slate-400 mb-1"><span>Elevation (Z)</span><span>{primaryEntity.elevation || 0}</span></div>
+                        <div className="flex justify-between text-xs text-slate-400 mb-1"><span>Elevation (Z, {unit})</span><span>{primaryEntity.elevation || 0}</span></div>
                         <input type="number" className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full pointer-events-auto relative z-20"
                             value={primaryEntity.elevation || 0} onChange={(e) => handleValueChange('elevation', e.target.value)} style={{ touchAction: 'manipulation' }} />
                      </div>
@@ -275,20 +433,89 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                  </div>
              )}
 
+             {/* Annotation */}
+             {primaryEntity && isAnnotation(primaryEntity) && (
+                 <div className="grid grid-cols-2 gap-3 bg-slate-800 p-3 rounded border border-slate-700">
+                    <label className="text-xs font-bold text-slate-300 col-span-2 uppercase tracking-wide">
+                        {primaryEntity.type === 'dimension' ? `${primaryEntity.kind} Dimension` : 'Leader'} ({primaryEntity.view} view)
+                    </label>
+                    <div className="col-span-2">
+                        <label className="text-xs font-medium text-slate-500 block mb-1" title={primaryEntity.type === 'dimension' ? 'Replaces the measurement; <> stands for the measured value' : undefined}>Text</label>
+                        <input type="text" className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full focus:border-blue-500 outline-none pointer-events-auto relative z-20"
+                            value={primaryEntity.text || ''} placeholder={primaryEntity.type === 'dimension' ? '<>' : ''}
+                            onChange={(e) => handleValueChange('text', e.target.value)} style={{ touchAction: 'manipulation' }} />
+                    </div>
+                    <div className="col-span-1">
+                        <label className="text-xs font-medium text-slate-500 block mb-1">Text Height ({unit})</label>
+                        <input type="number" min={0} className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full focus:border-blue-500 outline-none pointer-events-auto relative z-20"
+                            value={primaryEntity.textHeight} onChange={(e) => handleValueChange('textHeight', e.target.value)} style={{ touchAction: 'manipulation' }} />
+                    </div>
+                    {primaryEntity.type === 'dimension' && (
+                        <div className="col-span-1">
+                            <label className="text-xs font-medium text-slate-500 block mb-1">Measured{primaryEntity.kind === 'angular' ? ' (°)' : ` (${unit})`}</label>
+                            <div className="text-sm text-slate-300 py-1.5">{Math.round(measureDimension(primaryEntity) * 100) / 100}</div>
+                        </div>
+                    )}
+                    <div className="col-span-2 text-[10px] text-slate-400">
+                        {annotationAnchors.every(a => a.ref) ? 'Attached to the geometry it measures'
+                            : annotationAnchors.some(a => a.ref) ? 'Partly attached; free points stay where they are' : 'Free: not attached to any geometry'}
+                    </div>
+                 </div>
+             )}
+
+             {/* Hatch */}
+             {primaryEntity?.type === 'hatch' && (
+                 <div className="grid grid-cols-2 gap-3 bg-slate-800 p-3 rounded border border-slate-700">
+                    <label className="text-xs font-bold text-slate-300 col-span-2 uppercase tracking-wide">Hatch ({primaryEntity.view} view)</label>
+                    <div className="col-span-2">
+                        <label className="text-xs font-medium text-slate-500 block mb-1">Pattern</label>
+                        <select className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full focus:border-blue-500 outline-none pointer-events-auto relative z-20"
+                            value={primaryEntity.pattern} onChange={(e) => handleValueChange('pattern', e.target.value)} style={{ touchAction: 'manipulation' }}>
+                            {HATCH_PATTERNS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                        </select>
+                    </div>
+                    {primaryEntity.pattern !== 'solid' && (
+                        <>
+                            <div className="col-span-1">
+                                <label className="text-xs font-medium text-slate-500 block mb-1">Angle (°)</label>
+                                <input type="number" className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full focus:border-blue-500 outline-none pointer-events-auto relative z-20"
+                                    value={Math.round((primaryEntity.angle || 0) * 180 / Math.PI * 100) / 100} onChange={(e) => handleValueChange('angle', e.target.value)} style={{ touchAction: 'manipulation' }} />
+                            </div>
+                            <div className="col-span-1">
+                                <label className="text-xs font-medium text-slate-500 block mb-1">Spacing ({unit})</label>
+                                <input type="number" min={0} className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full focus:border-blue-500 outline-none pointer-events-auto relative z-20"
+                                    value={primaryEntity.scale} onChange={(e) => handleValueChange('scale', e.target.value)} style={{ touchAction: 'manipulation' }} />
+                            </div>
+                        </>
+                    )}
+                    <div className="flex items-center gap-3 col-span-2">
+                        <input type="color" className="h-6 w-10 bg-transparent border-0 p-0 cursor-pointer rounded overflow-hidden pointer-events-auto relative z-20"
+                            value={primaryEntity.color || '#ffffff'}
+                            onChange={(e) => handleValueChange('color', e.target.value)}
+                            style={{ touchAction: 'manipulation' }}
+                        />
+                        <span className="text-sm text-slate-300">Color</span>
+                    </div>
+                    <div className="col-span-2 text-[10px] text-slate-400">
+                        {(primaryEntity.holes || []).length > 0 ? `${primaryEntity.holes!.length} hole(s) left unfilled` : 'No holes'}
+                    </div>
+                 </div>
+             )}
+
              {/* 3D Geometry */}
-             {primaryEntity?.type !== 'light' && primaryEntity && (
+             {primaryEntity?.type !== 'light' && primaryEntity && !isDrafting(primaryEntity) && (
                  <>
                      <div className="grid grid-cols-2 gap-3 bg-slate-800 p-3 rounded border border-slate-700">
                         <label className="text-xs font-bold text-slate-300 col-span-2 uppercase tracking-wide">3D Properties</label>
                         
                         <div className="col-span-1">
-                            <label className="text-xs font-medium text-slate-500 block mb-1">{primaryEntity.type === 'sphere' ? 'Radius' : 'Extrude'}</label>
-                            <input type="number" className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full focus:border-blue-500 outline-none pointer-events-auto relative z-20"
+                            <label className="text-xs font-medium text-slate-500 block mb-1">{primaryEntity.type === 'sphere' ? 'Radius' : primaryEntity.type === 'mesh' ? 'Height' : 'Extrude'} ({unit})</label>
+                            <input type="number" disabled={primaryEntity.type === 'mesh'} className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full focus:border-blue-500 outline-none pointer-events-auto relative z-20"
                                 value={primaryEntity.type === 'sphere' ? (primaryEntity as any).radius : (primaryEntity.extrusionDepth || 0)} 
                                 onChange={(e) => handleValueChange(primaryEntity.type === 'sphere' ? 'radius' : 'extrusionDepth', e.target.value)} style={{ touchAction: 'manipulation' }} />
                         </div>
                         <div className="col-span-1">
-                            <label className="text-xs font-medium text-slate-500 block mb-1">Elevation (Z)</label>
+                            <label className="text-xs font-medium text-slate-500 block mb-1">Elevation (Z, {unit})</label>
                             <input type="number" className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full focus:border-blue-500 outline-none pointer-events-auto relative z-20"
                                 value={primaryEntity.elevation || 0} onChange={(e) => handleValueChange('elevation', e.target.value)} style={{ touchAction: 'manipulation' }} />
                         </div>
@@ -341,28 +568,173 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
              )}
 
              {/* Specific Properties */}
-             {selectedEntities.length === 1 && primaryEntity && primaryEntity.type !== 'light' && primaryEntity.type !== 'sphere' && (
+             {selectedEntities.length === 1 && primaryEntity && primaryEntity.type !== 'light' && primaryEntity.type !== 'sphere' && primaryEntity.type !== 'mesh' && !isDrafting(primaryEntity) && (
                  <div className="border-t border-slate-700 pt-3 mt-2 space-y-2">
                     {primaryEntity.type === 'rectangle' && (
-                        <div className="grid grid-cols-2 gap-3">
-                            <input type="number" placeholder="W" className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full pointer-events-auto relative z-20"
+                        <div className="grid grid-cols-3 gap-2">
+                            <input type="number" placeholder="W" title={`Width (${unit})`} className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full pointer-events-auto relative z-20"
                                 value={(primaryEntity as any).width} onChange={(e) => handleValueChange('width', e.target.value)} style={{ touchAction: 'manipulation' }} />
-                            <input type="number" placeholder="H" className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full pointer-events-auto relative z-20"
+                            <input type="number" placeholder="H" title={`Height (${unit})`} className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full pointer-events-auto relative z-20"
                                 value={(primaryEntity as any).height} onChange={(e) => handleValueChange('height', e.target.value)} style={{ touchAction: 'manipulation' }} />
+                            <input type="number" placeholder="Rot °" title="Rotation about the centre (degrees)" className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full pointer-events-auto relative z-20"
+                                value={Math.round((primaryEntity.rotation || 0) * 180 / Math.PI * 100) / 100} onChange={(e) => handleValueChange('rotation', e.target.value)} style={{ touchAction: 'manipulation' }} />
                         </div>
                     )}
-                    {primaryEntity.type === 'circle' && (
+                    {(primaryEntity.type === 'circle' || primaryEntity.type === 'arc') && (
                          <div className="grid grid-cols-2 gap-3">
-                             <label className="text-xs text-slate-400 flex items-center">Radius</label>
+                             <label className="text-xs text-slate-400 flex items-center">Radius ({unit})</label>
                              <input type="number" className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full pointer-events-auto relative z-20"
                                 value={(primaryEntity as any).radius} onChange={(e) => handleValueChange('radius', e.target.value)} style={{ touchAction: 'manipulation' }} />
                         </div>
                     )}
-                    <button onClick={convertToPolygon} className="w-full text-xs bg-slate-700 hover:bg-slate-600 text-slate-200 py-2 rounded pointer-events-auto relative z-20" style={{ touchAction: 'manipulation' }}>
-                        Convert to Polygon
+                    {primaryEntity.type === 'arc' && (
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label className="text-xs text-slate-400 block mb-1">Start °</label>
+                                <input type="number" className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full pointer-events-auto relative z-20"
+                                    value={Math.round(primaryEntity.startAngle * 180 / Math.PI * 100) / 100} onChange={(e) => handleValueChange('startAngle', e.target.value)} style={{ touchAction: 'manipulation' }} />
+                            </div>
+                            <div>
+                                <label className="text-xs text-slate-400 block mb-1">End °</label>
+                                <input type="number" className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full pointer-events-auto relative z-20"
+                                    value={Math.round(primaryEntity.endAngle * 180 / Math.PI * 100) / 100} onChange={(e) => handleValueChange('endAngle', e.target.value)} style={{ touchAction: 'manipulation' }} />
+                            </div>
+                        </div>
+                    )}
+                    {primaryEntity.type === 'ellipse' && (
+                        <div className="grid grid-cols-3 gap-2">
+                            <input type="number" placeholder="RX" title={`Radius X (${unit})`} className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full pointer-events-auto relative z-20"
+                                value={primaryEntity.radiusX} onChange={(e) => handleValueChange('radiusX', e.target.value)} style={{ touchAction: 'manipulation' }} />
+                            <input type="number" placeholder="RY" title={`Radius Y (${unit})`} className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full pointer-events-auto relative z-20"
+                                value={primaryEntity.radiusY} onChange={(e) => handleValueChange('radiusY', e.target.value)} style={{ touchAction: 'manipulation' }} />
+                            <input type="number" placeholder="Rot °" title="Rotation (degrees)" className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full pointer-events-auto relative z-20"
+                                value={Math.round((primaryEntity.rotation || 0) * 180 / Math.PI * 100) / 100} onChange={(e) => handleValueChange('rotation', e.target.value)} style={{ touchAction: 'manipulation' }} />
+                        </div>
+                    )}
+                    {primaryEntity.type === 'spline' && (
+                        <label className="flex items-center gap-2 text-xs text-slate-400 pointer-events-auto relative z-20">
+                            <input type="checkbox" checked={primaryEntity.closed} onChange={() => onUpdateEntities([{ ...primaryEntity, closed: !primaryEntity.closed }])} />
+                            Closed curve ({primaryEntity.points.length} points)
+                        </label>
+                    )}
+                    {primaryEntity.type === 'polyline' && (
+                        <>
+                            <div className="grid grid-cols-2 gap-3">
+                                <label className="text-xs text-slate-400 flex items-center">Thickness ({unit})</label>
+                                <input type="number" min={0.1} className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full pointer-events-auto relative z-20"
+                                    value={primaryEntity.thickness} onChange={(e) => handleValueChange('thickness', e.target.value)} style={{ touchAction: 'manipulation' }} />
+                            </div>
+                            <button onClick={closePolyline} disabled={primaryEntity.points.length < 3} className="w-full text-xs bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-200 py-2 rounded pointer-events-auto relative z-20" style={{ touchAction: 'manipulation' }}>
+                                Close to Polygon ({primaryEntity.points.length} vertices)
+                            </button>
+                        </>
+                    )}
+                    {primaryEntity.type === 'text' && (
+                        <>
+                            <textarea rows={2} title="Text (one line per row)" className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full pointer-events-auto relative z-20"
+                                value={primaryEntity.text} onChange={(e) => handleValueChange('text', e.target.value)} style={{ touchAction: 'manipulation' }} />
+                            <select title="Font" className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full pointer-events-auto relative z-20"
+                                value={primaryEntity.font} onChange={(e) => handleValueChange('font', e.target.value)} style={{ touchAction: 'manipulation' }}>
+                                {TEXT_FONTS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+                            </select>
+                            <div className="grid grid-cols-3 gap-2">
+                                <input type="number" min={0} placeholder="Size" title={`Height (${unit})`} className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full pointer-events-auto relative z-20"
+                                    value={primaryEntity.size} onChange={(e) => handleValueChange('size', e.target.value)} style={{ touchAction: 'manipulation' }} />
+                                <select title="Alignment at the position" className="bg-slate-900 border border-slate-600 rounded px-1 py-1.5 text-sm text-white w-full pointer-events-auto relative z-20"
+                                    value={primaryEntity.align} onChange={(e) => handleValueChange('align', e.target.value)} style={{ touchAction: 'manipulation' }}>
+                                    <option value="left">Left</option>
+                                    <option value="center">Center</option>
+                                    <option value="right">Right</option>
+                                </select>
+                                <input type="number" placeholder="Rot °" title="Rotation about the position (degrees)" className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full pointer-events-auto relative z-20"
+                                    value={Math.round((primaryEntity.rotation || 0) * 180 / Math.PI * 100) / 100} onChange={(e) => handleValueChange('rotation', e.target.value)} style={{ touchAction: 'manipulation' }} />
+                            </div>
+                        </>
+                    )}
+                    {primaryEntity.type !== 'text' && (
+                        <button onClick={convertToPolygon} className="w-full text-xs bg-slate-700 hover:bg-slate-600 text-slate-200 py-2 rounded pointer-events-auto relative z-20" style={{ touchAction: 'manipulation' }}>
+                            Convert to Polygon
+                        </button>
+                    )}
+                 </div>
+             )}
+
+             {/* Associative Array */}
+             {selectedEntities.length === 1 && primaryEntity?.array && (
+                 <div className="space-y-2 bg-slate-800 p-3 rounded border border-slate-700">
+                    <label className="text-xs font-bold text-slate-300 uppercase tracking-wide">{primaryEntity.array.kind} Array</label>
+                    {primaryEntity.array.kind === 'rectangular' ? (
+                        <div className="grid grid-cols-2 gap-2">
+                            <div>
+                                <label className="text-xs text-slate-400 block mb-1">Rows</label>
+                                <input type="number" min={1} className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full pointer-events-auto relative z-20"
+                                    value={primaryEntity.array.rows} onChange={(e) => updateArray({ rows: readCount(e.target.value, 1) })} style={{ touchAction: 'manipulation' }} />
+                            </div>
+                            <div>
+                                <label className="text-xs text-slate-400 block mb-1">Columns</label>
+                                <input type="number" min={1} className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full pointer-events-auto relative z-20"
+                                    value={primaryEntity.array.columns} onChange={(e) => updateArray({ columns: readCount(e.target.value, 1) })} style={{ touchAction: 'manipulation' }} />
+                            </div>
+                            <div>
+                                <label className="text-xs text-slate-400 block mb-1">Row Spacing ({unit})</label>
+                                <input type="number" className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full pointer-events-auto relative z-20"
+                                    value={primaryEntity.array.rowSpacing} onChange={(e) => readNumber(e.target.value, rowSpacing => updateArray({ rowSpacing }))} style={{ touchAction: 'manipulation' }} />
+                            </div>
+                            <div>
+                                <label className="text-xs text-slate-400 block mb-1">Column Spacing ({unit})</label>
+                                <input type="number" className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full pointer-events-auto relative z-20"
+                                    value={primaryEntity.array.columnSpacing} onChange={(e) => readNumber(e.target.value, columnSpacing => updateArray({ columnSpacing }))} style={{ touchAction: 'manipulation' }} />
+                            </div>
+                        </div>
+                    ) : (
+                        <div className="grid grid-cols-2 gap-2">
+                            <div>
+                                <label className="text-xs text-slate-400 block mb-1">Items</label>
+                                <input type="number" min={2} className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full pointer-events-auto relative z-20"
+                                    value={primaryEntity.array.count} onChange={(e) => updateArray({ count: readCount(e.target.value, 2) })} style={{ touchAction: 'manipulation' }} />
+                            </div>
+                            {primaryEntity.array.kind === 'polar' ? (
+                                <>
+                                    <div>
+                                        <label className="text-xs text-slate-400 block mb-1">Angle °</label>
+                                        <input type="number" className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full pointer-events-auto relative z-20"
+                                            value={Math.round(primaryEntity.array.angle * 180 / Math.PI * 100) / 100} onChange={(e) => readNumber(e.target.value, deg => updateArray({ angle: deg * Math.PI / 180 }))} style={{ touchAction: 'manipulation' }} />
+                                    </div>
+                                    <div>
+                                        <label className="text-xs text-slate-400 block mb-1">Centre X ({unit})</label>
+                                        <input type="number" className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full pointer-events-auto relative z-20"
+                                            value={Math.round(primaryEntity.array.center.x * 100) / 100} onChange={(e) => readNumber(e.target.value, x => primaryEntity.array?.kind === 'polar' && updateArray({ center: { ...primaryEntity.array.center, x } }))} style={{ touchAction: 'manipulation' }} />
+                                    </div>
+                                    <div>
+                                        <label className="text-xs text-slate-400 block mb-1">Centre Y ({unit})</label>
+                                        <input type="number" className="bg-slate-900 border border-slate-600 rounded px-2 py-1.5 text-sm text-white w-full pointer-events-auto relative z-20"
+                                            value={Math.round(primaryEntity.array.center.y * 100) / 100} onChange={(e) => readNumber(e.target.value, y => primaryEntity.array?.kind === 'polar' && updateArray({ center: { ...primaryEntity.array.center, y } }))} style={{ touchAction: 'manipulation' }} />
+                                    </div>
+                                    <label className="col-span-2 flex items-center gap-2 text-xs text-slate-400 pointer-events-auto relative z-20">
+                                        <input type="checkbox" checked={primaryEntity.array.rotateItems} onChange={() => primaryEntity.array?.kind === 'polar' && updateArray({ rotateItems: !primaryEntity.array.rotateItems })} />
+                                        Rotate items
+                                    </label>
+                                </>
+                            ) : (
+                                <label className="flex items-center gap-2 text-xs text-slate-400 pointer-events-auto relative z-20">
+                                    <input type="checkbox" checked={primaryEntity.array.alignToPath} onChange={() => primaryEntity.array?.kind === 'path' && updateArray({ alignToPath: !primaryEntity.array.alignToPath })} />
+                                    Align to path
+                                </label>
+                            )}
+                        </div>
+                    )}
+                    <button onClick={explodeArray} className="w-full text-xs bg-slate-700 hover:bg-slate-600 text-slate-200 py-2 rounded pointer-events-auto relative z-20" style={{ touchAction: 'manipulation' }}>
+                        Explode ({countArrayItems(primaryEntity.array) - 1} copies kept)
                     </button>
                  </div>
              )}
+             {selectedEntities.length === 1 && primaryEntity?.arrayOf && (
+                 <div className="text-[10px] text-slate-400 bg-slate-800 rounded border border-slate-700 px-2 py-1.5 flex items-center justify-between gap-2">
+                     <span><i className="fas fa-table-cells mr-1"></i> Array copy; edits are replaced when the source changes</span>
+                     <button onClick={explodeArray} className="text-slate-300 hover:text-white underline pointer-events-auto relative z-20" style={{ touchAction: 'manipulation' }}>Detach</button>
+                 </div>
+             )}
+             </fieldset>
 
              <button
                onClick={deleteSelected}
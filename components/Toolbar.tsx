@@ -1,9 +1,13 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { ToolType } from '../types';
-import { exportToObj, exportToStl } from '../utils/exporter';
-import { Entity } from '../types';
+import { exportToObj, exportToStl, exportToStlBinary, exportToGltf, exportTo3mf } from '../utils/exporter';
+import { exportToDxf } from '../utils/dxf';
+import { exportToSvg } from '../utils/svg';
+import { Entity, Layer, ViewType, SnapSettings, ProjectSettings, LengthUnit } from '../types';
+import { POLAR_ANGLES } from '../constants';
 import DraggablePanel from './DraggablePanel';
+import { scaleEntities, unitScale } from '../utils/units';
 import { logger } from '../utils/debug';
 
 interface ToolbarProps {
@@ -13,12 +17,17 @@ interface ToolbarProps {
   redo: () => void;
   save: () => void;
   onNewProject: () => void;
+  onShowSnapshots: () => void;
   onLoadFile?: (file: File) => void;
   canUndo: boolean;
   canRedo: boolean;
   isSaving: boolean;
   entities: Entity[];
+  layers: Layer[];
   onExportImage: () => void;
+  snaps: SnapSettings;
+  setSnaps: (s: SnapSettings) => void;
+  settings: ProjectSettings;
   mobile?: boolean;
 }
 
@@ -28,13 +37,53 @@ const tools: { id: ToolType; icon: string; label: string; color: string }[] = [
     { id: 'line', icon: 'fa-pen', label: 'Line', color: 'text-cyan-400' },
     { id: 'rectangle', icon: 'fa-square', label: 'Rect', color: 'text-green-400' },
     { id: 'circle', icon: 'fa-circle', label: 'Circle', color: 'text-yellow-400' },
+    { id: 'arc', icon: 'fa-circle-notch', label: 'Arc 3P', color: 'text-orange-400' },
+    { id: 'arc-center', icon: 'fa-compass-drafting', label: 'Arc CSE', color: 'text-orange-300' },
+    { id: 'ellipse', icon: 'fa-egg', label: 'Ellipse', color: 'text-lime-400' },
+    { id: 'polyline', icon: 'fa-route', label: 'Polyline', color: 'text-teal-400' },
+    { id: 'spline', icon: 'fa-bezier-curve', label: 'Spline', color: 'text-pink-400' },
     { id: 'sphere', icon: 'fa-globe', label: 'Sphere', color: 'text-indigo-400' },
     { id: 'polygon', icon: 'fa-draw-polygon', label: 'Poly', color: 'text-purple-400' },
+    { id: 'fillet', icon: 'fa-circle-half-stroke', label: 'Fillet', color: 'text-sky-400' },
+    { id: 'chamfer', icon: 'fa-scissors', label: 'Chamfer', color: 'text-sky-300' },
+    { id: 'offset', icon: 'fa-clone', label: 'Offset', color: 'text-sky-200' },
+    { id: 'trim', icon: 'fa-crop-simple', label: 'Trim', color: 'text-rose-400' },
+    { id: 'extend', icon: 'fa-arrow-right-to-bracket', label: 'Extend', color: 'text-rose-300' },
+    { id: 'split', icon: 'fa-grip-lines-vertical', label: 'Split', color: 'text-rose-200' },
+    { id: 'move', icon: 'fa-arrows-up-down-left-right', label: 'Move', color: 'text-violet-500' },
+    { id: 'copy', icon: 'fa-copy', label: 'Copy', color: 'text-violet-500' },
+    { id: 'rotate', icon: 'fa-rotate', label: 'Rotate', color: 'text-violet-400' },
+    { id: 'scale', icon: 'fa-up-right-and-down-left-from-center', label: 'Scale', color: 'text-violet-300' },
+    { id: 'mirror', icon: 'fa-arrows-left-right', label: 'Mirror', color: 'text-violet-200' },
+    { id: 'array', icon: 'fa-table-cells', label: 'Array', color: 'text-violet-100' },
+    { id: 'dimension', icon: 'fa-ruler-combined', label: 'Dim', color: 'text-emerald-400' },
+    { id: 'leader', icon: 'fa-comment', label: 'Leader', color: 'text-emerald-300' },
+    { id: 'text', icon: 'fa-font', label: 'Text', color: 'text-emerald-200' },
+    { id: 'hatch', icon: 'fa-fill-drip', label: 'Hatch', color: 'text-emerald-100' },
     { id: 'light', icon: 'fa-lightbulb', label: 'Light', color: 'text-amber-400' },
 ];
 
+type SnapToggle = Exclude<keyof SnapSettings, 'polarAngle'>;
+
+const snapToggles: { id: SnapToggle; label: string; title: string }[] = [
+    { id: 'endpoint', label: 'End', title: 'Endpoint' },
+    { id: 'midpoint', label: 'Mid', title: 'Midpoint' },
+    { id: 'center', label: 'Cen', title: 'Center' },
+    { id: 'quadrant', label: 'Qua', title: 'Quadrant' },
+    { id: 'intersection', label: 'Int', title: 'Intersection' },
+    { id: 'nearest', label: 'Nea', title: 'Nearest' },
+    { id: 'perpendicular', label: 'Per', title: 'Perpendicular' },
+    { id: 'tangent', label: 'Tan', title: 'Tangent' },
+    { id: 'grid', label: 'Grid', title: 'Grid (when no object snap is found)' },
+];
+
+const trackingToggles: { id: SnapToggle; label: string; title: string }[] = [
+    { id: 'ortho', label: 'Ortho', title: 'Ortho lock: horizontal and vertical only (hold Shift to invert)' },
+    { id: 'polar', label: 'Polar', title: 'Polar tracking at the chosen angle increment' },
+];
+
 const Toolbar: React.FC<ToolbarProps> = ({ 
-  activeTool, setTool, undo, redo, save, onNewProject, onLoadFile, canUndo, canRedo, isSaving, entities, onExportImage, mobile
+  activeTool, setTool, undo, redo, save, onNewProject, onShowSnapshots, onLoadFile, canUndo, canRedo, isSaving, entities, layers, onExportImage, snaps, setSnaps, settings, mobile
 }) => {
   const [showExportMenu, setShowExportMenu] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
@@ -50,13 +99,44 @@ const Toolbar: React.FC<ToolbarProps> = ({
       return () => document.removeEventListener('mousedown', handleClickOutside);
   }, [showExportMenu]);
 
+  // Exported geometry in another unit. STL and OBJ use the project's mesh units, glTF is
+  // metres by definition, 3MF is declared in millimetres, DXF and SVG state the project's own.
+  const inUnits = (units: LengthUnit) => scaleEntities(entities, unitScale(settings.units, units));
+
   const handleExportObj = (selectedOnly: boolean) => {
-      exportToObj(entities, selectedOnly);
+      exportToObj(inUnits(settings.meshUnits), selectedOnly);
       setShowExportMenu(false);
   };
 
   const handleExportStl = (selectedOnly: boolean) => {
-      exportToStl(entities, selectedOnly);
+      exportToStl(inUnits(settings.meshUnits), selectedOnly);
+      setShowExportMenu(false);
+  };
+
+  const handleExportStlBinary = (selectedOnly: boolean) => {
+      exportToStlBinary(inUnits(settings.meshUnits), selectedOnly);
+      setShowExportMenu(false);
+  };
+
+  const handleExportGltf = (binary: boolean) => {
+      exportToGltf(inUnits('m'), layers, false, binary);
+      setShowExportMenu(false);
+  };
+
+  const handleExport3mf = (selectedOnly: boolean) => {
+      exportTo3mf(inUnits('mm'), layers, selectedOnly);
+      setShowExportMenu(false);
+  };
+
+  const handleExportDxf = (selectedOnly: boolean) => {
+      exportToDxf(entities, layers, selectedOnly, undefined, settings.units);
+      setShowExportMenu(false);
+  };
+
+  const handleExportSvg = (viewType: ViewType) => {
+      // SVG sizes only in CSS units, which have no metres or feet
+      const svgUnit = settings.units === 'm' || settings.units === 'ft' ? 'mm' : settings.units;
+      exportToSvg(inUnits(svgUnit), layers, viewType, false, undefined, { unit: svgUnit });
       setShowExportMenu(false);
   };
 
@@ -140,6 +220,54 @@ const Toolbar: React.FC<ToolbarProps> = ({
         
         <div className="h-px w-full bg-slate-700 my-1 relative z-10"></div>
 
+        {/* SNAPS */}
+        <div className={`grid gap-1 w-full relative z-10 ${mobile ? 'grid-cols-5' : 'grid-cols-3'}`}>
+            {snapToggles.map(snap => (
+                <button
+                    key={snap.id}
+                    type="button"
+                    onClick={() => {
+                        logger.log('UI', `Snap ${snap.id} ${snaps[snap.id] ? 'off' : 'on'}`);
+                        setSnaps({ ...snaps, [snap.id]: !snaps[snap.id] });
+                    }}
+                    title={`${snap.title} snap`}
+                    style={{ touchAction: 'manipulation' }}
+                    className={`h-6 rounded border text-[8px] uppercase font-bold pointer-events-auto relative z-10 ${snaps[snap.id] ? 'bg-emerald-800 border-emerald-600 text-emerald-100' : 'bg-slate-800 border-slate-700 text-slate-500 hover:bg-slate-700'}`}
+                >
+                    {snap.label}
+                </button>
+            ))}
+        </div>
+
+        {/* TRACKING */}
+        <div className={`grid gap-1 w-full relative z-10 ${mobile ? 'grid-cols-5' : 'grid-cols-3'}`}>
+            {trackingToggles.map(toggle => (
+                <button
+                    key={toggle.id}
+                    type="button"
+                    onClick={() => {
+                        logger.log('UI', `Tracking ${toggle.id} ${snaps[toggle.id] ? 'off' : 'on'}`);
+                        setSnaps({ ...snaps, [toggle.id]: !snaps[toggle.id] });
+                    }}
+                    title={toggle.title}
+                    style={{ touchAction: 'manipulation' }}
+                    className={`h-6 rounded border text-[8px] uppercase font-bold pointer-events-auto relative z-10 ${snaps[toggle.id] ? 'bg-emerald-800 border-emerald-600 text-emerald-100' : 'bg-slate-800 border-slate-700 text-slate-500 hover:bg-slate-700'}`}
+                >
+                    {toggle.label}
+                </button>
+            ))}
+            <select
+                value={snaps.polarAngle}
+                onChange={(e) => setSnaps({ ...snaps, polarAngle: Number(e.target.value) })}
+                title="Polar tracking increment"
+                className="h-6 rounded border border-slate-700 bg-slate-800 text-[9px] text-slate-300 pointer-events-auto relative z-10 outline-none"
+            >
+                {POLAR_ANGLES.map(angle => <option key={angle} value={angle}>{angle}°</option>)}
+            </select>
+        </div>
+
+        <div className="h-px w-full bg-slate-700 my-1 relative z-10"></div>
+
         {/* EDIT ACTIONS */}
         <div className="grid grid-cols-2 gap-1 w-full relative z-10">
             <ActionButton onClick={undo} disabled={!canUndo} icon="fa-undo" label="Undo" />
@@ -154,6 +282,7 @@ const Toolbar: React.FC<ToolbarProps> = ({
             <ActionButton onClick={() => fileInputRef.current?.click()} icon="fa-folder-open" label="Open" color="text-yellow-400" />
             
             <ActionButton onClick={save} disabled={isSaving} icon={isSaving ? "fa-spinner fa-spin" : "fa-save"} label="Save" color="text-emerald-400" />
+            <ActionButton onClick={onShowSnapshots} icon="fa-clock-rotate-left" label="Recover" color="text-sky-400" />
             
             <div className="relative w-full" ref={menuRef}>
                 <ActionButton 
@@ -164,7 +293,7 @@ const Toolbar: React.FC<ToolbarProps> = ({
                     color="text-orange-400" 
                 />
                 {showExportMenu && (
-                    <div className={`absolute ${mobile ? 'bottom-full right-0 mb-2' : 'left-full bottom-0 ml-2'} w-40 bg-slate-800 border border-slate-600 rounded shadow-2xl z-50 p-1`}>
+                    <div className={`absolute ${mobile ? 'bottom-full right-0 mb-2' : 'left-full bottom-0 ml-2'} w-40 max-h-[70vh] overflow-y-auto bg-slate-800 border border-slate-600 rounded shadow-2xl z-50 p-1`}>
                         <div className="text-[9px] font-bold text-slate-500 px-2 py-1 uppercase tracking-wider">OBJ Format</div>
                         <button onClick={() => handleExportObj(false)} className="block w-full text-left px-3 py-2 text-[10px] text-slate-200 hover:bg-blue-600 rounded transition-colors">
                             <i className="fas fa-cube mr-2 text-slate-400"></i> All Objects (.obj)
@@ -181,7 +310,48 @@ const Toolbar: React.FC<ToolbarProps> = ({
                         <button onClick={() => handleExportStl(true)} className="block w-full text-left px-3 py-2 text-[10px] text-slate-200 hover:bg-blue-600 rounded transition-colors">
                             <i className="fas fa-cubes mr-2 text-slate-400"></i> Selected (.stl)
                         </button>
+                        <button onClick={() => handleExportStlBinary(false)} className="block w-full text-left px-3 py-2 text-[10px] text-slate-200 hover:bg-blue-600 rounded transition-colors">
+                            <i className="fas fa-cube mr-2 text-slate-400"></i> All, Binary (.stl)
+                        </button>
+                        <button onClick={() => handleExportStlBinary(true)} className="block w-full text-left px-3 py-2 text-[10px] text-slate-200 hover:bg-blue-600 rounded transition-colors">
+                            <i className="fas fa-cubes mr-2 text-slate-400"></i> Selected, Binary (.stl)
+                        </button>
+
+                        <div className="h-px bg-slate-700 my-1"></div>
+                        <div className="text-[9px] font-bold text-slate-500 px-2 py-1 uppercase tracking-wider">glTF Scene</div>
+                        <button onClick={() => handleExportGltf(false)} className="block w-full text-left px-3 py-2 text-[10px] text-slate-200 hover:bg-blue-600 rounded transition-colors">
+                            <i className="fas fa-file-code mr-2 text-slate-400"></i> glTF (.gltf)
+                        </button>
+                        <button onClick={() => handleExportGltf(true)} className="block w-full text-left px-3 py-2 text-[10px] text-slate-200 hover:bg-blue-600 rounded transition-colors">
+                            <i className="fas fa-box mr-2 text-slate-400"></i> Binary glTF (.glb)
+                        </button>
+
+                        <div className="h-px bg-slate-700 my-1"></div>
+                        <div className="text-[9px] font-bold text-slate-500 px-2 py-1 uppercase tracking-wider">3MF Print</div>
+                        <button onClick={() => handleExport3mf(false)} className="block w-full text-left px-3 py-2 text-[10px] text-slate-200 hover:bg-blue-600 rounded transition-colors">
+                            <i className="fas fa-print mr-2 text-slate-400"></i> All Objects (.3mf)
+                        </button>
+                        <button onClick={() => handleExport3mf(true)} className="block w-full text-left px-3 py-2 text-[10px] text-slate-200 hover:bg-blue-600 rounded transition-colors">
+                            <i className="fas fa-cubes mr-2 text-slate-400"></i> Selected (.3mf)
+                        </button>
                         
+                        <div className="h-px bg-slate-700 my-1"></div>
+                        <div className="text-[9px] font-bold text-slate-500 px-2 py-1 uppercase tracking-wider">DXF Drawing</div>
+                        <button onClick={() => handleExportDxf(false)} className="block w-full text-left px-3 py-2 text-[10px] text-slate-200 hover:bg-blue-600 rounded transition-colors">
+                            <i className="fas fa-drafting-compass mr-2 text-slate-400"></i> All Objects (.dxf)
+                        </button>
+                        <button onClick={() => handleExportDxf(true)} className="block w-full text-left px-3 py-2 text-[10px] text-slate-200 hover:bg-blue-600 rounded transition-colors">
+                            <i className="fas fa-vector-square mr-2 text-slate-400"></i> Selected (.dxf)
+                        </button>
+
+                        <div className="h-px bg-slate-700 my-1"></div>
+                        <div className="text-[9px] font-bold text-slate-500 px-2 py-1 uppercase tracking-wider">SVG Vector</div>
+                        {(['top', 'front', 'right'] as ViewType[]).map(v => (
+                            <button key={v} onClick={() => handleExportSvg(v)} className="block w-full text-left px-3 py-2 text-[10px] text-slate-200 hover:bg-blue-600 rounded transition-colors">
+                                <i className="fas fa-bezier-curve mr-2 text-slate-400"></i> <span className="capitalize">{v}</span> View (.svg)
+                            </button>
+                        ))}
+
                         <div className="h-px bg-slate-700 my-1"></div>
                         <div className="text-[9px] font-bold text-slate-500 px-2 py-1 uppercase tracking-wider">Image</div>
                         <button onClick={handleExportImage} className="block w-full text-left px-3 py-2 text-[10px] text-slate-200 hover:bg-blue-600 rounded transition-colors">
@@ -199,7 +369,7 @@ const Toolbar: React.FC<ToolbarProps> = ({
              <span className="text-[9px] font-bold uppercase text-pink-300">Donate</span>
         </a>
 
-        <input type="file" ref={fileInputRef} className="hidden" accept=".json" onChange={handleFileChange} />
+        <input type="file" ref={fileInputRef} className="hidden" accept=".json,.dxf,.svg,.stl,.obj" onChange={handleFileChange} />
       </div>
   );
 
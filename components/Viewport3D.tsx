@@ -2,9 +2,10 @@
 import React, { useEffect, useRef, useImperativeHandle, forwardRef } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
-import { Entity, Layer, RectEntity, CircleEntity, LineEntity, PolygonEntity, LightEntity, SphereEntity } from '../types';
-import { TEXTURES } from '../constants';
+import { Entity, Layer, LineEntity, LightEntity } from '../types';
 import { logger } from '../utils/debug';
+import { generateEntityGeometry, generateSolidGeometry, prepareForRender, createEntityMaterial } from '../utils/mesh';
+import { isDrafting } from '../utils/geometry';
 
 interface Viewport3DProps {
   entities: Entity[];
@@ -28,8 +29,6 @@ const Viewport3D = forwardRef<Viewport3DHandle, Viewport3DProps>(({ entities, la
   const dirLightRef = useRef<THREE.DirectionalLight | null>(null);
   const gridRef = useRef<THREE.GridHelper | null>(null);
 
-  const textureCache = useRef<Map<string, THREE.Texture>>(new Map());
-
   useImperativeHandle(ref, () => ({
       triggerScreenshot: () => {
           try {
@@ -170,115 +169,6 @@ const Viewport3D = forwardRef<Viewport3DHandle, Viewport3DProps>(({ entities, la
       }
   }, [ambientIntensity, showGrid]);
 
-  // --- Procedural Texture Generator ---
-  const getProceduralTexture = (type: string): THREE.Texture | null => {
-      if(textureCache.current.has(type)) return textureCache.current.get(type)!;
-      
-      const canvas = document.createElement('canvas');
-      canvas.width = 512;
-      canvas.height = 512;
-      const ctx = canvas.getContext('2d');
-      if(!ctx) return null;
-
-      if(type === 'wood') {
-          ctx.fillStyle = '#8b5a2b';
-          ctx.fillRect(0,0,512,512);
-          ctx.strokeStyle = '#654321';
-          for(let i=0; i<60; i++) {
-               ctx.lineWidth = 1 + Math.random() * 4;
-               ctx.beginPath();
-               ctx.moveTo(0, Math.random() * 512);
-               ctx.lineTo(512, Math.random() * 512);
-               ctx.stroke();
-          }
-      } else if (type === 'brick') {
-          ctx.fillStyle = '#9CA3AF'; // mortar
-          ctx.fillRect(0,0,512,512);
-          ctx.fillStyle = '#7f2e1d'; // brick
-          const w = 100; const h = 50;
-          for(let y=0; y<512; y+=60) {
-              const offset = (y/60)%2 === 0 ? 0 : 50;
-              for(let x=-50; x<512; x+=110) {
-                  ctx.fillRect(x+offset, y, w, h);
-                  // Add noise to brick
-                  ctx.fillStyle = 'rgba(0,0,0,0.1)';
-                  ctx.fillRect(x+offset + Math.random()*50, y+Math.random()*20, 10, 10);
-                  ctx.fillStyle = '#7f2e1d';
-              }
-          }
-      } else if (type === 'concrete') {
-          ctx.fillStyle = '#909090';
-          ctx.fillRect(0,0,512,512);
-          for(let i=0; i<10000; i++) {
-              ctx.fillStyle = Math.random() > 0.5 ? '#A0A0A0' : '#707070';
-              ctx.fillRect(Math.random()*512, Math.random()*512, 2, 2);
-          }
-      } else if (type === 'metal') {
-           const grad = ctx.createLinearGradient(0,0,512,512);
-           grad.addColorStop(0, '#cfcfcf');
-           grad.addColorStop(0.5, '#ffffff');
-           grad.addColorStop(1, '#cfcfcf');
-           ctx.fillStyle = grad;
-           ctx.fillRect(0,0,512,512);
-           ctx.strokeStyle = 'rgba(255,255,255,0.5)';
-           for(let i=0; i<20; i++) {
-               ctx.beginPath();
-               ctx.moveTo(0, i*25);
-               ctx.lineTo(512, i*25+50);
-               ctx.stroke();
-           }
-      } else if (type === 'checkered') {
-           ctx.fillStyle = '#ffffff';
-           ctx.fillRect(0,0,512,512);
-           ctx.fillStyle = '#202020';
-           for(let y=0; y<512; y+=64) {
-               for(let x=0; x<512; x+=64) {
-                   if (((x/64) + (y/64)) % 2 === 0) ctx.fillRect(x,y,64,64);
-               }
-           }
-      }
-
-      const tex = new THREE.CanvasTexture(canvas);
-      tex.colorSpace = THREE.SRGBColorSpace;
-      tex.wrapS = THREE.RepeatWrapping;
-      tex.wrapT = THREE.RepeatWrapping;
-      textureCache.current.set(type, tex);
-      return tex;
-  };
-
-  // --- Box UV Mapping Helper ---
-  const applyBoxUV = (geometry: THREE.BufferGeometry, scale: number = 0.02) => {
-      geometry.computeBoundingBox();
-      const pos = geometry.attributes.position;
-      if(!geometry.attributes.normal) geometry.computeVertexNormals();
-      const norm = geometry.attributes.normal;
-      
-      const uvs = new Float32Array(pos.count * 2);
-      
-      for(let i=0; i<pos.count; i++) {
-          const x = pos.getX(i);
-          const y = pos.getY(i);
-          const z = pos.getZ(i);
-          
-          const nx = Math.abs(norm.getX(i));
-          const ny = Math.abs(norm.getY(i));
-          const nz = Math.abs(norm.getZ(i));
-          
-          if (nx > ny && nx > nz) {
-              uvs[i*2] = z * scale;
-              uvs[i*2+1] = y * scale;
-          } else if (ny > nx && ny > nz) {
-              uvs[i*2] = x * scale;
-              uvs[i*2+1] = z * scale;
-          } else {
-              uvs[i*2] = x * scale;
-              uvs[i*2+1] = y * scale;
-          }
-      }
-      geometry.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
-      geometry.attributes.uv.needsUpdate = true;
-  };
-
   useEffect(() => {
     const scene = sceneRef.current;
     if (!scene) return;
@@ -304,6 +194,7 @@ const Viewport3D = forwardRef<Viewport3DHandle, Viewport3DProps>(({ entities, la
       try {
           const layer = layers.find(l => l.id === entity.layerId);
           if (!layer || !layer.visible) return;
+          if (isDrafting(entity)) return; // Annotations and hatches belong to the 2D views
 
           const elevation = entity.elevation || 0;
 
@@ -348,110 +239,34 @@ const Viewport3D = forwardRef<Viewport3DHandle, Viewport3DProps>(({ entities, la
                return;
           }
 
-          const hasTex = entity.texture && entity.texture !== 'none';
-          const tex = hasTex ? getProceduralTexture(entity.texture!) : null;
-          const baseColor = hasTex ? 0xffffff : (entity.color || layer.color);
           const isCut = entity.operation === 'cut';
-
-          const material = new THREE.MeshStandardMaterial({ 
-              color: isCut ? 0xff0000 : new THREE.Color(baseColor), 
-              map: tex,
-              metalness: entity.metalness ?? 0.1, 
-              roughness: entity.roughness ?? 0.5,
-              side: THREE.DoubleSide,
-              transparent: isCut,
-              opacity: isCut ? 0.3 : 1.0,
-              wireframe: isCut
-          });
+          const material = createEntityMaterial(entity, layer.color);
+          if (isCut) {
+              material.color.set(0xff0000);
+              material.map = null;
+              material.transparent = true;
+              material.opacity = 0.3;
+              material.wireframe = true;
+          }
 
           let mesh: THREE.Mesh | THREE.Line | null = null;
-          let shape: THREE.Shape | null = null;
-
-          if (entity.type === 'sphere') {
-              const sph = entity as SphereEntity;
-              const geo = new THREE.SphereGeometry(sph.radius, 64, 64);
-              if (tex) applyBoxUV(geo, 0.02);
-              mesh = new THREE.Mesh(geo, material);
-              mesh.position.set(sph.center.x, elevation + sph.radius, sph.center.y); 
-          } else {
-              // Extrusions
-              if (entity.type === 'rectangle') {
-                const rect = entity as RectEntity;
-                shape = new THREE.Shape();
-                shape.moveTo(rect.start.x, -rect.start.y);
-                shape.lineTo(rect.start.x + rect.width, -rect.start.y);
-                shape.lineTo(rect.start.x + rect.width, -(rect.start.y + rect.height));
-                shape.lineTo(rect.start.x, -(rect.start.y + rect.height));
-                shape.lineTo(rect.start.x, -rect.start.y);
-              } else if (entity.type === 'circle') {
-                const circle = entity as CircleEntity;
-                shape = new THREE.Shape();
-                shape.absarc(circle.center.x, -circle.center.y, circle.radius, 0, Math.PI * 2, false);
-              } else if (entity.type === 'polygon') {
-                  const poly = entity as PolygonEntity;
-                  if(poly.points.length > 2) {
-                    shape = new THREE.Shape();
-                    shape.moveTo(poly.points[0].x, -poly.points[0].y);
-                    for(let i=1; i<poly.points.length; i++) {
-                        shape.lineTo(poly.points[i].x, -poly.points[i].y);
-                    }
-                    shape.closePath();
-
-                    if (poly.holes && poly.holes.length > 0) {
-                        poly.holes.forEach(holePath => {
-                            if (holePath.length > 2) {
-                                const holeShape = new THREE.Path();
-                                holeShape.moveTo(holePath[0].x, -holePath[0].y);
-                                for(let i=1; i<holePath.length; i++) {
-                                    holeShape.lineTo(holePath[i].x, -holePath[i].y);
-                                }
-                                holeShape.closePath();
-                                shape!.holes.push(holeShape);
-                            }
-                        });
-                    }
-                  }
-              }
-
-              if (shape) {
-                  const finalDepth = Math.max(0.1, entity.extrusionDepth || 0);
-                  const geometry = new THREE.ExtrudeGeometry(shape, { 
-                      depth: finalDepth, 
-                      bevelEnabled: false,
-                      curveSegments: 24 // Smoother circles/cuts
-                  });
-                  
-                  if (tex) applyBoxUV(geometry, 0.02);
-
-                  mesh = new THREE.Mesh(geometry, material);
-                  mesh.rotation.x = -Math.PI / 2;
-                  mesh.position.y = elevation;
-                  mesh.position.y += index * 0.005; // Z-fighting fix
-              } else if (entity.type === 'line') {
-                  const lineEnt = entity as LineEntity;
-                  const depth = entity.extrusionDepth || 0;
-                  if (depth > 0) {
-                      const dx = lineEnt.end.x - lineEnt.start.x;
-                      const dy = lineEnt.end.y - lineEnt.start.y;
-                      const len = Math.sqrt(dx*dx + dy*dy);
-                      const angle = Math.atan2(dy, dx);
-                      const geometry = new THREE.BoxGeometry(len, depth, 1);
-                      if (tex) applyBoxUV(geometry, 0.02);
-                      mesh = new THREE.Mesh(geometry, material);
-                      const midX = (lineEnt.start.x + lineEnt.end.x) / 2;
-                      const midY = (lineEnt.start.y + lineEnt.end.y) / 2;
-                      mesh.position.set(midX, elevation + depth/2, midY);
-                      mesh.rotation.y = -angle; 
-                  } else {
-                      const points = [
-                          new THREE.Vector3(lineEnt.start.x, elevation, lineEnt.start.y),
-                          new THREE.Vector3(lineEnt.end.x, elevation, lineEnt.end.y)
-                      ];
-                      const geo = new THREE.BufferGeometry().setFromPoints(points);
-                      const lineMat = new THREE.LineBasicMaterial({ color: baseColor, linewidth: 2 });
-                      mesh = new THREE.Line(geo, lineMat);
-                  }
-              }
+          // Solids come back with overlapping cuts already subtracted; cuts keep their own outline
+          const solid = isCut ? generateEntityGeometry(entity) : generateSolidGeometry(entity, entities);
+          const geometry = solid ? prepareForRender(solid, entity) : null;
+
+          if (geometry) {
+              mesh = new THREE.Mesh(geometry, material);
+              if (entity.type !== 'sphere') mesh.position.y = index * 0.005; // Z-fighting fix
+          } else if (entity.type === 'line' || entity.type === 'polyline') {
+              // Zero-depth lines and polylines have no solid, draw them as a plain line on the floor
+              const path = entity.type === 'line'
+                  ? [(entity as LineEntity).start, (entity as LineEntity).end]
+                  : entity.points;
+              const points = path.map(p => new THREE.Vector3(p.x, elevation, p.y));
+              const geo = new THREE.BufferGeometry().setFromPoints(points);
+              const lineMat = new THREE.LineBasicMaterial({ color: entity.color || layer.color, linewidth: 2 });
+              material.dispose();
+              mesh = new THREE.Line(geo, lineMat);
           }
 
           if (mesh) {
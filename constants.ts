@@ -1,10 +1,42 @@
+import { ProjectSettings } from './types';
 
-export const GRID_SIZE = 10; // units
+export const GRID_SIZE = 10; // Default grid spacing, in drawing units
 export const GRID_COLOR_MAJOR = '#334155';
 export const GRID_COLOR_MINOR = '#1e293b';
 export const BACKGROUND_COLOR = '#0f172a';
 export const SELECTION_COLOR = '#3b82f6';
 export const HIGHLIGHT_COLOR = '#60a5fa';
+export const SNAP_COLOR = '#22c55e';
+export const SNAP_TOLERANCE = 10; // screen pixels
+
+export const DEFAULT_SNAPS = {
+  endpoint: true,
+  midpoint: true,
+  center: true,
+  quadrant: true,
+  intersection: true,
+  nearest: false,
+  perpendicular: false,
+  tangent: false,
+  grid: true,
+  ortho: false,
+  polar: true,
+  polarAngle: 45,
+};
+
+export const POLAR_ANGLES = [15, 30, 45, 90];
+
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+  units: 'mm',
+  gridSpacing: GRID_SIZE,
+  gridMajor: 5,
+  meshUnits: 'mm',
+};
+
+export const AUTOSAVE_DELAY = 2000; // ms after the last change
+export const AUTOSAVE_INTERVAL = 30000; // ms between checks for changes the delay has not caught yet
+export const AUTOSAVE_SNAPSHOT_SPACING = 2 * 60 * 1000; // ms before edits start a new snapshot instead of updating the latest
+export const AUTOSAVE_SNAPSHOT_LIMIT = 15;
 
 export const DEFAULT_LAYERS = [
   { id: 'layer-0', name: 'Default', color: '#ffffff', visible: true, locked: false },
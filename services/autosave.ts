@@ -0,0 +1,92 @@
+import { AutosaveSnapshot } from '../types';
+import { AUTOSAVE_SNAPSHOT_LIMIT, AUTOSAVE_SNAPSHOT_SPACING } from '../constants';
+import { logger } from '../utils/debug';
+
+const DB_NAME = 'thoughtlesscad_autosave';
+const DB_VERSION = 1;
+const STORE = 'snapshots';
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+// Newest first; ids are assigned in insertion order
+const byNewest = (snapshots: AutosaveSnapshot[]) => [...snapshots].sort((a, b) => (b.id ?? 0) - (a.id ?? 0));
+
+class AutosaveStore {
+  private db: Promise<IDBDatabase> | null = null;
+  // This tab's latest snapshot. Snapshots left by earlier sessions are never overwritten.
+  private head: { id: number, createdAt: number } | null = null;
+  // Saves run one at a time so two quick ones cannot both start a new snapshot
+  private pending: Promise<boolean> = Promise.resolve(true);
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+        const req = indexedDB.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = () => req.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+    }
+    return this.db;
+  }
+
+  async list(): Promise<AutosaveSnapshot[]> {
+    await this.pending;
+    try {
+      const db = await this.open();
+      return byNewest(await request(db.transaction(STORE).objectStore(STORE).getAll()));
+    } catch (e: any) {
+      logger.warn('AUTOSAVE', 'Could not read snapshots', e?.message);
+      return [];
+    }
+  }
+
+  // Saves within the spacing update this tab's latest snapshot, so the kept ones reach further back
+  // than a few minutes of editing. The oldest beyond the limit are dropped.
+  save(snapshot: AutosaveSnapshot): Promise<boolean> {
+    this.pending = this.pending.then(() => this.write(snapshot));
+    return this.pending;
+  }
+
+  private async write(snapshot: AutosaveSnapshot): Promise<boolean> {
+    try {
+      const db = await this.open();
+      const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+      const { id: _, ...record } = snapshot;
+      if (this.head && snapshot.savedAt - this.head.createdAt < AUTOSAVE_SNAPSHOT_SPACING) {
+        await request(store.put({ ...record, id: this.head.id }));
+      } else {
+        const id = await request(store.add(record)) as number;
+        this.head = { id, createdAt: snapshot.savedAt };
+      }
+      const keys = await request(store.getAllKeys()) as number[];
+      const stale = keys.sort((a, b) => b - a).slice(AUTOSAVE_SNAPSHOT_LIMIT);
+      await Promise.all(stale.map(key => request(store.delete(key))));
+      return true;
+    } catch (e: any) {
+      logger.error('AUTOSAVE', 'Snapshot failed', e?.message);
+      return false;
+    }
+  }
+
+  // Keeps the snapshot in the list but stops it prompting for recovery
+  async dismiss(id: number): Promise<void> {
+    try {
+      const db = await this.open();
+      const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+      const snapshot = await request(store.get(id)) as AutosaveSnapshot | undefined;
+      if (snapshot) await request(store.put({ ...snapshot, unsaved: false }));
+    } catch (e: any) {
+      logger.warn('AUTOSAVE', 'Could not update snapshot', e?.message);
+    }
+  }
+}
+
+export const autosave = new AutosaveStore();
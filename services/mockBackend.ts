@@ -1,5 +1,5 @@
 import { ProjectData, User, Entity, Layer } from '../types';
-import { DEFAULT_LAYERS, MOCK_USER } from '../constants';
+import { DEFAULT_LAYERS, DEFAULT_PROJECT_SETTINGS, MOCK_USER } from '../constants';
 
 // Simulating a backend delay
 const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
@@ -65,6 +65,7 @@ class MockBackend {
       name,
       entities: [],
       layers: DEFAULT_LAYERS,
+      settings: DEFAULT_PROJECT_SETTINGS,
       lastModified: Date.now(),
     };
     this.projects.push(newProject);
@@ -1,4 +1,4 @@
-export type ToolType = 'select' | 'pan' | 'line' | 'rectangle' | 'circle' | 'polygon' | 'sphere' | 'light';
+export type ToolType = 'select' | 'pan' | 'line' | 'rectangle' | 'circle' | 'arc' | 'arc-center' | 'ellipse' | 'spline' | 'polyline' | 'polygon' | 'sphere' | 'light' | 'fillet' | 'chamfer' | 'offset' | 'trim' | 'extend' | 'split' | 'move' | 'copy' | 'rotate' | 'scale' | 'mirror' | 'array' | 'dimension' | 'leader' | 'text' | 'hatch';
 
 export type ViewType = 'top' | 'front' | 'right';
 
@@ -15,7 +15,13 @@ export interface Layer {
   locked: boolean;
 }
 
-export type EntityType = 'line' | 'rectangle' | 'circle' | 'polygon' | 'sphere' | 'light';
+export type EntityType = 'line' | 'rectangle' | 'circle' | 'arc' | 'ellipse' | 'spline' | 'polyline' | 'polygon' | 'sphere' | 'light' | 'mesh' | 'dimension' | 'leader' | 'text' | 'hatch';
+
+// Repeats of one entity. Polar angles are radians (the whole fan); a full turn spaces the copies evenly around it
+export type ArrayParams =
+  | { kind: 'rectangular'; rows: number; columns: number; rowSpacing: number; columnSpacing: number }
+  | { kind: 'polar'; count: number; angle: number; center: Point; rotateItems: boolean }
+  | { kind: 'path'; count: number; pathId: string; alignToPath: boolean };
 
 export interface BaseEntity {
   id: string;
@@ -32,6 +38,9 @@ export interface BaseEntity {
   metalness: number; // 0 to 1
   texture?: string; // Texture ID or URL
   operation: 'solid' | 'cut'; // Boolean ops
+  locked?: boolean; // Selectable but cannot be moved, edited or deleted
+  array?: ArrayParams; // Associative array source: the copies are regenerated whenever this entity or its parameters change
+  arrayOf?: string; // Id of the array source this copy was generated from
 }
 
 export interface LineEntity extends BaseEntity {
@@ -45,6 +54,7 @@ export interface RectEntity extends BaseEntity {
   start: Point; // Top-left
   width: number;
   height: number;
+  rotation?: number; // Radians about the centre; start/width/height describe the box before rotating
 }
 
 export interface CircleEntity extends BaseEntity {
@@ -53,6 +63,37 @@ export interface CircleEntity extends BaseEntity {
   radius: number;
 }
 
+// Open curves (arcs, open splines) are drawn as strokes; as solids and boolean operands
+// they are closed by the straight chord between their ends.
+export interface ArcEntity extends BaseEntity {
+  type: 'arc';
+  center: Point;
+  radius: number;
+  startAngle: number; // Radians from +X towards +Y
+  endAngle: number; // The arc sweeps from startAngle to endAngle with increasing angle
+}
+
+export interface EllipseEntity extends BaseEntity {
+  type: 'ellipse';
+  center: Point;
+  radiusX: number;
+  radiusY: number;
+  rotation: number; // Radians
+}
+
+export interface SplineEntity extends BaseEntity {
+  type: 'spline';
+  points: Point[]; // Picked points; the curve passes through all of them (Catmull-Rom)
+  closed: boolean;
+}
+
+// Open multi-segment path; as a solid it is a wall of the given thickness centred on the path
+export interface PolylineEntity extends BaseEntity {
+  type: 'polyline';
+  points: Point[];
+  thickness: number;
+}
+
 export interface SphereEntity extends BaseEntity {
   type: 'sphere';
   center: Point;
@@ -74,7 +115,85 @@ export interface LightEntity extends BaseEntity {
     coneAngle?: number;
 }
 
-export type Entity = LineEntity | RectEntity | CircleEntity | PolygonEntity | SphereEntity | LightEntity;
+export interface MeshEntity extends BaseEntity {
+    type: 'mesh';
+    center: Point; // Footprint centre in the drawing plane (Z comes from elevation)
+    vertices: number[]; // Triangle soup in 3D world axes (x, up, z), relative to center and elevation
+    outlines: Record<ViewType, Point[]>; // Projected silhouettes per view, relative to center and elevation
+    sourceFile?: string;
+}
+
+export type TextFont = 'helvetiker' | 'helvetiker-bold' | 'optimer' | 'optimer-bold' | 'mono';
+
+// Extruded, text is a solid (or a cut, for engraving) made of its glyph outlines
+export interface TextEntity extends BaseEntity {
+    type: 'text';
+    position: Point; // On the baseline of the first line, at the aligned edge
+    text: string; // Lines are separated by "\n"
+    font: TextFont;
+    size: number; // Font height in drawing units
+    align: 'left' | 'center' | 'right';
+    rotation: number; // Radians about the position
+}
+
+// A point an annotation measures from. When it was picked on another entity, `ref` names that
+// entity and which of its reference points it was, and the point follows the entity's edits.
+export interface AnnotationAnchor {
+    point: Point;
+    ref?: { entityId: string; key: string };
+}
+
+export type DimensionKind = 'aligned' | 'horizontal' | 'vertical' | 'radial' | 'diameter' | 'angular';
+
+// Annotations lie in the plane of the view they were drawn in, show only there and have no solid
+export interface DimensionEntity extends BaseEntity {
+    type: 'dimension';
+    kind: DimensionKind;
+    view: ViewType;
+    anchors: AnnotationAnchor[]; // Linear: the two measured points. Angular: the vertex, then one point on each side. Radial/diameter: the centre
+    radius?: number; // Radial/diameter; follows the circle or arc the centre is attached to
+    position: Point; // A point on the dimension line (linear) or arc (angular), or the text position (radial/diameter)
+    textHeight: number;
+    text?: string; // Replaces the measurement; "<>" in it stands for the measured value
+}
+
+export interface LeaderEntity extends BaseEntity {
+    type: 'leader';
+    view: ViewType;
+    anchor: AnnotationAnchor; // The arrowhead
+    points: Point[]; // Bends after the arrowhead; the text sits at the last one
+    text: string;
+    textHeight: number;
+}
+
+export type AnnotationEntity = DimensionEntity | LeaderEntity;
+
+export type HatchPattern = 'solid' | 'ansi31' | 'ansi32' | 'ansi33' | 'ansi37' | 'net';
+
+// A filled region in the plane of one view, like an annotation. The boundary is copied from the
+// geometry it was picked in and does not follow later edits to it.
+export interface HatchEntity extends BaseEntity {
+    type: 'hatch';
+    view: ViewType;
+    points: Point[];
+    holes?: Point[][];
+    pattern: HatchPattern;
+    angle: number; // Radians, added to the pattern's own line angles
+    scale: number; // Repeat distance of the pattern in drawing units
+}
+
+export type Entity = LineEntity | RectEntity | CircleEntity | ArcEntity | EllipseEntity | SplineEntity | PolylineEntity | PolygonEntity | SphereEntity | LightEntity | MeshEntity | TextEntity | DimensionEntity | LeaderEntity | HatchEntity;
+
+export type ObjectSnapMode = 'endpoint' | 'midpoint' | 'center' | 'quadrant' | 'intersection' | 'nearest' | 'perpendicular' | 'tangent';
+
+// Which object snaps are on; the grid applies wherever no object snap is found.
+// Ortho and polar tracking constrain the point being drawn relative to the previous one.
+export type SnapSettings = Record<ObjectSnapMode, boolean> & {
+  grid: boolean;
+  ortho: boolean; // Shift inverts it while held
+  polar: boolean;
+  polarAngle: number; // Tracking increment in degrees
+};
 
 export interface ViewState {
   scale: number;
@@ -82,14 +201,36 @@ export interface ViewState {
   offsetY: number;
 }
 
+export type LengthUnit = 'mm' | 'cm' | 'm' | 'in' | 'ft';
+
+export interface ProjectSettings {
+  units: LengthUnit; // What one drawing unit is
+  gridSpacing: number; // Drawing units between minor grid lines; also the grid snap step
+  gridMajor: number; // Every nth grid line is a major one
+  meshUnits: LengthUnit; // STL/OBJ files carry no units; they are read and written in these
+}
+
 export interface ProjectData {
   id: string;
   name: string;
+  schemaVersion?: number; // Absent from files saved before versioning, which count as version 0
   entities: Entity[];
   layers: Layer[];
+  settings?: ProjectSettings; // Absent from files saved before units existed, which were millimetres
   lastModified: number;
 }
 
+// A copy of the workspace kept in the browser, so a closed tab or crash does not lose the drawing
+export interface AutosaveSnapshot {
+  id?: number; // Assigned by the store
+  savedAt: number;
+  unsaved: boolean; // Holds changes that were never saved to or loaded from a file
+  project: ProjectData;
+  views: Record<ViewType, ViewState>;
+  viewMode: 'quad' | 'single';
+  activeSingleView: ViewType;
+}
+
 export interface User {
   id: string;
   username: string;
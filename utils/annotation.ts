@@ -0,0 +1,95 @@
+import { Entity, Point, ViewType, AnnotationAnchor, AnnotationEntity } from '../types';
+import { mapEntityToView, isAnnotation, isDrafting, getRectCorners, getRectCenter, getArcEndpoints, getArcSweep, pointOnCircle, distance } from './geometry';
+
+// Dimensions and leaders attach to the points they were picked on. Each entity offers named
+// reference points in a view; an anchor remembers the entity and the name, and follows them.
+
+const ATTACH_TOLERANCE = 1e-6;
+
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+// The same spots the object snaps offer, so a snapped pick lands exactly on one of them
+const getReferencePoints = (entity: Entity): { key: string, point: Point }[] => {
+    const numbered = (prefix: string, points: Point[]) => points.map((point, i) => ({ key: `${prefix}${i}`, point }));
+    switch (entity.type) {
+        case 'line':
+            return [{ key: 'start', point: entity.start }, { key: 'end', point: entity.end }, { key: 'mid', point: midpoint(entity.start, entity.end) }];
+        case 'rectangle': {
+            const corners = getRectCorners(entity);
+            return [
+                ...numbered('corner', corners),
+                ...numbered('side', corners.map((c, i) => midpoint(c, corners[(i + 1) % 4]))),
+                { key: 'center', point: getRectCenter(entity) }
+            ];
+        }
+        case 'circle':
+        case 'sphere':
+            return [{ key: 'center', point: entity.center }, ...numbered('quadrant', [0, 1, 2, 3].map(i => pointOnCircle(entity.center, entity.radius, i * Math.PI / 2)))];
+        case 'arc': {
+            const { start, end } = getArcEndpoints(entity);
+            const mid = pointOnCircle(entity.center, entity.radius, entity.startAngle + getArcSweep(entity.startAngle, entity.endAngle) / 2);
+            return [{ key: 'center', point: entity.center }, { key: 'start', point: start }, { key: 'end', point: end }, { key: 'mid', point: mid }];
+        }
+        case 'ellipse':
+            return [{ key: 'center', point: entity.center }];
+        case 'polygon':
+            return [...numbered('vertex', entity.points), ...(entity.holes || []).flatMap((h, i) => numbered(`hole${i}-`, h))];
+        case 'polyline':
+        case 'spline':
+            return numbered('vertex', entity.points);
+        case 'light':
+        case 'text':
+            return [{ key: 'position', point: entity.position }];
+        default:
+            return [];
+    }
+};
+
+const findReference = (entity: Entity, view: ViewType, key: string) => {
+    const mapped = mapEntityToView(entity, view);
+    return mapped ? getReferencePoints(mapped).find(r => r.key === key) : undefined;
+};
+
+// An anchor at p, attached to the first visible entity with a reference point there
+export const findAnchor = (p: Point, entities: Entity[], view: ViewType): AnnotationAnchor => {
+    for (const entity of entities) {
+        if (isDrafting(entity)) continue;
+        const mapped = mapEntityToView(entity, view);
+        if (!mapped) continue;
+        const hit = getReferencePoints(mapped).find(r => distance(r.point, p) < ATTACH_TOLERANCE);
+        if (hit) return { point: hit.point, ref: { entityId: entity.id, key: hit.key } };
+    }
+    return { point: p };
+};
+
+// The radius a radial or diameter dimension measures, from the entity its centre is attached to
+export const getAttachedRadius = (entity: Entity, view: ViewType): number | undefined => {
+    const mapped = mapEntityToView(entity, view);
+    return mapped && (mapped.type === 'circle' || mapped.type === 'sphere' || mapped.type === 'arc') ? mapped.radius : undefined;
+};
+
+const getAnchors = (annotation: AnnotationEntity) => annotation.type === 'leader' ? [annotation.anchor] : annotation.anchors;
+
+// Moves anchors whose entity changed. Anchors whose entity or reference point is gone
+// keep their last position and become plain points.
+export const syncAnnotations = (entities: Entity[], changedIds: Set<string>): Entity[] => {
+    const byId = new Map(entities.map(e => [e.id, e]));
+    const needsSync = (a: AnnotationAnchor) => !!a.ref && (changedIds.has(a.ref.entityId) || !byId.has(a.ref.entityId));
+    if (!entities.some(e => isAnnotation(e) && getAnchors(e).some(needsSync))) return entities;
+
+    return entities.map(e => {
+        if (!isAnnotation(e) || !getAnchors(e).some(needsSync)) return e;
+        const follow = (a: AnnotationAnchor): AnnotationAnchor => {
+            if (!needsSync(a)) return a;
+            const target = byId.get(a.ref!.entityId);
+            const ref = target && findReference(target, e.view, a.ref!.key);
+            return ref ? { ...a, point: ref.point } : { point: a.point };
+        };
+        if (e.type === 'leader') return { ...e, anchor: follow(e.anchor) };
+        const anchors = e.anchors.map(follow);
+        const centre = anchors[0];
+        const target = centre.ref && byId.get(centre.ref.entityId);
+        const radius = (e.kind === 'radial' || e.kind === 'diameter') && target ? getAttachedRadius(target, e.view) : undefined;
+        return { ...e, anchors, ...(radius !== undefined ? { radius } : {}) };
+    });
+};
@@ -0,0 +1,150 @@
+import { Entity, Point, ArrayParams } from '../types';
+import { generateId, getBounds, sampleArc, sampleEllipse, sampleSpline, getRectCorners } from './geometry';
+import { Matrix, rotationMatrix, translationMatrix, transformEntity } from './transform';
+
+// Rectangular, polar and path arrays. The copies are ordinary entities; an associative
+// source keeps its parameters in `array` and every copy points back through `arrayOf`,
+// so the copies can be thrown away and rebuilt whenever the source changes.
+
+export const MAX_ARRAY_ITEMS = 2000;
+
+// Items per source, the source included
+export const countArrayItems = (params: ArrayParams) => params.kind === 'rectangular' ? params.rows * params.columns : params.count;
+
+// Rotate about a point, then move that point by (dx, dy)
+const rotateAndMove = (p: Point, angle: number, dx: number, dy: number): Matrix => {
+    const m = rotationMatrix(p, angle);
+    return [m[0], m[1], m[2], m[3], m[4] + dx, m[5] + dy];
+};
+
+const getReferencePoint = (entity: Entity): Point => {
+    const b = getBounds(entity);
+    return { x: (b.x1 + b.x2) / 2, y: (b.y1 + b.y2) / 2 };
+};
+
+// Centreline of an entity that copies can follow, and whether it loops back on itself
+export const getArrayPath = (entity: Entity): { points: Point[], closed: boolean } | null => {
+    switch (entity.type) {
+        case 'line': return { points: [entity.start, entity.end], closed: false };
+        case 'polyline': return { points: entity.points, closed: false };
+        case 'arc': return { points: sampleArc(entity), closed: false };
+        case 'spline': return { points: sampleSpline(entity), closed: entity.closed && entity.points.length > 2 };
+        case 'polygon': return { points: entity.points, closed: true };
+        case 'rectangle': return { points: getRectCorners(entity), closed: true };
+        case 'ellipse': return { points: sampleEllipse(entity), closed: true };
+        case 'circle': {
+            const points: Point[] = [];
+            for (let i = 0; i < 64; i++) {
+                const t = i / 64 * Math.PI * 2;
+                points.push({ x: entity.center.x + Math.cos(t) * entity.radius, y: entity.center.y + Math.sin(t) * entity.radius });
+            }
+            return { points, closed: true };
+        }
+        default: return null;
+    }
+};
+
+// Points and directions at equal distances along a path; closed paths do not repeat the start at the end
+const placeAlongPath = (points: Point[], closed: boolean, count: number) => {
+    const pts = closed ? [...points, points[0]] : points;
+    const lengths = [0];
+    for (let i = 1; i < pts.length; i++) {
+        lengths.push(lengths[i - 1] + Math.hypot(pts[i].x - pts[i - 1].x, pts[i].y - pts[i - 1].y));
+    }
+    const total = lengths[lengths.length - 1];
+    const step = closed ? total / count : total / Math.max(1, count - 1);
+    const places: { point: Point, angle: number }[] = [];
+    let seg = 1;
+    for (let i = 0; i < count; i++) {
+        const d = Math.min(total, i * step);
+        while (seg < pts.length - 1 && lengths[seg] < d) seg++;
+        const a = pts[seg - 1], b = pts[seg];
+        const len = lengths[seg] - lengths[seg - 1];
+        const t = len > 0 ? (d - lengths[seg - 1]) / len : 0;
+        places.push({ point: { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t }, angle: Math.atan2(b.y - a.y, b.x - a.x) });
+    }
+    return places;
+};
+
+// One map per copy, not counting the source itself
+const getArrayMatrices = (source: Entity, params: ArrayParams, entities: Entity[]): Matrix[] => {
+    const matrices: Matrix[] = [];
+    if (params.kind === 'rectangular') {
+        for (let r = 0; r < params.rows; r++) {
+            for (let c = 0; c < params.columns; c++) {
+                if (r > 0 || c > 0) matrices.push(translationMatrix(c * params.columnSpacing, r * params.rowSpacing));
+            }
+        }
+    } else if (params.kind === 'polar') {
+        const fullTurn = Math.abs(Math.abs(params.angle) - Math.PI * 2) < 1e-6;
+        const step = params.angle / (fullTurn ? params.count : Math.max(1, params.count - 1));
+        const ref = getReferencePoint(source);
+        for (let i = 1; i < params.count; i++) {
+            const m = rotationMatrix(params.center, step * i);
+            if (params.rotateItems) {
+                matrices.push(m);
+            } else {
+                // Items keep their orientation and only follow the reference point round
+                const x = m[0] * ref.x + m[2] * ref.y + m[4], y = m[1] * ref.x + m[3] * ref.y + m[5];
+                matrices.push(translationMatrix(x - ref.x, y - ref.y));
+            }
+        }
+    } else {
+        const pathEntity = entities.find(e => e.id === params.pathId);
+        const path = pathEntity ? getArrayPath(pathEntity) : null;
+        if (!path || path.points.length < 2) return [];
+        // The source stays put and stands for the first place on the path
+        const places = placeAlongPath(path.points, path.closed, params.count);
+        const first = places[0];
+        places.slice(1).forEach(({ point, angle }) => {
+            const dx = point.x - first.point.x, dy = point.y - first.point.y;
+            matrices.push(params.alignToPath ? rotateAndMove(first.point, angle - first.angle, dx, dy) : translationMatrix(dx, dy));
+        });
+    }
+    return matrices;
+};
+
+// Everything but the source; copies are unselected and only linked back when the array is associative
+export const generateArrayCopies = (source: Entity, params: ArrayParams, entities: Entity[], associative: boolean): Entity[] => {
+    const { array, arrayOf, ...base } = source;
+    return getArrayMatrices(source, params, entities).map(m => ({
+        ...transformEntity(base as Entity, m),
+        id: generateId(),
+        selected: false,
+        isBase: false,
+        ...(associative ? { arrayOf: source.id } : {})
+    } as Entity));
+};
+
+export const withoutArrayLink = (entity: Entity): Entity => {
+    const { array, arrayOf, ...rest } = entity;
+    return rest as Entity;
+};
+
+// Ids of updated entities whose change can move array copies; selecting one does not
+export const getArrayChanges = (before: Entity[], updated: Entity[]): Set<string> => {
+    const old = new Map(before.map(e => [e.id, e]));
+    const strip = ({ selected, isBase, ...rest }: Entity) => JSON.stringify(rest);
+    return new Set(updated.filter(e => !old.has(e.id) || strip(old.get(e.id)!) !== strip(e)).map(e => e.id));
+};
+
+// Rebuilds the copies of every associative source that changed or whose path changed.
+// Copies of a source that was deleted or no longer has parameters stay as plain entities.
+export const syncArrays = (entities: Entity[], changedIds: Set<string>): Entity[] => {
+    const byId = new Map(entities.map(e => [e.id, e]));
+    const stale = new Set(entities
+        .filter(e => e.array && (changedIds.has(e.id) || (e.array.kind === 'path' && changedIds.has(e.array.pathId))))
+        .map(e => e.id));
+    const orphaned = (e: Entity) => e.arrayOf !== undefined && !byId.get(e.arrayOf)?.array;
+    if (stale.size === 0 && !entities.some(orphaned)) return entities;
+
+    const result: Entity[] = [];
+    entities.forEach(e => {
+        if (e.arrayOf !== undefined && stale.has(e.arrayOf)) return;
+        result.push(orphaned(e) ? withoutArrayLink(e) : e);
+    });
+    entities.filter(e => stale.has(e.id)).forEach(source => {
+        result.push(...generateArrayCopies(source, source.array!, entities, true));
+    });
+    return result;
+};
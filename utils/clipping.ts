@@ -0,0 +1,365 @@
+import { Point } from '../types';
+
+// Polygon clipping core used by every 2D boolean.
+//
+// Both operands are turned into one planar graph: coordinates are snapped to a fixed
+// grid, every edge is split at crossings, T-junctions and collinear overlaps (found
+// with an x-sorted sweep), and coincident edges collapse into one. Each graph edge is
+// then classified by the winding number of each operand on its left and right side,
+// so shared boundaries, touching vertices and nested holes need no special cases.
+
+// Precision grid in drawing units; results are exact multiples of it
+const SNAP = 1e-3;
+// Vertices closer than this to an edge (in grid units) are treated as lying on it
+const ON_EDGE_TOLERANCE = 0.5;
+const MAX_SNAP_PASSES = 8;
+const MAX_EDGES = 5000;
+
+export type BooleanOp = 'union' | 'subtract' | 'intersect' | 'xor';
+
+export interface BooleanShape {
+    points: Point[];
+    holes: Point[][];
+}
+
+export type ClipErrorCode = 'INVALID_INPUT' | 'TOO_COMPLEX' | 'OPEN_RESULT' | 'INTERNAL';
+
+export class ClipError extends Error {
+    code: ClipErrorCode;
+    details?: Record<string, unknown>;
+
+    constructor(code: ClipErrorCode, message: string, details?: Record<string, unknown>) {
+        super(message);
+        this.name = 'ClipError';
+        this.code = code;
+        this.details = details;
+    }
+}
+
+// Grid vertex (integer coordinates)
+interface GridPoint { x: number; y: number; }
+
+interface Edge { a: GridPoint; b: GridPoint; operand: number; }
+
+const keyOf = (p: GridPoint) => `${p.x},${p.y}`;
+const samePoint = (p: GridPoint, q: GridPoint) => p.x === q.x && p.y === q.y;
+const cross = (ax: number, ay: number, bx: number, by: number) => ax * by - ay * bx;
+
+// Standard (counter-clockwise positive) signed area
+const ringArea = (ring: { x: number, y: number }[]) => {
+    let area = 0;
+    for (let i = 0; i < ring.length; i++) {
+        const j = (i + 1) % ring.length;
+        area += ring[i].x * ring[j].y - ring[j].x * ring[i].y;
+    }
+    return area / 2;
+};
+
+// Ring on the grid without repeated vertices; empty if fewer than three remain
+const snapRing = (ring: Point[], operand: number, ringIndex: number): GridPoint[] => {
+    const snapped: GridPoint[] = [];
+    ring.forEach(p => {
+        if (!Number.isFinite(p?.x) || !Number.isFinite(p?.y)) {
+            throw new ClipError('INVALID_INPUT', 'Shape has a non-numeric coordinate', { operand, ring: ringIndex });
+        }
+        const g = { x: Math.round(p.x / SNAP), y: Math.round(p.y / SNAP) };
+        if (snapped.length === 0 || !samePoint(snapped[snapped.length - 1], g)) snapped.push(g);
+    });
+    while (snapped.length > 1 && samePoint(snapped[0], snapped[snapped.length - 1])) snapped.pop();
+    return snapped.length < 3 ? [] : snapped;
+};
+
+const ringEdges = (ring: GridPoint[], operand: number): Edge[] =>
+    ring.map((a, i) => ({ a, b: ring[(i + 1) % ring.length], operand }));
+
+// Outer rings counter-clockwise, holes clockwise, so every operand fills where its winding is non-zero
+const shapeToEdges = (shape: BooleanShape, operand: number): Edge[] => {
+    const edges: Edge[] = [];
+    [shape.points, ...shape.holes].forEach((ring, ringIndex) => {
+        if (!ring) return;
+        const snapped = snapRing(ring, operand, ringIndex);
+        const area = ringArea(snapped);
+        if (area === 0) return;
+        const isHole = ringIndex > 0;
+        if ((area > 0) === isHole) snapped.reverse();
+        edges.push(...ringEdges(snapped, operand));
+    });
+    return edges;
+};
+
+// Parameter of p along a->b if p lies on the open segment, else null
+const paramOnEdge = (p: GridPoint, a: GridPoint, b: GridPoint): number | null => {
+    if (samePoint(p, a) || samePoint(p, b)) return null;
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const len2 = dx * dx + dy * dy;
+    const t = ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2;
+    if (t <= 0 || t >= 1) return null;
+    const dist = Math.abs(cross(dx, dy, p.x - a.x, p.y - a.y)) / Math.sqrt(len2);
+    return dist <= ON_EDGE_TOLERANCE ? t : null;
+};
+
+// Splits every edge at its crossings and touching vertices. New crossing points are snapped
+// to the grid, which can move them onto neighbouring edges, so passes repeat until stable.
+const splitEdges = (input: Edge[]): Edge[] => {
+    let edges = input;
+
+    for (let pass = 0; pass < MAX_SNAP_PASSES; pass++) {
+        const splits: Map<number, { t: number, p: GridPoint }[]> = new Map();
+        const addSplit = (index: number, t: number, p: GridPoint) => {
+            if (!splits.has(index)) splits.set(index, []);
+            splits.get(index)!.push({ t, p });
+        };
+
+        const order = edges.map((_, i) => i).sort((i, j) => Math.min(edges[i].a.x, edges[i].b.x) - Math.min(edges[j].a.x, edges[j].b.x));
+        let active: number[] = [];
+
+        order.forEach(i => {
+            const e = edges[i];
+            const minX = Math.min(e.a.x, e.b.x);
+            active = active.filter(j => Math.max(edges[j].a.x, edges[j].b.x) >= minX - 1);
+
+            active.forEach(j => {
+                const f = edges[j];
+                if (Math.min(e.a.y, e.b.y) > Math.max(f.a.y, f.b.y) + 1 || Math.min(f.a.y, f.b.y) > Math.max(e.a.y, e.b.y) + 1) return;
+
+                // Endpoints resting on the other edge: T-junctions and collinear overlaps
+                let touching = false;
+                [f.a, f.b].forEach(p => {
+                    const t = paramOnEdge(p, e.a, e.b);
+                    if (t !== null) { addSplit(i, t, p); touching = true; }
+                });
+                [e.a, e.b].forEach(p => {
+                    const t = paramOnEdge(p, f.a, f.b);
+                    if (t !== null) { addSplit(j, t, p); touching = true; }
+                });
+                if (touching) return;
+
+                // Proper crossing
+                const rx = e.b.x - e.a.x, ry = e.b.y - e.a.y;
+                const sx = f.b.x - f.a.x, sy = f.b.y - f.a.y;
+                const denom = cross(rx, ry, sx, sy);
+                if (denom === 0) return;
+                const qx = f.a.x - e.a.x, qy = f.a.y - e.a.y;
+                const t = cross(qx, qy, sx, sy) / denom;
+                const u = cross(qx, qy, rx, ry) / denom;
+                if (t <= 0 || t >= 1 || u <= 0 || u >= 1) return;
+
+                const p = { x: Math.round(e.a.x + t * rx), y: Math.round(e.a.y + t * ry) };
+                if (!samePoint(p, e.a) && !samePoint(p, e.b)) addSplit(i, t, p);
+                if (!samePoint(p, f.a) && !samePoint(p, f.b)) addSplit(j, u, p);
+            });
+            active.push(i);
+        });
+
+        if (splits.size === 0) return edges;
+
+        const next: Edge[] = [];
+        edges.forEach((e, i) => {
+            const points = splits.get(i);
+            if (!points) { next.push(e); return; }
+            points.sort((p, q) => p.t - q.t);
+            let from = e.a;
+            [...points.map(s => s.p), e.b].forEach(to => {
+                if (!samePoint(from, to)) next.push({ a: from, b: to, operand: e.operand });
+                from = to;
+            });
+        });
+        edges = next;
+
+        if (edges.length > MAX_EDGES) {
+            throw new ClipError('TOO_COMPLEX', `Shapes produce more than ${MAX_EDGES} edges`, { edges: edges.length });
+        }
+    }
+    return edges;
+};
+
+// Winding number of one operand just left of the edge u->v, ignoring edges lying on it.
+// A ray is cast along the edge's left normal, in a frame where that normal is +x.
+const windingLeftOf = (u: GridPoint, v: GridPoint, edges: Edge[], skipKey: string): number => {
+    const mx = (u.x + v.x) / 2, my = (u.y + v.y) / 2;
+    const dx = v.x - u.x, dy = v.y - u.y;
+    const toLocal = (p: GridPoint) => {
+        const px = p.x - mx, py = p.y - my;
+        return { x: -dy * px + dx * py, y: -dx * px - dy * py };
+    };
+
+    let winding = 0;
+    edges.forEach(e => {
+        if (edgeKey(e.a, e.b) === skipKey) return;
+        const a = toLocal(e.a);
+        const b = toLocal(e.b);
+        if (a.y <= 0) {
+            if (b.y > 0 && cross(b.x - a.x, b.y - a.y, -a.x, -a.y) > 0) winding++;
+        } else if (b.y <= 0 && cross(b.x - a.x, b.y - a.y, -a.x, -a.y) < 0) {
+            winding--;
+        }
+    });
+    return winding;
+};
+
+const edgeKey = (p: GridPoint, q: GridPoint) => {
+    const kp = keyOf(p), kq = keyOf(q);
+    return kp < kq ? `${kp}|${kq}` : `${kq}|${kp}`;
+};
+
+const applyOp = (op: BooleanOp, inA: boolean, inB: boolean) => {
+    switch (op) {
+        case 'union': return inA || inB;
+        case 'intersect': return inA && inB;
+        case 'subtract': return inA && !inB;
+        case 'xor': return inA !== inB;
+    }
+};
+
+// Directed boundary edges of the result, interior on the left
+const classifyEdges = (edges: Edge[], isFilled: (winding: number[]) => boolean): Edge[] => {
+    const byOperand: Edge[][] = [[], []];
+    const groups = new Map<string, { u: GridPoint, v: GridPoint, wind: number[] }>();
+
+    edges.forEach(e => {
+        byOperand[e.operand].push(e);
+        const key = edgeKey(e.a, e.b);
+        let group = groups.get(key);
+        if (!group) {
+            group = keyOf(e.a) < keyOf(e.b) ? { u: e.a, v: e.b, wind: [0, 0] } : { u: e.b, v: e.a, wind: [0, 0] };
+            groups.set(key, group);
+        }
+        group.wind[e.operand] += samePoint(e.a, group.u) ? 1 : -1;
+    });
+
+    const result: Edge[] = [];
+    groups.forEach((group, key) => {
+        if (group.wind[0] === 0 && group.wind[1] === 0) return;
+        const left = [0, 1].map(k => windingLeftOf(group.u, group.v, byOperand[k], key));
+        const right = [0, 1].map(k => left[k] - group.wind[k]);
+        const inLeft = isFilled(left);
+        const inRight = isFilled(right);
+        if (inLeft && !inRight) result.push({ a: group.u, b: group.v, operand: 0 });
+        else if (inRight && !inLeft) result.push({ a: group.v, b: group.u, operand: 0 });
+    });
+    return result;
+};
+
+// Walks the result edges into closed rings, taking the tightest left turn at shared
+// vertices so rings touching at a point come out as separate simple rings.
+const traceRings = (edges: Edge[]): GridPoint[][] => {
+    const outgoing = new Map<string, Edge[]>();
+    const degree = new Map<string, number>();
+    edges.forEach(e => {
+        const ka = keyOf(e.a), kb = keyOf(e.b);
+        if (!outgoing.has(ka)) outgoing.set(ka, []);
+        outgoing.get(ka)!.push(e);
+        degree.set(ka, (degree.get(ka) || 0) + 1);
+        degree.set(kb, (degree.get(kb) || 0) - 1);
+    });
+    const unbalanced = Array.from(degree.entries()).filter(([, d]) => d !== 0);
+    if (unbalanced.length > 0) {
+        throw new ClipError('OPEN_RESULT', 'Result boundary does not close', { vertices: unbalanced.slice(0, 5).map(([k]) => k) });
+    }
+
+    const used = new Set<Edge>();
+    const rings: GridPoint[][] = [];
+
+    edges.forEach(start => {
+        if (used.has(start)) return;
+        const ring: GridPoint[] = [];
+        let current = start;
+        let guard = 0;
+
+        while (true) {
+            used.add(current);
+            ring.push(current.a);
+            if (samePoint(current.b, start.a)) break;
+            if (++guard > edges.length) {
+                throw new ClipError('OPEN_RESULT', 'Result boundary could not be traced', { at: keyOf(current.b) });
+            }
+
+            const back = Math.atan2(current.a.y - current.b.y, current.a.x - current.b.x);
+            let best: Edge | null = null;
+            let bestTurn = Infinity;
+            (outgoing.get(keyOf(current.b)) || []).forEach(candidate => {
+                if (used.has(candidate)) return;
+                let turn = back - Math.atan2(candidate.b.y - candidate.a.y, candidate.b.x - candidate.a.x);
+                while (turn <= 0) turn += Math.PI * 2;
+                while (turn > Math.PI * 2) turn -= Math.PI * 2;
+                if (turn < bestTurn) { bestTurn = turn; best = candidate; }
+            });
+            if (!best) {
+                throw new ClipError('OPEN_RESULT', 'Result boundary dead-ends', { at: keyOf(current.b) });
+            }
+            current = best;
+        }
+        rings.push(ring);
+    });
+    return rings;
+};
+
+// Drops vertices that sit on a straight run
+const removeCollinear = (ring: GridPoint[]): GridPoint[] => {
+    const out = ring.filter((p, i) => {
+        const prev = ring[(i - 1 + ring.length) % ring.length];
+        const next = ring[(i + 1) % ring.length];
+        return cross(p.x - prev.x, p.y - prev.y, next.x - p.x, next.y - p.y) !== 0;
+    });
+    return out.length >= 3 ? out : ring;
+};
+
+const isInsideRing = (x: number, y: number, ring: Point[]) => {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const a = ring[i], b = ring[j];
+        if ((a.y > y) !== (b.y > y) && x < (b.x - a.x) * (y - a.y) / (b.y - a.y) + a.x) inside = !inside;
+    }
+    return inside;
+};
+
+// Counter-clockwise rings are outer boundaries, clockwise ones holes of the smallest outer around them
+const nestResult = (rings: GridPoint[][]): BooleanShape[] => {
+    const outers: { points: Point[], area: number, holes: Point[][] }[] = [];
+    const holes: { points: Point[], probe: Point }[] = [];
+
+    rings.forEach(ring => {
+        const cleaned = removeCollinear(ring);
+        const area = ringArea(cleaned);
+        if (cleaned.length < 3 || area === 0) return;
+        const points = cleaned.map(p => ({ x: p.x * SNAP, y: p.y * SNAP }));
+        if (area > 0) {
+            outers.push({ points, area, holes: [] });
+        } else {
+            // Edge midpoints never lie on another result edge, so they are safe to test
+            const probe = { x: (points[0].x + points[1].x) / 2, y: (points[0].y + points[1].y) / 2 };
+            holes.push({ points, probe });
+        }
+    });
+
+    outers.sort((a, b) => a.area - b.area);
+    holes.forEach(hole => {
+        const owner = outers.find(o => isInsideRing(hole.probe.x, hole.probe.y, o.points));
+        if (!owner) throw new ClipError('INTERNAL', 'Hole has no enclosing boundary', { probe: hole.probe });
+        owner.holes.push(hole.points);
+    });
+
+    return outers.map(o => ({ points: o.points, holes: o.holes }));
+};
+
+export const clipShapes = (a: BooleanShape, b: BooleanShape, op: BooleanOp): BooleanShape[] => {
+    const edges = [...shapeToEdges(a, 0), ...shapeToEdges(b, 1)];
+    if (edges.length > MAX_EDGES) {
+        throw new ClipError('TOO_COMPLEX', `Shapes have more than ${MAX_EDGES} edges`, { edges: edges.length });
+    }
+    if (edges.length === 0) return [];
+    return nestResult(traceRings(classifyEdges(splitEdges(edges), w => applyOp(op, w[0] !== 0, w[1] !== 0))));
+};
+
+// Resolves rings that may cross themselves and each other (raw offset outlines) into simple
+// shapes. Ring direction is kept as given and only area with a positive winding number is
+// filled, so loops that turned inside out cancel instead of becoming extra material.
+export const resolvePositiveRings = (rings: Point[][]): BooleanShape[] => {
+    const edges = rings.flatMap((ring, i) => ringEdges(snapRing(ring, 0, i), 0));
+    if (edges.length > MAX_EDGES) {
+        throw new ClipError('TOO_COMPLEX', `Shapes have more than ${MAX_EDGES} edges`, { edges: edges.length });
+    }
+    if (edges.length === 0) return [];
+    return nestResult(traceRings(classifyEdges(splitEdges(edges), w => w[0] > 0)));
+};
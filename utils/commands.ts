@@ -0,0 +1,103 @@
+import { Point, ToolType } from '../types';
+
+// Keyboard entry: command names for the command line, and the coordinate forms
+// `x,y` (absolute), `@dx,dy` (from the last point), `d<a` / `@d<a` (polar, degrees)
+// and a bare number, whose meaning depends on the tool that is waiting for it.
+// Typed values are in drafting terms, +Y up and angles counter-clockwise, as in the DXF
+// export; the drawing plane runs +Y down, so Y and angles flip on the way in.
+
+export type CoordinateInput =
+    | { kind: 'absolute', point: Point }
+    | { kind: 'relative', delta: Point }
+    | { kind: 'polar', distance: number, angle: number, relative: boolean } // Radians, counter-clockwise as typed
+    | { kind: 'value', value: number };
+
+export type CommandAction = 'undo' | 'redo' | 'erase';
+
+export type Command = { tool: ToolType } | { action: CommandAction };
+
+const NUMBER = '([-+]?(?:\\d+\\.?\\d*|\\.\\d+))';
+const CARTESIAN = new RegExp(`^(@?)${NUMBER},${NUMBER}$`);
+const POLAR = new RegExp(`^(@?)${NUMBER}<${NUMBER}$`);
+const VALUE = new RegExp(`^${NUMBER}$`);
+
+export const parseCoordinate = (text: string): CoordinateInput | null => {
+    const input = text.replace(/\s+/g, '');
+    let match = input.match(CARTESIAN);
+    if (match) {
+        const p = { x: parseFloat(match[2]), y: parseFloat(match[3]) };
+        return match[1] ? { kind: 'relative', delta: p } : { kind: 'absolute', point: p };
+    }
+    match = input.match(POLAR);
+    if (match) {
+        return { kind: 'polar', distance: parseFloat(match[2]), angle: parseFloat(match[3]) * Math.PI / 180, relative: !!match[1] };
+    }
+    match = input.match(VALUE);
+    if (match) return { kind: 'value', value: parseFloat(match[1]) };
+    return null;
+};
+
+// Relative forms need a previous point; bare values are not points at all
+export const resolveCoordinate = (input: CoordinateInput, last: Point | null): Point | null => {
+    switch (input.kind) {
+        case 'absolute':
+            return { x: input.point.x, y: -input.point.y };
+        case 'relative':
+            return last ? { x: last.x + input.delta.x, y: last.y - input.delta.y } : null;
+        case 'polar': {
+            const base = input.relative ? last : { x: 0, y: 0 };
+            if (!base) return null;
+            return { x: base.x + Math.cos(input.angle) * input.distance, y: base.y - Math.sin(input.angle) * input.distance };
+        }
+        default:
+            return null;
+    }
+};
+
+// Full names first; the short aliases follow the usual drafting abbreviations
+const TOOL_COMMANDS: [ToolType, string[]][] = [
+    ['select', ['SELECT', 'SEL']],
+    ['pan', ['PAN', 'P']],
+    ['line', ['LINE', 'L']],
+    ['rectangle', ['RECTANGLE', 'RECT', 'REC']],
+    ['circle', ['CIRCLE', 'C']],
+    ['arc', ['ARC', 'A']],
+    ['arc-center', ['ARCCENTER', 'ARCC']],
+    ['ellipse', ['ELLIPSE', 'EL']],
+    ['polyline', ['POLYLINE', 'PLINE', 'PL']],
+    ['spline', ['SPLINE', 'SPL']],
+    ['polygon', ['POLYGON', 'POL']],
+    ['sphere', ['SPHERE', 'SPH']],
+    ['light', ['LIGHT']],
+    ['fillet', ['FILLET', 'F']],
+    ['chamfer', ['CHAMFER', 'CHA']],
+    ['offset', ['OFFSET', 'O']],
+    ['trim', ['TRIM', 'TR']],
+    ['extend', ['EXTEND', 'EX']],
+    ['split', ['SPLIT', 'BREAK', 'BR']],
+    ['move', ['MOVE', 'M']],
+    ['copy', ['COPY', 'CO', 'CP']],
+    ['rotate', ['ROTATE', 'RO']],
+    ['scale', ['SCALE', 'SC']],
+    ['mirror', ['MIRROR', 'MI']],
+    ['array', ['ARRAY', 'AR']],
+    ['dimension', ['DIMENSION', 'DIM']],
+    ['leader', ['LEADER', 'LE']],
+    ['text', ['TEXT', 'DTEXT', 'DT']],
+    ['hatch', ['HATCH', 'H', 'BHATCH']],
+];
+
+const ACTION_COMMANDS: [CommandAction, string[]][] = [
+    ['undo', ['UNDO', 'U']],
+    ['redo', ['REDO']],
+    ['erase', ['ERASE', 'E', 'DELETE']],
+];
+
+export const findCommand = (text: string): Command | null => {
+    const name = text.trim().toUpperCase();
+    const tool = TOOL_COMMANDS.find(([, names]) => names.includes(name));
+    if (tool) return { tool: tool[0] };
+    const action = ACTION_COMMANDS.find(([, names]) => names.includes(name));
+    if (action) return { action: action[0] };
+    return null;
+};
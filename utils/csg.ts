@@ -0,0 +1,317 @@
+import * as THREE from 'three';
+import { logger } from './debug';
+
+// Solid CSG on closed triangle meshes using BSP trees (after Evan Wallace's csg.js).
+// The raw BSP result is full of T-junctions, so the output is welded and every edge is
+// split at the vertices lying on it before triangulating. That keeps the result watertight.
+
+const PLANE_EPSILON = 1e-4;
+const WELD_TOLERANCE = 1e-3; // Vertices closer than this collapse into one
+const EDGE_EPSILON = 1e-3;
+const MAX_POLYGONS = 60000; // BSP recursion depth grows with polygon count
+
+interface Plane {
+    normal: THREE.Vector3;
+    w: number;
+}
+
+interface CsgPolygon {
+    vertices: THREE.Vector3[];
+    plane: Plane;
+}
+
+const COPLANAR = 0, FRONT = 1, BACK = 2, SPANNING = 3;
+
+const planeFromPoints = (a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3): Plane | null => {
+    const normal = new THREE.Vector3().subVectors(b, a).cross(new THREE.Vector3().subVectors(c, a));
+    if (normal.lengthSq() < 1e-18) return null;
+    normal.normalize();
+    return { normal, w: normal.dot(a) };
+};
+
+const flipPolygon = (p: CsgPolygon): CsgPolygon => ({
+    vertices: [...p.vertices].reverse(),
+    plane: { normal: p.plane.normal.clone().negate(), w: -p.plane.w }
+});
+
+// Sorts the polygon into the lists by its side of the plane, cutting it in two when it spans
+const splitPolygon = (plane: Plane, polygon: CsgPolygon, coplanarFront: CsgPolygon[], coplanarBack: CsgPolygon[], front: CsgPolygon[], back: CsgPolygon[]) => {
+    let polygonType = 0;
+    const types: number[] = [];
+    polygon.vertices.forEach(v => {
+        const t = plane.normal.dot(v) - plane.w;
+        const type = t < -PLANE_EPSILON ? BACK : t > PLANE_EPSILON ? FRONT : COPLANAR;
+        polygonType |= type;
+        types.push(type);
+    });
+
+    if (polygonType === COPLANAR) {
+        (plane.normal.dot(polygon.plane.normal) > 0 ? coplanarFront : coplanarBack).push(polygon);
+    } else if (polygonType === FRONT) {
+        front.push(polygon);
+    } else if (polygonType === BACK) {
+        back.push(polygon);
+    } else {
+        const f: THREE.Vector3[] = [], b: THREE.Vector3[] = [];
+        const n = polygon.vertices.length;
+        for (let i = 0; i < n; i++) {
+            const j = (i + 1) % n;
+            const ti = types[i], tj = types[j];
+            const vi = polygon.vertices[i], vj = polygon.vertices[j];
+            if (ti !== BACK) f.push(vi);
+            if (ti !== FRONT) b.push(vi);
+            if ((ti | tj) === SPANNING) {
+                const t = (plane.w - plane.normal.dot(vi)) / plane.normal.dot(new THREE.Vector3().subVectors(vj, vi));
+                const v = vi.clone().lerp(vj, t);
+                f.push(v);
+                b.push(v);
+            }
+        }
+        if (f.length >= 3) front.push({ vertices: f, plane: polygon.plane });
+        if (b.length >= 3) back.push({ vertices: b, plane: polygon.plane });
+    }
+};
+
+const polygonArea = (p: CsgPolygon) => {
+    const sum = new THREE.Vector3();
+    for (let i = 1; i + 1 < p.vertices.length; i++) {
+        sum.add(new THREE.Vector3().subVectors(p.vertices[i], p.vertices[0]).cross(new THREE.Vector3().subVectors(p.vertices[i + 1], p.vertices[0])));
+    }
+    return sum.length() / 2;
+};
+
+class BspNode {
+    plane: Plane | null = null;
+    front: BspNode | null = null;
+    back: BspNode | null = null;
+    polygons: CsgPolygon[] = [];
+
+    constructor(polygons?: CsgPolygon[]) {
+        if (polygons) this.build(polygons);
+    }
+
+    invert() {
+        this.polygons = this.polygons.map(flipPolygon);
+        if (this.plane) this.plane = { normal: this.plane.normal.clone().negate(), w: -this.plane.w };
+        if (this.front) this.front.invert();
+        if (this.back) this.back.invert();
+        const temp = this.front;
+        this.front = this.back;
+        this.back = temp;
+    }
+
+    // Removes the parts of the polygons that are inside this BSP tree
+    clipPolygons(polygons: CsgPolygon[]): CsgPolygon[] {
+        if (!this.plane) return [...polygons];
+        let front: CsgPolygon[] = [], back: CsgPolygon[] = [];
+        polygons.forEach(p => splitPolygon(this.plane!, p, front, back, front, back));
+        if (this.front) front = this.front.clipPolygons(front);
+        back = this.back ? this.back.clipPolygons(back) : [];
+        return front.concat(back);
+    }
+
+    // Polygons that survive whole are kept as they were, so faces away from the cut are not
+    // shattered along the extended planes of the other solid
+    clipTo(bsp: BspNode) {
+        this.polygons = this.polygons.flatMap(p => {
+            const kept = bsp.clipPolygons([p]);
+            if (kept.length > 1 && Math.abs(kept.reduce((sum, k) => sum + polygonArea(k), 0) - polygonArea(p)) < 1e-9 * Math.max(1, polygonArea(p))) return [p];
+            return kept;
+        });
+        if (this.front) this.front.clipTo(bsp);
+        if (this.back) this.back.clipTo(bsp);
+    }
+
+    allPolygons(): CsgPolygon[] {
+        let polygons = [...this.polygons];
+        if (this.front) polygons = polygons.concat(this.front.allPolygons());
+        if (this.back) polygons = polygons.concat(this.back.allPolygons());
+        return polygons;
+    }
+
+    build(polygons: CsgPolygon[]) {
+        if (polygons.length === 0) return;
+        if (!this.plane) this.plane = polygons[0].plane;
+        const front: CsgPolygon[] = [], back: CsgPolygon[] = [];
+        polygons.forEach(p => splitPolygon(this.plane!, p, this.polygons, this.polygons, front, back));
+        if (front.length) {
+            if (!this.front) this.front = new BspNode();
+            this.front.build(front);
+        }
+        if (back.length) {
+            if (!this.back) this.back = new BspNode();
+            this.back.build(back);
+        }
+    }
+}
+
+const geometryToPolygons = (geometry: THREE.BufferGeometry): CsgPolygon[] => {
+    const pos = geometry.attributes.position;
+    const index = geometry.index;
+    const count = index ? index.count : pos.count;
+    const polygons: CsgPolygon[] = [];
+    const at = (i: number) => new THREE.Vector3().fromBufferAttribute(pos, index ? index.getX(i) : i);
+
+    for (let i = 0; i + 2 < count; i += 3) {
+        const a = at(i), b = at(i + 1), c = at(i + 2);
+        const plane = planeFromPoints(a, b, c);
+        if (plane) polygons.push({ vertices: [a, b, c], plane });
+    }
+    return polygons;
+};
+
+const distanceToSegment = (p: THREE.Vector3, a: THREE.Vector3, b: THREE.Vector3) => {
+    const ab = new THREE.Vector3().subVectors(b, a);
+    const t = Math.max(0, Math.min(1, new THREE.Vector3().subVectors(p, a).dot(ab) / ab.lengthSq()));
+    return p.distanceTo(a.clone().addScaledVector(ab, t));
+};
+
+// Welds the convex BSP polygons, splits edges at T-junctions and ear-clips the result
+const polygonsToGeometry = (polygons: CsgPolygon[]): THREE.BufferGeometry => {
+    const positions: THREE.Vector3[] = [];
+    const cells = new Map<string, number[]>();
+    // Snap to the first vertex within tolerance, searching neighbouring cells so that
+    // near-duplicates straddling a cell boundary still collapse
+    const weld = (v: THREE.Vector3) => {
+        const cx = Math.floor(v.x / WELD_TOLERANCE), cy = Math.floor(v.y / WELD_TOLERANCE), cz = Math.floor(v.z / WELD_TOLERANCE);
+        for (let dx = -1; dx <= 1; dx++) for (let dy = -1; dy <= 1; dy++) for (let dz = -1; dz <= 1; dz++) {
+            const bucket = cells.get(`${cx + dx},${cy + dy},${cz + dz}`);
+            const hit = bucket?.find(id => positions[id].distanceToSquared(v) < WELD_TOLERANCE * WELD_TOLERANCE);
+            if (hit !== undefined) return hit;
+        }
+        const id = positions.length;
+        positions.push(v.clone());
+        const key = `${cx},${cy},${cz}`;
+        const bucket = cells.get(key);
+        if (bucket) bucket.push(id); else cells.set(key, [id]);
+        return id;
+    };
+
+    const loops: { ids: number[], normal: THREE.Vector3 }[] = [];
+    polygons.forEach(p => {
+        const ids: number[] = [];
+        p.vertices.forEach(v => {
+            const id = weld(v);
+            if (ids[ids.length - 1] !== id) ids.push(id);
+        });
+        if (ids.length > 1 && ids[0] === ids[ids.length - 1]) ids.pop();
+        if (ids.length >= 3) loops.push({ ids, normal: p.plane.normal });
+    });
+
+    // Vertices sorted by x so each edge only tests the vertices inside its x range
+    const byX = positions.map((_, i) => i).sort((a, b) => positions[a].x - positions[b].x);
+    const lowerBound = (x: number) => {
+        let lo = 0, hi = byX.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (positions[byX[mid]].x < x) lo = mid + 1; else hi = mid;
+        }
+        return lo;
+    };
+    const edge = new THREE.Vector3(), toP = new THREE.Vector3();
+    const pointsOnEdge = (a: number, b: number): number[] => {
+        const pa = positions[a], pb = positions[b];
+        edge.subVectors(pb, pa);
+        const lenSq = edge.lengthSq();
+        const found: { id: number, t: number }[] = [];
+        const maxX = Math.max(pa.x, pb.x) + EDGE_EPSILON;
+        for (let k = lowerBound(Math.min(pa.x, pb.x) - EDGE_EPSILON); k < byX.length && positions[byX[k]].x <= maxX; k++) {
+            const id = byX[k];
+            if (id === a || id === b) continue;
+            toP.subVectors(positions[id], pa);
+            const t = toP.dot(edge) / lenSq;
+            if (t <= 0 || t >= 1) continue;
+            if (toP.sub(edge.clone().multiplyScalar(t)).lengthSq() < EDGE_EPSILON * EDGE_EPSILON) found.push({ id, t });
+        }
+        return found.sort((p, q) => p.t - q.t).map(p => p.id);
+    };
+
+    const indices: number[] = [];
+    const e1 = new THREE.Vector3(), e2 = new THREE.Vector3();
+    loops.forEach(({ ids, normal }) => {
+        const ring: number[] = [];
+        ids.forEach((id, i) => {
+            ring.push(id);
+            ring.push(...pointsOnEdge(id, ids[(i + 1) % ids.length]));
+        });
+
+        // The ring is convex with extra collinear vertices. Only clip ears with real area whose
+        // closing chord does not run through another ring vertex, or that vertex would be lost.
+        const at = (i: number) => ring[(i + ring.length) % ring.length];
+        const cornerArea = (i: number) => {
+            const prev = positions[at(i - 1)], cur = positions[at(i)], next = positions[at(i + 1)];
+            return e1.subVectors(cur, prev).cross(e2.subVectors(next, cur)).dot(normal);
+        };
+        const chordIsClear = (i: number) => {
+            const prev = at(i - 1), next = at(i + 1);
+            return !ring.some(id => id !== prev && id !== next && id !== at(i) && distanceToSegment(positions[id], positions[prev], positions[next]) < EDGE_EPSILON);
+        };
+        while (ring.length >= 3) {
+            let best = -1, bestArea = 1e-10, fallback = -1, fallbackArea = 1e-10;
+            for (let i = 0; i < ring.length; i++) {
+                const area = cornerArea(i);
+                if (area > fallbackArea) { fallback = i; fallbackArea = area; }
+                if (area > bestArea && chordIsClear(i)) { best = i; bestArea = area; }
+            }
+            if (best === -1) best = fallback;
+            if (best === -1) break;
+            indices.push(at(best - 1), at(best), at(best + 1));
+            ring.splice(best, 1);
+        }
+    });
+
+    const geometry = new THREE.BufferGeometry();
+    const flat = new Float32Array(positions.length * 3);
+    positions.forEach((p, i) => { flat[i * 3] = p.x; flat[i * 3 + 1] = p.y; flat[i * 3 + 2] = p.z; });
+    geometry.setAttribute('position', new THREE.BufferAttribute(flat, 3));
+    geometry.setIndex(indices);
+    return geometry;
+};
+
+// Every directed edge of a closed, consistently wound mesh is matched by exactly one reversed edge
+const countOpenEdges = (geometry: THREE.BufferGeometry) => {
+    const index = geometry.index!.array;
+    const edges = new Map<string, number>();
+    for (let i = 0; i < index.length; i += 3) {
+        for (let k = 0; k < 3; k++) {
+            const key = `${index[i + k]}>${index[i + (k + 1) % 3]}`;
+            edges.set(key, (edges.get(key) || 0) + 1);
+        }
+    }
+    let open = 0;
+    edges.forEach((n, key) => {
+        const [a, b] = key.split('>');
+        if (n !== 1 || edges.get(`${b}>${a}`) !== 1) open++;
+    });
+    return open;
+};
+
+// Subtracts every cutter from the base. Returns an indexed, welded geometry without normals,
+// or null when the operands are too large to evaluate.
+export const csgSubtract = (base: THREE.BufferGeometry, cutters: THREE.BufferGeometry[]): THREE.BufferGeometry | null => {
+    const basePolygons = geometryToPolygons(base);
+    const cutterPolygons = cutters.map(geometryToPolygons);
+    const total = cutterPolygons.reduce((n, p) => n + p.length, basePolygons.length);
+    if (total > MAX_POLYGONS) {
+        logger.warn('CSG', `Skipped cut: ${total} polygons exceeds the limit of ${MAX_POLYGONS}`);
+        return null;
+    }
+
+    const a = new BspNode(basePolygons);
+    cutterPolygons.forEach(polygons => {
+        const b = new BspNode(polygons);
+        a.invert();
+        a.clipTo(b);
+        b.clipTo(a);
+        b.invert();
+        b.clipTo(a);
+        b.invert();
+        a.build(b.allPolygons());
+        a.invert();
+    });
+
+    const result = polygonsToGeometry(a.allPolygons());
+    const open = countOpenEdges(result);
+    if (open > 0) logger.warn('CSG', `Cut result has ${open} open edges, usually from tangent or coincident surfaces; it may not print as a closed solid`);
+    return result;
+};
@@ -0,0 +1,517 @@
+import { Entity, Layer, Point, LineEntity, RectEntity, CircleEntity, ArcEntity, PolygonEntity, PolylineEntity, LengthUnit, AnnotationEntity } from '../types';
+import { generateId, cleanPolygon, nestRings, sampleEllipse, sampleSpline, getRectCorners, DEFAULT_POLYLINE_THICKNESS, isAnnotation, getAnnotationGeometry, getArrowOutline, entityToShapes } from './geometry';
+import { getHatchSegments, getHatchTriangles } from './hatch';
+import { downloadBlob } from './exporter';
+import { logger } from './debug';
+
+// DXF is Y-up, our drawing plane is Y-down (screen space), so Y is flipped on the way in and out.
+// Elevation maps to the Z coordinate and extrusion depth to the DXF "thickness" (group 39).
+
+interface DxfTag {
+    code: number;
+    value: string;
+}
+
+interface DxfRecord {
+    type: string;
+    tags: DxfTag[];
+    vertices?: DxfRecord[]; // POLYLINE -> VERTEX children
+}
+
+export interface DxfImportResult {
+    entities: Entity[];
+    layers: Layer[];
+    skipped: Record<string, number>; // Unsupported entity type -> count
+    units?: LengthUnit; // From $INSUNITS, when the file says
+}
+
+// $INSUNITS codes for the units we draw in
+const INSUNITS: Record<LengthUnit, number> = { in: 1, ft: 2, mm: 4, cm: 5, m: 6 };
+
+// --- AutoCAD Color Index ---
+
+const ACI_BASE: Record<number, string> = {
+    1: '#ff0000', 2: '#ffff00', 3: '#00ff00', 4: '#00ffff', 5: '#0000ff', 6: '#ff00ff', 7: '#ffffff', 8: '#808080', 9: '#c0c0c0',
+    250: '#333333', 251: '#505050', 252: '#696969', 253: '#828282', 254: '#bebebe', 255: '#ffffff'
+};
+
+const toHex = (r: number, g: number, b: number) => '#' + [r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('');
+
+const hexToRgb = (hex: string): [number, number, number] => {
+    let h = hex.replace('#', '');
+    if (h.length === 3) h = h.split('').map(c => c + c).join('');
+    const n = parseInt(h.padEnd(6, '0').slice(0, 6), 16);
+    if (isNaN(n)) return [255, 255, 255];
+    return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+// Indices 10-249 are 24 hues x 5 shades x 2 saturations
+const aciToHex = (index: number): string => {
+    if (ACI_BASE[index]) return ACI_BASE[index];
+    if (index < 10 || index > 249) return '#ffffff';
+    const hue = Math.floor((index - 10) / 10) * 15;
+    const variant = (index - 10) % 10;
+    const value = [1, 0.65, 0.5, 0.3, 0.15][Math.floor(variant / 2)];
+    const sat = variant % 2 === 0 ? 1 : 0.5;
+
+    const c = value * sat;
+    const x = c * (1 - Math.abs(((hue / 60) % 2) - 1));
+    const m = value - c;
+    const [r, g, b] =
+        hue < 60 ? [c, x, 0] : hue < 120 ? [x, c, 0] : hue < 180 ? [0, c, x] :
+        hue < 240 ? [0, x, c] : hue < 300 ? [x, 0, c] : [c, 0, x];
+    return toHex((r + m) * 255, (g + m) * 255, (b + m) * 255);
+};
+
+const hexToAci = (hex: string): number => {
+    const [r, g, b] = hexToRgb(hex);
+    let best = 7;
+    let bestD = Infinity;
+    for (let i = 1; i < 256; i++) {
+        const [ar, ag, ab] = hexToRgb(aciToHex(i));
+        const d = (ar - r) ** 2 + (ag - g) ** 2 + (ab - b) ** 2;
+        if (d < bestD) { bestD = d; best = i; }
+    }
+    return best;
+};
+
+// --- Writer ---
+
+const fmt = (n: number) => Number((n || 0).toFixed(6)).toString();
+
+const sanitizeLayerName = (name: string) => (name || 'Layer').replace(/[<>\/\\":;?*|=,]/g, '_').trim() || 'Layer';
+
+export const buildDxf = (entities: Entity[], layers: Layer[], units: LengthUnit = 'mm'): string => {
+    const out: string[] = [];
+    const tag = (code: number, value: string | number) => out.push(String(code), typeof value === 'number' ? fmt(value) : value);
+
+    const layerNames = new Map<string, string>();
+    layers.forEach(l => layerNames.set(l.id, sanitizeLayerName(l.name)));
+    const layerName = (id: string) => layerNames.get(id) || '0';
+
+    tag(0, 'SECTION'); tag(2, 'HEADER');
+    tag(9, '$ACADVER'); tag(1, 'AC1009');
+    tag(9, '$INSUNITS'); tag(70, String(INSUNITS[units])); // Newer than R12, but readers of either honour it
+    tag(0, 'ENDSEC');
+
+    tag(0, 'SECTION'); tag(2, 'TABLES');
+    tag(0, 'TABLE'); tag(2, 'LTYPE'); tag(70, '1');
+    tag(0, 'LTYPE'); tag(2, 'CONTINUOUS'); tag(70, '0'); tag(3, 'Solid line'); tag(72, '65'); tag(73, '0'); tag(40, 0);
+    tag(0, 'ENDTAB');
+    tag(0, 'TABLE'); tag(2, 'LAYER'); tag(70, String(layers.length));
+    layers.forEach(l => {
+        const aci = hexToAci(l.color);
+        tag(0, 'LAYER');
+        tag(2, layerName(l.id));
+        tag(70, String(l.locked ? 4 : 0));
+        tag(62, String(l.visible ? aci : -aci)); // Negative color = layer off
+        tag(6, 'CONTINUOUS');
+    });
+    tag(0, 'ENDTAB');
+    tag(0, 'ENDSEC');
+
+    tag(0, 'SECTION'); tag(2, 'ENTITIES');
+
+    const writeCommon = (e: Entity) => {
+        tag(8, layerName(e.layerId));
+        if (e.color) tag(62, String(hexToAci(e.color)));
+        if (e.extrusionDepth) tag(39, e.extrusionDepth);
+    };
+
+    // R12 has no LWPOLYLINE, so outlines are written as POLYLINE/VERTEX/SEQEND
+    const writePolyline = (e: Entity, points: Point[], closed: boolean = true, width: number = 0) => {
+        if (points.length < 2) return;
+        tag(0, 'POLYLINE');
+        writeCommon(e);
+        tag(66, '1');
+        tag(10, 0); tag(20, 0); tag(30, e.elevation || 0);
+        tag(70, closed ? '1' : '0');
+        if (width > 0) { tag(40, width); tag(41, width); } // Default start/end width
+        points.forEach(p => {
+            tag(0, 'VERTEX');
+            tag(8, layerName(e.layerId));
+            tag(10, p.x); tag(20, -p.y); tag(30, e.elevation || 0);
+        });
+        tag(0, 'SEQEND');
+        tag(8, layerName(e.layerId));
+    };
+
+    // Annotations are written as the lines, arcs, filled arrowheads and text they draw
+    const writeAnnotation = (e: AnnotationEntity) => {
+        const g = getAnnotationGeometry(e);
+        g.segments.forEach(([a, b]) => {
+            tag(0, 'LINE');
+            writeCommon(e);
+            tag(10, a.x); tag(20, -a.y); tag(30, 0);
+            tag(11, b.x); tag(21, -b.y); tag(31, 0);
+        });
+        g.arcs.forEach(arc => {
+            tag(0, 'ARC');
+            writeCommon(e);
+            tag(10, arc.center.x); tag(20, -arc.center.y); tag(30, 0);
+            tag(40, arc.radius);
+            tag(50, -arc.endAngle * 180 / Math.PI);
+            tag(51, -arc.startAngle * 180 / Math.PI);
+        });
+        g.arrows.forEach(arrow => {
+            // A SOLID with its last two corners equal is a triangle
+            const [tip, left, right] = getArrowOutline(arrow, e.textHeight);
+            tag(0, 'SOLID');
+            writeCommon(e);
+            [tip, left, right, right].forEach((p, i) => { tag(10 + i, p.x); tag(20 + i, -p.y); tag(30 + i, 0); });
+        });
+        if (!g.text.value) return;
+        tag(0, 'TEXT');
+        writeCommon(e);
+        tag(10, g.text.position.x); tag(20, -g.text.position.y); tag(30, 0);
+        tag(40, g.text.height);
+        tag(1, g.text.value);
+        tag(50, -g.text.angle * 180 / Math.PI);
+        tag(72, String(['left', 'center', 'right'].indexOf(g.text.align)));
+        tag(73, '2'); // Middle
+        tag(11, g.text.position.x); tag(21, -g.text.position.y); tag(31, 0); // Justified text is placed by its alignment point
+    };
+
+    let skipped = 0;
+    entities.forEach(e => {
+        if (e.type === 'line') {
+            tag(0, 'LINE');
+            writeCommon(e);
+            tag(10, e.start.x); tag(20, -e.start.y); tag(30, e.elevation || 0);
+            tag(11, e.end.x); tag(21, -e.end.y); tag(31, e.elevation || 0);
+        } else if (e.type === 'circle') {
+            tag(0, 'CIRCLE');
+            writeCommon(e);
+            tag(10, e.center.x); tag(20, -e.center.y); tag(30, e.elevation || 0);
+            tag(40, e.radius);
+        } else if (e.type === 'arc') {
+            // DXF is y-up, which mirrors the angles and swaps the ends of the counter-clockwise sweep
+            tag(0, 'ARC');
+            writeCommon(e);
+            tag(10, e.center.x); tag(20, -e.center.y); tag(30, e.elevation || 0);
+            tag(40, e.radius);
+            tag(50, -e.endAngle * 180 / Math.PI);
+            tag(51, -e.startAngle * 180 / Math.PI);
+        } else if (e.type === 'ellipse') {
+            // R12 has no ELLIPSE or SPLINE entities; both are written as sampled polylines
+            writePolyline(e, sampleEllipse(e));
+        } else if (e.type === 'spline') {
+            writePolyline(e, sampleSpline(e), e.closed);
+        } else if (e.type === 'polyline') {
+            writePolyline(e, e.points, false, e.thickness);
+        } else if (e.type === 'rectangle') {
+            writePolyline(e, getRectCorners(e));
+        } else if (e.type === 'polygon') {
+            writePolyline(e, e.points);
+            (e.holes || []).forEach(h => writePolyline(e, h));
+        } else if (e.type === 'text') {
+            // Glyph outlines rather than TEXT, so cutters and engravers get the exact shapes
+            entityToShapes(e).forEach(glyph => [glyph.points, ...glyph.holes].forEach(ring => writePolyline(e, ring)));
+        } else if (e.type === 'hatch' && e.view === 'top') {
+            // R12 has no HATCH entity; the pattern is written as its lines and a solid fill as triangles
+            getHatchSegments(e).forEach(([a, b]) => {
+                tag(0, 'LINE');
+                writeCommon(e);
+                tag(10, a.x); tag(20, -a.y); tag(30, 0);
+                tag(11, b.x); tag(21, -b.y); tag(31, 0);
+            });
+            getHatchTriangles(e).forEach(([a, b, c]) => {
+                tag(0, 'SOLID');
+                writeCommon(e);
+                [a, b, c, c].forEach((p, i) => { tag(10 + i, p.x); tag(20 + i, -p.y); tag(30 + i, 0); });
+            });
+        } else if (isAnnotation(e) && e.view === 'top') {
+            writeAnnotation(e);
+        } else {
+            skipped++;
+        }
+    });
+
+    tag(0, 'ENDSEC');
+    tag(0, 'EOF');
+
+    if (skipped > 0) logger.warn('DXF', `${skipped} entities have no 2D DXF equivalent (sphere/light/mesh, side-view annotations and hatches) and were not written`);
+    return out.join('\n') + '\n';
+};
+
+export const exportToDxf = (entities: Entity[], layers: Layer[], onlySelected: boolean = false, filename: string = 'ThoughtlessCAD-Drawing.dxf', units: LengthUnit = 'mm') => {
+    logger.log('EXPORT', `Starting DXF Export. Count: ${entities.length}, SelectedOnly: ${onlySelected}`);
+
+    const targetEntities = onlySelected ? entities.filter(e => e.selected) : entities;
+
+    if (targetEntities.length === 0) {
+        alert("Export Failed: No entities selected.");
+        return;
+    }
+
+    try {
+        const output = buildDxf(targetEntities, layers, units);
+        downloadBlob(output, filename);
+        logger.log('EXPORT', 'DXF Export Success');
+        alert("Export Successful!");
+    } catch (err: any) {
+        logger.error('EXPORT', 'DXF Failed', err);
+        alert("Export failed. See logs.");
+    }
+};
+
+// --- Reader ---
+
+const readTags = (content: string): DxfTag[] => {
+    const lines = content.split(/\r?\n/);
+    const tags: DxfTag[] = [];
+    for (let i = 0; i + 1 < lines.length; i += 2) {
+        const code = parseInt(lines[i].trim(), 10);
+        if (isNaN(code)) throw new Error(`Invalid group code at line ${i + 1}`);
+        tags.push({ code, value: lines[i + 1].trim() });
+    }
+    return tags;
+};
+
+// Splits a section's tags into records, each starting at a group code 0
+const readRecords = (tags: DxfTag[], sectionName: string): DxfRecord[] => {
+    const records: DxfRecord[] = [];
+    let inSection = false;
+    let current: DxfRecord | null = null;
+
+    for (let i = 0; i < tags.length; i++) {
+        const t = tags[i];
+        if (!inSection) {
+            if (t.code === 0 && t.value === 'SECTION' && tags[i + 1]?.code === 2 && tags[i + 1].value === sectionName) {
+                inSection = true;
+                i++;
+            }
+            continue;
+        }
+        if (t.code === 0) {
+            if (t.value === 'ENDSEC') break;
+            current = { type: t.value, tags: [] };
+            records.push(current);
+        } else if (current) {
+            current.tags.push(t);
+        }
+    }
+    return records;
+};
+
+const getTag = (r: DxfRecord, code: number): string | undefined => r.tags.find(t => t.code === code)?.value;
+const getNum = (r: DxfRecord, code: number, fallback: number = 0): number => {
+    const v = parseFloat(getTag(r, code) ?? '');
+    return isFinite(v) ? v : fallback;
+};
+
+const trueColorToHex = (value: string) => {
+    const n = parseInt(value, 10);
+    return toHex((n >> 16) & 255, (n >> 8) & 255, n & 255);
+};
+
+const readColor = (r: DxfRecord): string | undefined => {
+    const trueColor = getTag(r, 420);
+    if (trueColor !== undefined) return trueColorToHex(trueColor);
+    const aci = Math.abs(getNum(r, 62, 256));
+    if (aci === 0 || aci === 256) return undefined; // BYBLOCK / BYLAYER
+    return aciToHex(aci);
+};
+
+// Groups POLYLINE records with their VERTEX children (terminated by SEQEND)
+const groupPolylines = (records: DxfRecord[]): DxfRecord[] => {
+    const result: DxfRecord[] = [];
+    let open: DxfRecord | null = null;
+    records.forEach(r => {
+        if (open) {
+            if (r.type === 'VERTEX') { open.vertices!.push(r); return; }
+            if (r.type === 'SEQEND') { open = null; return; }
+            open = null;
+        }
+        if (r.type === 'POLYLINE') {
+            open = { ...r, vertices: [] };
+            result.push(open);
+        } else {
+            result.push(r);
+        }
+    });
+    return result;
+};
+
+const readLwPolylinePoints = (r: DxfRecord): Point[] => {
+    const pts: Point[] = [];
+    r.tags.forEach(t => {
+        if (t.code === 10) pts.push({ x: parseFloat(t.value), y: 0 });
+        else if (t.code === 20 && pts.length > 0) pts[pts.length - 1].y = -parseFloat(t.value);
+    });
+    return pts.filter(p => isFinite(p.x) && isFinite(p.y));
+};
+
+const isAxisAlignedRect = (pts: Point[]) => {
+    if (pts.length !== 4) return false;
+    for (let i = 0; i < 4; i++) {
+        const a = pts[i];
+        const b = pts[(i + 1) % 4];
+        if (Math.abs(a.x - b.x) > 1e-6 && Math.abs(a.y - b.y) > 1e-6) return false;
+    }
+    return true;
+};
+
+interface ClosedOutline {
+    points: Point[];
+    layerId: string;
+    elevation: number;
+    thickness: number;
+    color?: string;
+}
+
+// Header variables are group 9 names each followed by their value
+const readUnits = (tags: DxfTag[]): LengthUnit | undefined => {
+    const i = tags.findIndex(t => t.code === 9 && t.value === '$INSUNITS');
+    if (i === -1 || !tags[i + 1]) return undefined;
+    const code = parseInt(tags[i + 1].value, 10);
+    return (Object.keys(INSUNITS) as LengthUnit[]).find(u => INSUNITS[u] === code);
+};
+
+export const parseDxf = (content: string): DxfImportResult => {
+    const tags = readTags(content);
+    const skipped: Record<string, number> = {};
+    const units = readUnits(tags);
+
+    // Layers
+    const layers: Layer[] = [];
+    const layerIds = new Map<string, string>();
+    readRecords(tags, 'TABLES').forEach(r => {
+        if (r.type !== 'LAYER') return;
+        const name = getTag(r, 2);
+        if (!name || layerIds.has(name)) return;
+        const aci = getNum(r, 62, 7);
+        const trueColor = getTag(r, 420);
+        const id = `layer-${generateId()}`;
+        layerIds.set(name, id);
+        layers.push({
+            id,
+            name,
+            color: trueColor !== undefined ? trueColorToHex(trueColor) : aciToHex(Math.abs(aci) || 7),
+            visible: aci >= 0,
+            locked: (getNum(r, 70) & 4) !== 0
+        });
+    });
+
+    const resolveLayer = (r: DxfRecord) => {
+        const name = getTag(r, 8) || '0';
+        if (!layerIds.has(name)) {
+            const id = `layer-${generateId()}`;
+            layerIds.set(name, id);
+            layers.push({ id, name, color: '#ffffff', visible: true, locked: false });
+        }
+        return layerIds.get(name)!;
+    };
+
+    const base = (r: DxfRecord, defaultDepth: number) => ({
+        id: generateId(),
+        layerId: resolveLayer(r),
+        selected: false,
+        extrusionDepth: getNum(r, 39, defaultDepth),
+        roughness: 0.5,
+        metalness: 0.1,
+        operation: 'solid' as const,
+        ...(readColor(r) ? { color: readColor(r) } : {})
+    });
+
+    const entities: Entity[] = [];
+    const outlines: ClosedOutline[] = [];
+
+    const addPath = (r: DxfRecord, points: Point[], closed: boolean, elevation: number, width: number) => {
+        const pts = cleanPolygon(points);
+        if (closed && pts.length >= 3) {
+            const b = base(r, 20);
+            outlines.push({ points: pts, layerId: b.layerId, elevation, thickness: b.extrusionDepth, color: b.color });
+        } else if (pts.length >= 3) {
+            entities.push({
+                ...base(r, 0),
+                type: 'polyline',
+                elevation,
+                points: pts,
+                thickness: width > 0 ? width : DEFAULT_POLYLINE_THICKNESS
+            } as PolylineEntity);
+        } else if (pts.length === 2) {
+            entities.push({ ...base(r, 0), type: 'line', elevation, start: pts[0], end: pts[1] } as LineEntity);
+        }
+    };
+
+    groupPolylines(readRecords(tags, 'ENTITIES')).forEach(r => {
+        if (r.type === 'LINE') {
+            entities.push({
+                ...base(r, 0),
+                type: 'line',
+                elevation: getNum(r, 30),
+                start: { x: getNum(r, 10), y: -getNum(r, 20) },
+                end: { x: getNum(r, 11), y: -getNum(r, 21) }
+            } as LineEntity);
+        } else if (r.type === 'CIRCLE') {
+            entities.push({
+                ...base(r, 20),
+                type: 'circle',
+                elevation: getNum(r, 30),
+                center: { x: getNum(r, 10), y: -getNum(r, 20) },
+                radius: getNum(r, 40)
+            } as CircleEntity);
+        } else if (r.type === 'ARC') {
+            // Flipping y back mirrors the angles and swaps the ends, as on export
+            entities.push({
+                ...base(r, 0),
+                type: 'arc',
+                elevation: getNum(r, 30),
+                center: { x: getNum(r, 10), y: -getNum(r, 20) },
+                radius: getNum(r, 40),
+                startAngle: -getNum(r, 51) * Math.PI / 180,
+                endAngle: -getNum(r, 50) * Math.PI / 180
+            } as ArcEntity);
+        } else if (r.type === 'LWPOLYLINE') {
+            addPath(r, readLwPolylinePoints(r), (getNum(r, 70) & 1) === 1, getNum(r, 38), getNum(r, 43));
+        } else if (r.type === 'POLYLINE') {
+            const flags = getNum(r, 70);
+            if (flags & (16 | 64)) { // Polygon/polyface meshes
+                skipped['POLYLINE (mesh)'] = (skipped['POLYLINE (mesh)'] || 0) + 1;
+                return;
+            }
+            const pts = (r.vertices || []).map(v => ({ x: getNum(v, 10), y: -getNum(v, 20) }));
+            addPath(r, pts, (flags & 1) === 1, getNum(r, 30), getNum(r, 40));
+        } else {
+            skipped[r.type] = (skipped[r.type] || 0) + 1;
+        }
+    });
+
+    // Closed outlines on the same layer and elevation nested inside each other become holes
+    const nested = nestRings(outlines, o => o.points, (a, b) => a.layerId === b.layerId && a.elevation === b.elevation);
+    nested.forEach(({ outer, holes: holeOutlines }) => {
+        const holes = holeOutlines.map(h => h.points);
+        const common = {
+            id: generateId(),
+            layerId: outer.layerId,
+            selected: false,
+            extrusionDepth: outer.thickness,
+            elevation: outer.elevation,
+            roughness: 0.5,
+            metalness: 0.1,
+            operation: 'solid' as const,
+            ...(outer.color ? { color: outer.color } : {})
+        };
+        if (holes.length === 0 && isAxisAlignedRect(outer.points)) {
+            const xs = outer.points.map(p => p.x);
+            const ys = outer.points.map(p => p.y);
+            entities.push({
+                ...common,
+                type: 'rectangle',
+                start: { x: Math.min(...xs), y: Math.min(...ys) },
+                width: Math.max(...xs) - Math.min(...xs),
+                height: Math.max(...ys) - Math.min(...ys)
+            } as RectEntity);
+        } else {
+            entities.push({ ...common, type: 'polygon', points: outer.points, ...(holes.length ? { holes } : {}) } as PolygonEntity);
+        }
+    });
+
+    Object.entries(skipped).forEach(([type, count]) => {
+        logger.warn('DXF', `Skipped ${count} unsupported entit${count === 1 ? 'y' : 'ies'}: ${type}`);
+    });
+    logger.log('DXF', `Parsed ${entities.length} entities on ${layers.length} layers`);
+
+    return { entities, layers, skipped, ...(units ? { units } : {}) };
+};
@@ -1,91 +1,16 @@
 
-import { Entity, PolygonEntity, SphereEntity } from '../types';
+import { Entity, Layer } from '../types';
 import { logger } from './debug';
+import { generateSolidGeometry, prepareForRender, createEntityMaterial } from './mesh';
+import { isDrafting } from './geometry';
+import { buildDxf, parseDxf } from './dxf';
 import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { mergeVertices } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { zipSync, strToU8 } from 'three/examples/jsm/libs/fflate.module.js';
 
-// Helper to generate Three.js geometry from our Entity definitions
-const generateEntityGeometry = (entity: Entity): THREE.BufferGeometry | null => {
-    if (entity.type === 'light' || !entity.layerId) return null;
-
-    const elevation = entity.elevation || 0;
-    let geometry: THREE.BufferGeometry | null = null;
-
-    if (entity.type === 'sphere') {
-            const sph = entity as SphereEntity;
-            // Sphere in Viewport is positioned at (x, elev+r, y).
-            geometry = new THREE.SphereGeometry(sph.radius, 32, 32);
-            geometry.translate(sph.center.x, elevation + sph.radius, sph.center.y);
-    } else {
-            // Extrusion shapes
-            let shape: THREE.Shape | null = null;
-
-            if (entity.type === 'rectangle') {
-            const r = entity as any;
-            shape = new THREE.Shape();
-            // Shape defined in XY plane.
-            shape.moveTo(r.start.x, -r.start.y);
-            shape.lineTo(r.start.x + r.width, -r.start.y);
-            shape.lineTo(r.start.x + r.width, -(r.start.y + r.height));
-            shape.lineTo(r.start.x, -(r.start.y + r.height));
-            shape.lineTo(r.start.x, -r.start.y);
-            } else if (entity.type === 'circle') {
-            const c = entity as any;
-            shape = new THREE.Shape();
-            shape.absarc(c.center.x, -c.center.y, c.radius, 0, Math.PI * 2, false);
-            } else if (entity.type === 'polygon') {
-            const p = entity as PolygonEntity;
-            if (p.points.length > 2) {
-                shape = new THREE.Shape();
-                shape.moveTo(p.points[0].x, -p.points[0].y);
-                for(let i=1; i<p.points.length; i++) shape.lineTo(p.points[i].x, -p.points[i].y);
-                shape.closePath();
-                
-                if (p.holes) {
-                    p.holes.forEach(h => {
-                        if (h.length > 2) {
-                            const hp = new THREE.Path();
-                            hp.moveTo(h[0].x, -h[0].y);
-                            for(let i=1; i<h.length; i++) hp.lineTo(h[i].x, -h[i].y);
-                            hp.closePath();
-                            shape!.holes.push(hp);
-                        }
-                    });
-                }
-            }
-            } else if (entity.type === 'line') {
-                const l = entity as any;
-                if ((l.extrusionDepth || 0) > 0) {
-                const dx = l.end.x - l.start.x;
-                const dy = l.end.y - l.start.y;
-                const len = Math.sqrt(dx*dx + dy*dy);
-                const angle = Math.atan2(dy, dx);
-                geometry = new THREE.BoxGeometry(len, l.extrusionDepth, 1);
-                const midX = (l.start.x + l.end.x) / 2;
-                const midY = (l.start.y + l.end.y) / 2;
-                
-                // Rotate around Y to match orientation on floor
-                geometry.rotateY(-angle);
-                geometry.translate(midX, elevation + l.extrusionDepth/2, midY);
-                }
-            }
-
-            if (shape) {
-                const depth = Math.max(0.1, entity.extrusionDepth || 0);
-                geometry = new THREE.ExtrudeGeometry(shape, { 
-                    depth: depth, 
-                    bevelEnabled: false,
-                    curveSegments: 24 
-                });
-                // Align 2D extrusion (Z) with 3D world (Y-up, mapped)
-                geometry.rotateX(-Math.PI / 2);
-                geometry.translate(0, elevation, 0); 
-            }
-    }
-    return geometry;
-};
-
-const downloadBlob = (content: string, filename: string) => {
-    const blob = new Blob([content], { type: 'text/plain' });
+export const downloadBlob = (content: BlobPart, filename: string, type: string = 'text/plain') => {
+    const blob = new Blob([content], { type });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -96,10 +21,14 @@ const downloadBlob = (content: string, filename: string) => {
     URL.revokeObjectURL(url);
 };
 
+// Cut entities only remove material, they are never written as parts of their own; annotations have no solid
+const getExportTargets = (entities: Entity[], onlySelected: boolean) =>
+    (onlySelected ? entities.filter(e => e.selected) : entities).filter(e => e.operation !== 'cut' && !isDrafting(e));
+
 export const exportToObj = (entities: Entity[], onlySelected: boolean = false, filename: string = 'ThoughtlessCAD-Model.obj') => {
     logger.log('EXPORT', `Starting OBJ Export. Count: ${entities.length}, SelectedOnly: ${onlySelected}`);
     
-    const targetEntities = onlySelected ? entities.filter(e => e.selected) : entities;
+    const targetEntities = getExportTargets(entities, onlySelected);
     
     if (targetEntities.length === 0) {
         alert("Export Failed: No entities selected.");
@@ -112,7 +41,7 @@ export const exportToObj = (entities: Entity[], onlySelected: boolean = false, f
 
     try {
         targetEntities.forEach((entity) => {
-            const geometry = generateEntityGeometry(entity);
+            const geometry = generateSolidGeometry(entity, entities);
             if (!geometry) return;
 
             // Extract data from buffer geometry
@@ -161,7 +90,7 @@ export const exportToObj = (entities: Entity[], onlySelected: boolean = false, f
 export const exportToStl = (entities: Entity[], onlySelected: boolean = false, filename: string = 'ThoughtlessCAD-Model.stl') => {
     logger.log('EXPORT', `Starting STL Export. Count: ${entities.length}, SelectedOnly: ${onlySelected}`);
     
-    const targetEntities = onlySelected ? entities.filter(e => e.selected) : entities;
+    const targetEntities = getExportTargets(entities, onlySelected);
     
     if (targetEntities.length === 0) {
         alert("Export Failed: No entities selected.");
@@ -172,7 +101,7 @@ export const exportToStl = (entities: Entity[], onlySelected: boolean = false, f
 
     try {
         targetEntities.forEach(entity => {
-            const geometry = generateEntityGeometry(entity);
+            const geometry = generateSolidGeometry(entity, entities);
             if (!geometry) return;
 
             const pos = geometry.attributes.position;
@@ -221,6 +150,237 @@ export const exportToStl = (entities: Entity[], onlySelected: boolean = false, f
     }
 };
 
+// Calls back with the vertex indices of every triangle, for indexed and non-indexed geometry
+const forEachTriangle = (geometry: THREE.BufferGeometry, cb: (a: number, b: number, c: number) => void) => {
+    const index = geometry.index;
+    if (index) {
+        for (let i = 0; i < index.count; i += 3) cb(index.getX(i), index.getX(i + 1), index.getX(i + 2));
+    } else {
+        for (let i = 0; i < geometry.attributes.position.count; i += 3) cb(i, i + 1, i + 2);
+    }
+};
+
+const getLayerColor = (entity: Entity, layers: Layer[]) => entity.color || layers.find(l => l.id === entity.layerId)?.color || '#ffffff';
+
+export const exportToStlBinary = (entities: Entity[], onlySelected: boolean = false, filename: string = 'ThoughtlessCAD-Model.stl') => {
+    logger.log('EXPORT', `Starting Binary STL Export. Count: ${entities.length}, SelectedOnly: ${onlySelected}`);
+
+    const targetEntities = getExportTargets(entities, onlySelected);
+
+    if (targetEntities.length === 0) {
+        alert("Export Failed: No entities selected.");
+        return;
+    }
+
+    try {
+        const geometries = targetEntities.map(e => generateSolidGeometry(e, entities)).filter((g): g is THREE.BufferGeometry => !!g);
+        let triangleCount = 0;
+        geometries.forEach(g => forEachTriangle(g, () => triangleCount++));
+
+        // 80 byte header, uint32 count, then 50 bytes per facet (normal + 3 vertices + attribute word)
+        const buffer = new ArrayBuffer(84 + triangleCount * 50);
+        const view = new DataView(buffer);
+        const header = 'ThoughtlessCAD Pro Binary STL';
+        for (let i = 0; i < header.length; i++) view.setUint8(i, header.charCodeAt(i));
+        view.setUint32(80, triangleCount, true);
+
+        let offset = 84;
+        const vA = new THREE.Vector3(), vB = new THREE.Vector3(), vC = new THREE.Vector3();
+        const cb = new THREE.Vector3(), ab = new THREE.Vector3();
+        const writeVec = (v: THREE.Vector3) => {
+            view.setFloat32(offset, v.x, true);
+            view.setFloat32(offset + 4, v.y, true);
+            view.setFloat32(offset + 8, v.z, true);
+            offset += 12;
+        };
+
+        geometries.forEach(geometry => {
+            const pos = geometry.attributes.position;
+            forEachTriangle(geometry, (a, b, c) => {
+                vA.fromBufferAttribute(pos, a);
+                vB.fromBufferAttribute(pos, b);
+                vC.fromBufferAttribute(pos, c);
+                cb.subVectors(vC, vB);
+                ab.subVectors(vA, vB);
+                cb.cross(ab).normalize();
+
+                writeVec(cb);
+                writeVec(vA);
+                writeVec(vB);
+                writeVec(vC);
+                view.setUint16(offset, 0, true);
+                offset += 2;
+            });
+            geometry.dispose();
+        });
+
+        downloadBlob(buffer, filename, 'model/stl');
+        logger.log('EXPORT', `Binary STL Export Success (${triangleCount} facets)`);
+        alert("Export Successful!");
+
+    } catch (err: any) {
+        logger.error('EXPORT', 'Binary STL Failed', err);
+        alert("Export failed. See logs.");
+    }
+};
+
+export const exportToGltf = (entities: Entity[], layers: Layer[], onlySelected: boolean = false, binary: boolean = false, filename?: string) => {
+    logger.log('EXPORT', `Starting glTF Export. Count: ${entities.length}, SelectedOnly: ${onlySelected}, Binary: ${binary}`);
+
+    const targetEntities = getExportTargets(entities, onlySelected);
+
+    if (targetEntities.length === 0) {
+        alert("Export Failed: No entities selected.");
+        return;
+    }
+
+    const outName = filename || `ThoughtlessCAD-Model.${binary ? 'glb' : 'gltf'}`;
+    const scene = new THREE.Scene();
+    const dispose = () => scene.traverse((child: any) => {
+        if (child.isMesh) {
+            child.geometry.dispose();
+            child.material.dispose();
+        }
+    });
+
+    try {
+        targetEntities.forEach(entity => {
+            const solid = generateSolidGeometry(entity, entities);
+            if (!solid) return;
+            const geometry = prepareForRender(solid, entity);
+            const material = createEntityMaterial(entity, getLayerColor(entity, layers));
+            const mesh = new THREE.Mesh(geometry, material);
+            mesh.name = entity.name || `${entity.type}-${entity.id}`;
+            material.name = `${mesh.name}-material`;
+            scene.add(mesh);
+        });
+
+        new GLTFExporter().parse(scene, (result: ArrayBuffer | object) => {
+            if (binary) downloadBlob(result as ArrayBuffer, outName, 'model/gltf-binary');
+            else downloadBlob(JSON.stringify(result, null, 2), outName, 'model/gltf+json');
+            dispose();
+            logger.log('EXPORT', 'glTF Export Success');
+            alert("Export Successful!");
+        }, (err: any) => {
+            dispose();
+            logger.error('EXPORT', 'glTF Failed', err);
+            alert("Export failed. See logs.");
+        }, { binary });
+
+    } catch (err: any) {
+        dispose();
+        logger.error('EXPORT', 'glTF Failed', err);
+        alert("Export failed. See logs.");
+    }
+};
+
+const escapeXml = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// 3MF is Z-up; our world is Y-up with Z = drawing Y, so (x, y, z) -> (x, -z, y) keeps the top view unmirrored
+export const build3mfModel = (entities: Entity[], layers: Layer[], allEntities: Entity[] = entities): string => {
+    const colors: string[] = [];
+    const objects: string[] = [];
+    const items: string[] = [];
+    let nextId = 2; // 1 is the base material group
+
+    entities.forEach(entity => {
+        const source = generateSolidGeometry(entity, allEntities);
+        if (!source) return;
+
+        // Weld vertices so slicers see a closed manifold instead of loose triangles
+        const positionsOnly = new THREE.BufferGeometry();
+        positionsOnly.setAttribute('position', source.getAttribute('position'));
+        if (source.index) positionsOnly.setIndex(source.index);
+        const geometry = mergeVertices(positionsOnly, 1e-4);
+
+        const color = '#' + new THREE.Color(getLayerColor(entity, layers)).getHexString().toUpperCase() + 'FF';
+        let pindex = colors.indexOf(color);
+        if (pindex === -1) { colors.push(color); pindex = colors.length - 1; }
+
+        const pos = geometry.attributes.position;
+        const vertices: string[] = [];
+        for (let i = 0; i < pos.count; i++) {
+            vertices.push(`<vertex x="${pos.getX(i).toFixed(4)}" y="${(-pos.getZ(i)).toFixed(4)}" z="${pos.getY(i).toFixed(4)}"/>`);
+        }
+        const triangles: string[] = [];
+        forEachTriangle(geometry, (a, b, c) => {
+            if (a === b || b === c || a === c) return;
+            triangles.push(`<triangle v1="${a}" v2="${b}" v3="${c}"/>`);
+        });
+
+        const id = nextId++;
+        const name = escapeXml(entity.name || `${entity.type}-${entity.id}`);
+        objects.push(
+            `  <object id="${id}" name="${name}" type="model" pid="1" pindex="${pindex}">\n` +
+            `   <mesh>\n    <vertices>\n     ${vertices.join('\n     ')}\n    </vertices>\n` +
+            `    <triangles>\n     ${triangles.join('\n     ')}\n    </triangles>\n   </mesh>\n  </object>`
+        );
+        items.push(`  <item objectid="${id}"/>`);
+
+        source.dispose();
+        positionsOnly.dispose();
+        geometry.dispose();
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<model unit="millimeter" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">',
+        ' <metadata name="Application">ThoughtlessCAD Pro</metadata>',
+        ' <resources>',
+        '  <basematerials id="1">',
+        ...colors.map((c, i) => `   <base name="Color ${i + 1}" displaycolor="${c}"/>`),
+        '  </basematerials>',
+        ...objects,
+        ' </resources>',
+        ' <build>',
+        ...items,
+        ' </build>',
+        '</model>',
+        ''
+    ].join('\n');
+};
+
+export const exportTo3mf = (entities: Entity[], layers: Layer[], onlySelected: boolean = false, filename: string = 'ThoughtlessCAD-Model.3mf') => {
+    logger.log('EXPORT', `Starting 3MF Export. Count: ${entities.length}, SelectedOnly: ${onlySelected}`);
+
+    const targetEntities = getExportTargets(entities, onlySelected);
+
+    if (targetEntities.length === 0) {
+        alert("Export Failed: No entities selected.");
+        return;
+    }
+
+    try {
+        const contentTypes = [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+            ' <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+            ' <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>',
+            '</Types>'
+        ].join('\n');
+        const rels = [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+            ' <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>',
+            '</Relationships>'
+        ].join('\n');
+
+        const zipped = zipSync({
+            '[Content_Types].xml': strToU8(contentTypes),
+            '_rels/.rels': strToU8(rels),
+            '3D/3dmodel.model': strToU8(build3mfModel(targetEntities, layers, entities))
+        });
+
+        downloadBlob(zipped, filename, 'model/3mf');
+        logger.log('EXPORT', '3MF Export Success');
+        alert("Export Successful!");
+
+    } catch (err: any) {
+        logger.error('EXPORT', '3MF Failed', err);
+        alert("Export failed. See logs.");
+    }
+};
+
 export const runSelfTest = () => {
     logger.log('TEST', 'Running Self Diagnostic...');
     try {
@@ -230,7 +390,21 @@ export const runSelfTest = () => {
             selected: true, layerId: '1', extrusionDepth: 10, elevation: 0, roughness:0, metalness: 0, operation: 'solid'
         }];
         // Dry run export
-        generateEntityGeometry(dummy[0] as Entity);
+        generateSolidGeometry(dummy[0] as Entity, dummy as Entity[]);
+        // DXF round trip: what the writer emits, the reader must bring back
+        const layer = { id: '1', name: 'Test', color: '#ffffff', visible: true, locked: false };
+        const common = { layerId: '1', selected: false, extrusionDepth: 0, elevation: 0, roughness: 0, metalness: 0, operation: 'solid' };
+        const drawn = [
+            { ...common, id: 'line', type: 'line', start: { x: 0, y: 0 }, end: { x: 10, y: 5 } },
+            { ...common, id: 'circle', type: 'circle', center: { x: 5, y: 5 }, radius: 3 },
+            { ...common, id: 'arc', type: 'arc', center: { x: 5, y: 5 }, radius: 4, startAngle: 0.5, endAngle: 2 }
+        ] as Entity[];
+        const read = parseDxf(buildDxf(drawn, [layer])).entities;
+        const arc = read.find(e => e.type === 'arc');
+        if (read.length !== drawn.length || !arc || arc.type !== 'arc' ||
+            Math.abs(arc.startAngle - 0.5) > 1e-6 || Math.abs(arc.endAngle - 2) > 1e-6) {
+            throw new Error('DXF round trip changed the drawing');
+        }
         logger.log('TEST', 'Self Diagnostic Passed.');
         return true;
     } catch(e: any) {
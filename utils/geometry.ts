@@ -1,7 +1,12 @@
 
-import { Point, ViewState, Entity, ViewType, PolygonEntity, LightEntity } from '../types';
+import { Point, ViewState, Entity, ViewType, LightEntity, MeshEntity, ArcEntity, EllipseEntity, SplineEntity, PolylineEntity, PolygonEntity, RectEntity, LineEntity, CircleEntity, AnnotationEntity, DimensionEntity, HatchEntity } from '../types';
 import { GRID_SIZE } from '../constants';
 import { logger } from './debug';
+import { clipShapes, resolvePositiveRings, ClipError, BooleanOp, BooleanShape } from './clipping';
+import { getTextShapes, getTextBox } from './text';
+
+export type { BooleanOp, BooleanShape } from './clipping';
+export { ClipError } from './clipping';
 
 const EPSILON = 0.0001;
 
@@ -30,7 +35,22 @@ export const worldToScreen = (x: number, y: number, view: ViewState): Point => {
 };
 
 // Transforms a 3D entity into the 2D coordinate system of the requested view
+// Meshes are shown in every view as their stored silhouette, so they behave like polygons for drawing and picking
+const mapMeshToView = (mesh: MeshEntity, viewType: ViewType): Entity => {
+  const outline = mesh.outlines[viewType] || [];
+  const elevation = mesh.elevation || 0;
+  const points = outline.map(p => {
+      if (viewType === 'front') return { x: mesh.center.x + p.x, y: p.y - elevation };
+      if (viewType === 'right') return { x: mesh.center.y + p.x, y: p.y - elevation };
+      return { x: mesh.center.x + p.x, y: mesh.center.y + p.y };
+  });
+  return { ...mesh, type: 'polygon', points, holes: undefined } as any;
+};
+
 export const mapEntityToView = (entity: Entity, viewType: ViewType): Entity | null => {
+  if (entity.type === 'mesh') return mapMeshToView(entity, viewType);
+  if (isDrafting(entity)) return entity.view === viewType ? entity : null;
+
   const elevation = entity.elevation || 0;
   const depth = entity.type === 'sphere' ? (entity.radius * 2) : (entity.extrusionDepth || 0);
 
@@ -52,8 +72,9 @@ export const mapEntityToView = (entity: Entity, viewType: ViewType): Entity | nu
        // If width is 0 (perpendicular), make it selectable
        if (width < 1) { xStart -= 2; width = 4; }
     } else if (entity.type === 'rectangle') {
-       xStart = entity.start.x;
-       width = entity.width;
+       const b = getBounds(entity);
+       xStart = b.x1;
+       width = b.x2 - b.x1;
     } else if (entity.type === 'circle' || entity.type === 'sphere') {
        xStart = entity.center.x - entity.radius;
        width = entity.radius * 2;
@@ -61,6 +82,10 @@ export const mapEntityToView = (entity: Entity, viewType: ViewType): Entity | nu
         const xs = entity.points.map(p => p.x);
         xStart = Math.min(...xs);
         width = Math.max(...xs) - xStart;
+    } else if (entity.type === 'arc' || entity.type === 'ellipse' || entity.type === 'spline' || entity.type === 'polyline' || entity.type === 'text') {
+        const b = getBounds(entity);
+        xStart = b.x1;
+        width = b.x2 - b.x1;
     } else if (entity.type === 'light') {
          const l = entity;
          const mapped = { 
@@ -76,7 +101,8 @@ export const mapEntityToView = (entity: Entity, viewType: ViewType): Entity | nu
         type: 'rectangle',
         start: { x: xStart, y: yTop },
         width: width,
-        height: heightInView
+        height: heightInView,
+        rotation: 0 // Side views show the axis-aligned extent
     } as any;
   }
 
@@ -91,8 +117,9 @@ export const mapEntityToView = (entity: Entity, viewType: ViewType): Entity | nu
         width = Math.abs(entity.end.y - entity.start.y);
         if (width < 1) { yStart2D -= 2; width = 4; }
     } else if (entity.type === 'rectangle') {
-       yStart2D = entity.start.y;
-       width = entity.height; 
+       const b = getBounds(entity);
+       yStart2D = b.y1;
+       width = b.y2 - b.y1;
     } else if (entity.type === 'circle' || entity.type === 'sphere') {
        yStart2D = entity.center.y - entity.radius;
        width = entity.radius * 2;
@@ -100,6 +127,10 @@ export const mapEntityToView = (entity: Entity, viewType: ViewType): Entity | nu
         const ys = entity.points.map(p => p.y);
         yStart2D = Math.min(...ys);
         width = Math.max(...ys) - yStart2D;
+    } else if (entity.type === 'arc' || entity.type === 'ellipse' || entity.type === 'spline' || entity.type === 'polyline' || entity.type === 'text') {
+        const b = getBounds(entity);
+        yStart2D = b.y1;
+        width = b.y2 - b.y1;
     } else if (entity.type === 'light') {
          const l = entity;
          const mapped = { 
@@ -115,7 +146,8 @@ export const mapEntityToView = (entity: Entity, viewType: ViewType): Entity | nu
         type: 'rectangle',
         start: { x: yStart2D, y: yTop },
         width: width,
-        height: heightInView
+        height: heightInView,
+        rotation: 0 // Side views show the axis-aligned extent
     } as any;
   }
 
@@ -129,15 +161,15 @@ export const getDelta3D = (dx: number, dy: number, viewType: ViewType) => {
     return { x: 0, y: 0, z: 0 };
 }
 
-export const snapToGrid = (val: number): number => {
-  return Math.round(val / GRID_SIZE) * GRID_SIZE;
+export const snapToGrid = (val: number, gridSize: number = GRID_SIZE): number => {
+  return Math.round(val / gridSize) * gridSize;
 };
 
-export const snapPoint = (p: Point, snapEnabled: boolean = true): Point => {
+export const snapPoint = (p: Point, snapEnabled: boolean = true, gridSize: number = GRID_SIZE): Point => {
   if (!snapEnabled) return p;
   return {
-    x: snapToGrid(p.x),
-    y: snapToGrid(p.y),
+    x: snapToGrid(p.x, gridSize),
+    y: snapToGrid(p.y, gridSize),
   };
 };
 
@@ -145,6 +177,28 @@ export const generateId = (): string => {
   return Math.random().toString(36).substr(2, 9);
 };
 
+export const rotatePoint = (p: Point, pivot: Point, angle: number): Point => {
+    const cos = Math.cos(angle), sin = Math.sin(angle);
+    const dx = p.x - pivot.x, dy = p.y - pivot.y;
+    return { x: pivot.x + dx * cos - dy * sin, y: pivot.y + dx * sin + dy * cos };
+};
+
+export const getRectCenter = (rect: RectEntity): Point => ({ x: rect.start.x + rect.width / 2, y: rect.start.y + rect.height / 2 });
+
+// Corners in drawing order (top-left, top-right, bottom-right, bottom-left of the unrotated box)
+export const getRectCorners = (rect: RectEntity): Point[] => {
+    const { x, y } = rect.start;
+    const corners = [
+        { x, y },
+        { x: x + rect.width, y },
+        { x: x + rect.width, y: y + rect.height },
+        { x, y: y + rect.height },
+    ];
+    if (!rect.rotation) return corners;
+    const center = getRectCenter(rect);
+    return corners.map(p => rotatePoint(p, center, rect.rotation!));
+};
+
 export const getRectPoints = (p1: Point, p2: Point) => {
   const x = Math.min(p1.x, p2.x);
   const y = Math.min(p1.y, p2.y);
@@ -153,12 +207,627 @@ export const getRectPoints = (p1: Point, p2: Point) => {
   return { x, y, width, height };
 };
 
+// --- Curves ---
+
+const CURVE_SEGMENTS = 64; // Per full turn
+const SPLINE_STEPS = 16; // Per spline span
+
+const angleOf = (center: Point, p: Point) => Math.atan2(p.y - center.y, p.x - center.x);
+
+// Angle swept going from startAngle to endAngle with increasing angle, in (0, 2π]
+export const getArcSweep = (startAngle: number, endAngle: number): number => {
+    let sweep = (endAngle - startAngle) % (Math.PI * 2);
+    if (sweep <= EPSILON) sweep += Math.PI * 2;
+    return sweep;
+};
+
+export const isAngleOnArc = (angle: number, startAngle: number, endAngle: number): boolean => {
+    let offset = (angle - startAngle) % (Math.PI * 2);
+    if (offset < 0) offset += Math.PI * 2;
+    return offset <= getArcSweep(startAngle, endAngle);
+};
+
+export const pointOnCircle = (center: Point, radius: number, angle: number): Point => ({
+    x: center.x + Math.cos(angle) * radius,
+    y: center.y + Math.sin(angle) * radius
+});
+
+// Arc from p1 through p2 to p3; null when the points are collinear
+export const arcFromThreePoints = (p1: Point, p2: Point, p3: Point): Pick<ArcEntity, 'center' | 'radius' | 'startAngle' | 'endAngle'> | null => {
+    const d = 2 * (p1.x * (p2.y - p3.y) + p2.x * (p3.y - p1.y) + p3.x * (p1.y - p2.y));
+    if (Math.abs(d) < EPSILON) return null;
+    const s1 = p1.x * p1.x + p1.y * p1.y;
+    const s2 = p2.x * p2.x + p2.y * p2.y;
+    const s3 = p3.x * p3.x + p3.y * p3.y;
+    const center = {
+        x: (s1 * (p2.y - p3.y) + s2 * (p3.y - p1.y) + s3 * (p1.y - p2.y)) / d,
+        y: (s1 * (p3.x - p2.x) + s2 * (p1.x - p3.x) + s3 * (p2.x - p1.x)) / d
+    };
+    const radius = distance(center, p1);
+    const a1 = angleOf(center, p1);
+    const a3 = angleOf(center, p3);
+    // Sweep whichever way round passes through the middle point
+    return isAngleOnArc(angleOf(center, p2), a1, a3)
+        ? { center, radius, startAngle: a1, endAngle: a3 }
+        : { center, radius, startAngle: a3, endAngle: a1 };
+};
+
+// Arc from its centre, a start point (sets the radius) and a point giving the end direction
+export const arcFromCenter = (center: Point, start: Point, end: Point): Pick<ArcEntity, 'center' | 'radius' | 'startAngle' | 'endAngle'> | null => {
+    const radius = distance(center, start);
+    if (radius < EPSILON || arePointsEqual(center, end)) return null;
+    return { center, radius, startAngle: angleOf(center, start), endAngle: angleOf(center, end) };
+};
+
+export const getArcEndpoints = (arc: ArcEntity) => ({
+    start: pointOnCircle(arc.center, arc.radius, arc.startAngle),
+    end: pointOnCircle(arc.center, arc.radius, arc.endAngle)
+});
+
+export const sampleArc = (arc: ArcEntity, segmentsPerTurn: number = CURVE_SEGMENTS): Point[] => {
+    const sweep = getArcSweep(arc.startAngle, arc.endAngle);
+    const segs = Math.max(2, Math.ceil(segmentsPerTurn * sweep / (Math.PI * 2)));
+    const pts: Point[] = [];
+    for (let i = 0; i <= segs; i++) pts.push(pointOnCircle(arc.center, arc.radius, arc.startAngle + sweep * i / segs));
+    return pts;
+};
+
+export const sampleEllipse = (ellipse: EllipseEntity, segments: number = CURVE_SEGMENTS): Point[] => {
+    const cos = Math.cos(ellipse.rotation || 0);
+    const sin = Math.sin(ellipse.rotation || 0);
+    const pts: Point[] = [];
+    for (let i = 0; i < segments; i++) {
+        const t = (i / segments) * Math.PI * 2;
+        const x = Math.cos(t) * ellipse.radiusX;
+        const y = Math.sin(t) * ellipse.radiusY;
+        pts.push({ x: ellipse.center.x + x * cos - y * sin, y: ellipse.center.y + x * sin + y * cos });
+    }
+    return pts;
+};
+
+export interface BezierSegment { start: Point; c1: Point; c2: Point; end: Point; }
+
+// Uniform Catmull-Rom through the points, expressed as cubic Bézier spans for drawing and export
+export const splineToBeziers = (points: Point[], closed: boolean): BezierSegment[] => {
+    const n = points.length;
+    if (n < 2) return [];
+    const isClosed = closed && n > 2;
+    const at = (i: number) => isClosed ? points[(i + n) % n] : points[Math.max(0, Math.min(n - 1, i))];
+    const segments: BezierSegment[] = [];
+    const count = isClosed ? n : n - 1;
+    for (let i = 0; i < count; i++) {
+        const p0 = at(i - 1), p1 = at(i), p2 = at(i + 1), p3 = at(i + 2);
+        segments.push({
+            start: p1,
+            c1: { x: p1.x + (p2.x - p0.x) / 6, y: p1.y + (p2.y - p0.y) / 6 },
+            c2: { x: p2.x - (p3.x - p1.x) / 6, y: p2.y - (p3.y - p1.y) / 6 },
+            end: p2
+        });
+    }
+    return segments;
+};
+
+export const sampleSpline = (spline: SplineEntity, steps: number = SPLINE_STEPS): Point[] => {
+    const segments = splineToBeziers(spline.points, spline.closed);
+    if (segments.length === 0) return [...spline.points];
+    const pts: Point[] = [segments[0].start];
+    segments.forEach(({ start, c1, c2, end }) => {
+        for (let i = 1; i <= steps; i++) {
+            const t = i / steps;
+            const u = 1 - t;
+            const a = u * u * u, b = 3 * u * u * t, c = 3 * u * t * t, d = t * t * t;
+            pts.push({
+                x: a * start.x + b * c1.x + c * c2.x + d * end.x,
+                y: a * start.y + b * c1.y + c * c2.y + d * end.y
+            });
+        }
+    });
+    // Closed curves end where they start
+    if (spline.closed && spline.points.length > 2) pts.pop();
+    return pts;
+};
+
+// --- Polylines ---
+
+export const DEFAULT_POLYLINE_THICKNESS = 1; // Same wall as an extruded line
+const MITRE_LIMIT = 4; // Longest mitre, in half-thicknesses, before a sharp corner is clipped
+
+// Closed outline of a polyline's wall: both sides offset by half the thickness, joined with mitres
+export const getPolylineOutline = (polyline: PolylineEntity): Point[] => {
+    const pts = polyline.points.filter((p, i) => i === 0 || !arePointsEqual(p, polyline.points[i - 1]));
+    if (pts.length < 2) return [];
+    const half = (polyline.thickness > 0 ? polyline.thickness : DEFAULT_POLYLINE_THICKNESS) / 2;
+
+    const normals = pts.slice(1).map((p, i) => {
+        const len = distance(pts[i], p);
+        return { x: -(p.y - pts[i].y) / len, y: (p.x - pts[i].x) / len };
+    });
+
+    const left: Point[] = [];
+    const right: Point[] = [];
+    pts.forEach((p, i) => {
+        const n1 = normals[Math.max(0, i - 1)];
+        const n2 = normals[Math.min(normals.length - 1, i)];
+        let mx = n1.x + n2.x;
+        let my = n1.y + n2.y;
+        const mLen = Math.sqrt(mx * mx + my * my);
+        let offset = half;
+        if (mLen < EPSILON) {
+            // Path doubles back on itself
+            mx = n1.x; my = n1.y;
+        } else {
+            mx /= mLen; my /= mLen;
+            offset = half / (mx * n1.x + my * n1.y);
+        }
+        const mitre = (sign: number) => ({ x: p.x + sign * mx * offset, y: p.y + sign * my * offset });
+        if (offset > half * MITRE_LIMIT && mLen >= EPSILON) {
+            // Bevel the outer side, one point on each segment's offset line; the inner side keeps its mitre
+            const bevel = (sign: number) => [n1, n2].map(n => ({ x: p.x + sign * n.x * half, y: p.y + sign * n.y * half }));
+            const turnsLeft = n1.x * n2.y - n1.y * n2.x > 0;
+            left.push(...(turnsLeft ? [mitre(1)] : bevel(1)));
+            right.push(...(turnsLeft ? bevel(-1) : [mitre(-1)]));
+        } else {
+            left.push(mitre(1));
+            right.push(mitre(-1));
+        }
+    });
+    return [...left, ...right.reverse()];
+};
+
+// --- Corners ---
+
+export type CornerMode = 'fillet' | 'chamfer';
+
+// A vertex of a polygon: ring 0 is the outline, ring k is hole k - 1
+export interface PolygonCorner {
+    ring: number;
+    index: number;
+}
+
+export const getPolygonRings = (polygon: PolygonEntity): Point[][] => [polygon.points, ...(polygon.holes || [])];
+
+// Rectangles are edited as the polygon with the same outline
+export const rectToPolygon = (rect: RectEntity): PolygonEntity => {
+    const { start, width, height, rotation, ...rest } = rect;
+    return { ...rest, type: 'polygon', points: convertToPoints(rect) };
+};
+
+export const findPolygonCorner = (polygon: PolygonEntity, p: Point, tolerance: number): PolygonCorner | null => {
+    let best: PolygonCorner | null = null;
+    let bestDist = tolerance;
+    getPolygonRings(polygon).forEach((ring, r) => {
+        ring.forEach((v, i) => {
+            const d = distance(v, p);
+            if (d <= bestDist) {
+                bestDist = d;
+                best = { ring: r, index: i };
+            }
+        });
+    });
+    return best;
+};
+
+// Replaces each picked corner of a ring with a tangent arc (fillet) or a straight cut (chamfer).
+// The cut back along an edge is limited to the edge, or half of it when both its ends are picked,
+// so a fillet that does not fit gets the largest radius that does.
+const roundRingCorners = (ring: Point[], indices: Set<number>, mode: CornerMode, size: number): Point[] => {
+    const n = ring.length;
+    if (n < 3 || size <= 0) return ring;
+    const edgeLen = (i: number) => distance(ring[i], ring[(i + 1) % n]);
+    const available = (i: number) => edgeLen(i) * (indices.has(i) && indices.has((i + 1) % n) ? 0.5 : 1);
+
+    const result: Point[] = [];
+    ring.forEach((p1, i) => {
+        const p0 = ring[(i - 1 + n) % n];
+        const p2 = ring[(i + 1) % n];
+        const l0 = distance(p0, p1);
+        const l2 = distance(p1, p2);
+        if (!indices.has(i) || l0 < EPSILON || l2 < EPSILON) {
+            result.push(p1);
+            return;
+        }
+        const u = { x: (p0.x - p1.x) / l0, y: (p0.y - p1.y) / l0 };
+        const v = { x: (p2.x - p1.x) / l2, y: (p2.y - p1.y) / l2 };
+        const theta = Math.acos(Math.max(-1, Math.min(1, u.x * v.x + u.y * v.y)));
+        if (theta < EPSILON || Math.PI - theta < 1e-3) {
+            // Spikes and straight corners have nothing to round
+            result.push(p1);
+            return;
+        }
+
+        const wanted = mode === 'fillet' ? size / Math.tan(theta / 2) : size;
+        const t = Math.min(wanted, available((i - 1 + n) % n), available(i));
+        const a = { x: p1.x + u.x * t, y: p1.y + u.y * t };
+        const b = { x: p1.x + v.x * t, y: p1.y + v.y * t };
+        if (mode === 'chamfer') {
+            result.push(a, b);
+            return;
+        }
+
+        const radius = t * Math.tan(theta / 2);
+        const bx = u.x + v.x, by = u.y + v.y;
+        const bLen = Math.sqrt(bx * bx + by * by);
+        const d = radius / Math.sin(theta / 2);
+        const center = { x: p1.x + bx / bLen * d, y: p1.y + by / bLen * d };
+        const startAngle = angleOf(center, a);
+        let sweep = angleOf(center, b) - startAngle;
+        // The fillet always takes the short way round, whichever way the ring turns
+        while (sweep > Math.PI) sweep -= Math.PI * 2;
+        while (sweep < -Math.PI) sweep += Math.PI * 2;
+        const steps = Math.max(2, Math.ceil(Math.abs(sweep) / (Math.PI * 2) * CURVE_SEGMENTS));
+        for (let s = 0; s <= steps; s++) {
+            result.push(pointOnCircle(center, radius, startAngle + sweep * s / steps));
+        }
+    });
+    return result.filter((p, i) => !arePointsEqual(p, result[(i + 1) % result.length]));
+};
+
+export const roundPolygonCorners = (polygon: PolygonEntity, corners: PolygonCorner[], mode: CornerMode, size: number): PolygonEntity => {
+    const rings = getPolygonRings(polygon).map((ring, r) => {
+        const indices = new Set(corners.filter(c => c.ring === r).map(c => c.index));
+        return indices.size > 0 ? roundRingCorners(ring, indices, mode, size) : ring;
+    });
+    const [points, ...holes] = rings;
+    return { ...polygon, points, ...(polygon.holes ? { holes } : {}) };
+};
+
+// --- Offset ---
+
+export type OffsetJoin = 'miter' | 'round' | 'square';
+
+// Ring shifted by delta to the right of its direction. Rings are given with the material on
+// their left, so a positive delta grows the shape. Joins are only built where the shifted edges
+// open a gap; where they overlap the original vertex is kept so the overlap forms a reversed
+// loop that resolvePositiveRings drops.
+const offsetRing = (ring: Point[], delta: number, join: OffsetJoin): Point[] => {
+    const pts = ring.filter((p, i) => !arePointsEqual(p, ring[(i + 1) % ring.length]));
+    const n = pts.length;
+    if (n < 3) return [];
+    const d = Math.abs(delta);
+    const side = Math.sign(delta);
+    const dirs = pts.map((p, i) => {
+        const q = pts[(i + 1) % n];
+        const len = distance(p, q);
+        return { x: (q.x - p.x) / len, y: (q.y - p.y) / len };
+    });
+    // Unit normal pointing the way the edge moves
+    const normals = dirs.map(u => ({ x: u.y * side, y: -u.x * side }));
+    const shifted = (p: Point, nm: Point) => ({ x: p.x + nm.x * d, y: p.y + nm.y * d });
+
+    const result: Point[] = [];
+    pts.forEach((v, i) => {
+        const prev = (i - 1 + n) % n;
+        const a = dirs[prev], b = dirs[i];
+        const n1 = normals[prev], n2 = normals[i];
+        const p1 = shifted(v, n1);
+        const p2 = shifted(v, n2);
+        const turn = a.x * b.y - a.y * b.x;
+        const dot = a.x * b.x + a.y * b.y;
+        const isSpike = dot < -1 + EPSILON;
+
+        if (!isSpike && Math.abs(turn) < EPSILON) {
+            result.push(p1);
+            return;
+        }
+        if (!isSpike && turn * side < 0) {
+            result.push(p1, v, p2);
+            return;
+        }
+
+        // Bisector of the two normals; a spike turns straight back, so it caps along the edge
+        let mx = n1.x + n2.x, my = n1.y + n2.y;
+        const mLen = Math.sqrt(mx * mx + my * my);
+        if (isSpike || mLen < EPSILON) { mx = a.x; my = a.y; }
+        else { mx /= mLen; my /= mLen; }
+        const cosHalf = mx * n1.x + my * n1.y;
+
+        if (join === 'miter' && cosHalf > 1 / MITRE_LIMIT) {
+            result.push({ x: v.x + mx * d / cosHalf, y: v.y + my * d / cosHalf });
+        } else if (join === 'round') {
+            const startAngle = angleOf(v, p1);
+            let sweep = angleOf(v, p2) - startAngle;
+            if (isSpike) sweep = Math.PI * side;
+            while (sweep > Math.PI) sweep -= Math.PI * 2;
+            while (sweep < -Math.PI) sweep += Math.PI * 2;
+            const steps = Math.max(2, Math.ceil(Math.abs(sweep) / (Math.PI * 2) * CURVE_SEGMENTS));
+            for (let s = 0; s <= steps; s++) result.push(pointOnCircle(v, d, startAngle + sweep * s / steps));
+        } else {
+            // Square: cut across the bisector at the offset distance from the vertex
+            const t1 = d * (1 - cosHalf) / (a.x * mx + a.y * my);
+            const t2 = d * (1 - (mx * n2.x + my * n2.y)) / (b.x * mx + b.y * my);
+            result.push({ x: p1.x + a.x * t1, y: p1.y + a.y * t1 }, { x: p2.x + b.x * t2, y: p2.y + b.y * t2 });
+        }
+    });
+    return result;
+};
+
+// Offsets a shape with holes; positive delta grows it. Parts that vanish (thin walls offset
+// inward, holes grown past the outline) are dropped, so the result may have any number of islands.
+export const offsetShape = (shape: BooleanShape, delta: number, join: OffsetJoin): BooleanShape[] => {
+    if (Math.abs(delta) < EPSILON) return [shape];
+    // Material on the left: outline runs with a positive standard area, holes the other way
+    const orient = (ring: Point[], isHole: boolean) => (getSignedArea(ring) < 0) !== isHole ? ring : [...ring].reverse();
+    const rings = [orient(shape.points, false), ...shape.holes.map(h => orient(h, true))]
+        .map(ring => offsetRing(ring, delta, join))
+        .filter(ring => ring.length >= 3);
+    try {
+        return resolvePositiveRings(rings);
+    } catch (e: any) {
+        const error = e instanceof ClipError ? e : new ClipError('INTERNAL', e?.message || String(e));
+        logger.error('OFFSET', `Offset by ${delta} failed: ${error.message}`, { code: error.code, ...error.details });
+        throw error;
+    }
+};
+
+// Signed distance from p to the entity's outline, positive on the side a positive offset moves
+// towards: outside closed shapes, and to the right of a line's start-to-end direction
+export const getOffsetDistance = (entity: Entity, p: Point): number | null => {
+    if (entity.type === 'line') {
+        const len = distance(entity.start, entity.end);
+        if (len < EPSILON) return null;
+        const dx = (entity.end.x - entity.start.x) / len, dy = (entity.end.y - entity.start.y) / len;
+        return (p.x - entity.start.x) * dy - (p.y - entity.start.y) * dx;
+    }
+    if (entity.type === 'circle') return distance(p, entity.center) - entity.radius;
+    if (entity.type === 'rectangle' || entity.type === 'polygon') {
+        const shape = entityToShape(entity);
+        const rings = [shape.points, ...shape.holes];
+        const d = Math.min(...rings.flatMap(ring => ring.map((a, i) => distanceToSegment(p, a, ring[(i + 1) % ring.length]))));
+        const inside = isPointInPoly(p, shape.points) && !shape.holes.some(h => isPointInPoly(p, h));
+        return inside ? -d : d;
+    }
+    return null;
+};
+
+export const isOffsetSupported = (entity: Entity) =>
+    entity.type === 'line' || entity.type === 'circle' || entity.type === 'rectangle' || entity.type === 'polygon';
+
+// Parallel copies of an entity at the given signed distance (see getOffsetDistance). Closed
+// shapes can split into several islands or vanish, so the result is a list.
+export const offsetEntity = (entity: Entity, delta: number, join: OffsetJoin): Entity[] => {
+    if (entity.type === 'line') {
+        const len = distance(entity.start, entity.end);
+        if (len < EPSILON) return [];
+        const nx = (entity.end.y - entity.start.y) / len * delta;
+        const ny = -(entity.end.x - entity.start.x) / len * delta;
+        const line: LineEntity = {
+            ...entity,
+            id: generateId(),
+            start: { x: entity.start.x + nx, y: entity.start.y + ny },
+            end: { x: entity.end.x + nx, y: entity.end.y + ny }
+        };
+        return [line];
+    }
+    if (entity.type === 'circle') {
+        const radius = entity.radius + delta;
+        return radius > EPSILON ? [{ ...entity, id: generateId(), radius } as CircleEntity] : [];
+    }
+    if (entity.type === 'rectangle' && join === 'miter') {
+        // Mitred rectangles stay rectangles
+        const width = entity.width + delta * 2, height = entity.height + delta * 2;
+        if (width <= EPSILON || height <= EPSILON) return [];
+        return [{ ...entity, id: generateId(), start: { x: entity.start.x - delta, y: entity.start.y - delta }, width, height } as RectEntity];
+    }
+    if (entity.type === 'rectangle' || entity.type === 'polygon') {
+        const base = entity.type === 'rectangle' ? rectToPolygon(entity) : entity;
+        const { holes: _holes, ...rest } = base;
+        return offsetShape(entityToShape(base), delta, join).map(({ points, holes }) => ({
+            ...rest,
+            id: generateId(),
+            points,
+            ...(holes.length ? { holes } : {})
+        } as PolygonEntity));
+    }
+    return [];
+};
+
+const pointsBounds = (points: Point[]) => {
+    const xs = points.map(p => p.x);
+    const ys = points.map(p => p.y);
+    return { x1: Math.min(...xs), y1: Math.min(...ys), x2: Math.max(...xs), y2: Math.max(...ys) };
+};
+
+const isNearPolyline = (p: Point, points: Point[], tolerance: number, closed: boolean) => {
+    const count = closed ? points.length : points.length - 1;
+    for (let i = 0; i < count; i++) {
+        if (distanceToSegment(p, points[i], points[(i + 1) % points.length]) < tolerance) return true;
+    }
+    return false;
+};
+
+// --- Annotations ---
+
+export const isAnnotation = (entity: Entity): entity is AnnotationEntity => entity.type === 'dimension' || entity.type === 'leader';
+
+// Annotations and hatches belong to the view they were drawn in and have no solid
+export const isDrafting = (entity: Entity): entity is AnnotationEntity | HatchEntity => isAnnotation(entity) || entity.type === 'hatch';
+
+export interface AnnotationArrow {
+    tip: Point;
+    angle: number; // Direction the arrow points in
+}
+
+export interface AnnotationText {
+    position: Point; // Middle of the text's height, at the aligned edge
+    angle: number;
+    value: string;
+    height: number;
+    align: 'left' | 'center' | 'right';
+}
+
+// What an annotation draws, in its view's coordinates; the canvas and the 2D exporters share it
+export interface AnnotationGeometry {
+    segments: [Point, Point][];
+    arcs: { center: Point; radius: number; startAngle: number; endAngle: number }[];
+    arrows: AnnotationArrow[];
+    text: AnnotationText;
+}
+
+const addScaled = (p: Point, v: Point, s: number): Point => ({ x: p.x + v.x * s, y: p.y + v.y * s });
+const unitVector = (from: Point, to: Point, fallback: Point = { x: 1, y: 0 }): Point => {
+    const len = distance(from, to);
+    return len > EPSILON ? { x: (to.x - from.x) / len, y: (to.y - from.y) / len } : fallback;
+};
+
+// Text never reads upside down
+const readableAngle = (angle: number) => {
+    let a = Math.atan2(Math.sin(angle), Math.cos(angle));
+    if (a > Math.PI / 2 + EPSILON) a -= Math.PI;
+    else if (a <= -Math.PI / 2 + EPSILON) a += Math.PI;
+    return a;
+};
+
+// Angular dimensions measure the side of the vertex that their arc position is on
+const getAngularSweep = (dim: DimensionEntity) => {
+    const [vertex, a, b] = dim.anchors.map(anchor => anchor.point);
+    const a1 = angleOf(vertex, a), a2 = angleOf(vertex, b);
+    const [startAngle, endAngle] = isAngleOnArc(angleOf(vertex, dim.position), a1, a2) ? [a1, a2] : [a2, a1];
+    return { startAngle, endAngle, sweep: getArcSweep(startAngle, endAngle) };
+};
+
+const formatMeasurement = (value: number) => Number(value.toFixed(2)).toString();
+
+export const measureDimension = (dim: DimensionEntity): number => {
+    const [p1, p2] = dim.anchors.map(a => a.point);
+    switch (dim.kind) {
+        case 'horizontal': return Math.abs(p2.x - p1.x);
+        case 'vertical': return Math.abs(p2.y - p1.y);
+        case 'radial': return dim.radius || 0;
+        case 'diameter': return (dim.radius || 0) * 2;
+        case 'angular': return getAngularSweep(dim).sweep * 180 / Math.PI;
+        default: return distance(p1, p2);
+    }
+};
+
+export const getDimensionText = (dim: DimensionEntity) => {
+    const value = formatMeasurement(measureDimension(dim));
+    const measured = dim.kind === 'radial' ? `R${value}` : dim.kind === 'diameter' ? `⌀${value}` : dim.kind === 'angular' ? `${value}°` : value;
+    return dim.text ? dim.text.replace(/<>/g, measured) : measured;
+};
+
+export const getAnnotationGeometry = (entity: AnnotationEntity): AnnotationGeometry => {
+    const h = entity.textHeight;
+    const gap = h * 0.3, overshoot = h * 0.5;
+    const result: AnnotationGeometry = { segments: [], arcs: [], arrows: [], text: { position: { x: 0, y: 0 }, angle: 0, value: '', height: h, align: 'center' } };
+
+    // Extension line from a measured point out to where the dimension is drawn
+    const extension = (from: Point, to: Point) => {
+        const len = distance(from, to);
+        if (len <= gap) return;
+        const u = unitVector(from, to);
+        result.segments.push([addScaled(from, u, gap), addScaled(to, u, overshoot)]);
+    };
+
+    if (entity.type === 'leader') {
+        const path = [entity.anchor.point, ...entity.points];
+        for (let i = 0; i + 1 < path.length; i++) result.segments.push([path[i], path[i + 1]]);
+        const last = path[path.length - 1];
+        if (path.length > 1) result.arrows.push({ tip: path[0], angle: angleOf(path[1], path[0]) });
+        // A short horizontal landing leads into the text, on the side the leader arrives from
+        const right = path.length < 2 || last.x >= path[path.length - 2].x;
+        const landing = { x: last.x + (right ? h : -h), y: last.y };
+        result.segments.push([last, landing]);
+        result.text = { ...result.text, position: { x: landing.x + (right ? gap : -gap), y: landing.y }, value: entity.text, align: right ? 'left' : 'right' };
+        return result;
+    }
+
+    const value = getDimensionText(entity);
+    const pos = entity.position;
+
+    if (entity.kind === 'radial' || entity.kind === 'diameter') {
+        const center = entity.anchors[0].point;
+        const r = entity.radius || 0;
+        const u = unitVector(center, pos);
+        const tip = addScaled(center, u, r);
+        const outside = distance(center, pos) > r;
+        const start = entity.kind === 'diameter' ? addScaled(center, u, -r) : center;
+        result.segments.push([start, outside ? pos : tip]);
+        result.arrows.push({ tip, angle: Math.atan2(u.y, u.x) });
+        if (entity.kind === 'diameter') result.arrows.push({ tip: start, angle: Math.atan2(-u.y, -u.x) });
+        const right = u.x >= 0;
+        result.text = { ...result.text, position: { x: pos.x + (right ? gap : -gap), y: pos.y }, value, align: right ? 'left' : 'right' };
+        return result;
+    }
+
+    if (entity.kind === 'angular') {
+        const vertex = entity.anchors[0].point;
+        const radius = distance(vertex, pos);
+        const { startAngle, endAngle, sweep } = getAngularSweep(entity);
+        result.arcs.push({ center: vertex, radius, startAngle, endAngle });
+        [entity.anchors[1].point, entity.anchors[2].point].forEach(p => {
+            const onArc = pointOnCircle(vertex, radius, angleOf(vertex, p));
+            if (distance(vertex, p) < radius) extension(p, onArc);
+        });
+        result.arrows.push({ tip: pointOnCircle(vertex, radius, startAngle), angle: startAngle - Math.PI / 2 });
+        result.arrows.push({ tip: pointOnCircle(vertex, radius, endAngle), angle: endAngle + Math.PI / 2 });
+        const mid = startAngle + sweep / 2;
+        result.text = { ...result.text, position: pointOnCircle(vertex, radius + h, mid), angle: readableAngle(mid + Math.PI / 2), value };
+        return result;
+    }
+
+    // Linear: the dimension line runs along the measured direction through `position`
+    const [p1, p2] = entity.anchors.map(a => a.point);
+    const dir = entity.kind === 'horizontal' ? { x: 1, y: 0 } : entity.kind === 'vertical' ? { x: 0, y: 1 } : unitVector(p1, p2);
+    const normal = { x: -dir.y, y: dir.x };
+    const offsetOf = (p: Point) => (pos.x - p.x) * normal.x + (pos.y - p.y) * normal.y;
+    const a = addScaled(p1, normal, offsetOf(p1));
+    const b = addScaled(p2, normal, offsetOf(p2));
+    extension(p1, a);
+    extension(p2, b);
+    result.segments.push([a, b]);
+    if (distance(a, b) > EPSILON) {
+        result.arrows.push({ tip: a, angle: angleOf(b, a) });
+        result.arrows.push({ tip: b, angle: angleOf(a, b) });
+    }
+    const angle = readableAngle(Math.atan2(dir.y, dir.x));
+    const up = { x: Math.sin(angle), y: -Math.cos(angle) }; // Above the line as the text reads
+    result.text = { ...result.text, position: addScaled({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }, up, h * 0.8), angle, value };
+    return result;
+};
+
+// Closed triangle for an arrowhead as long as the text is tall
+export const getArrowOutline = (arrow: AnnotationArrow, size: number): Point[] => {
+    const back = { x: -Math.cos(arrow.angle), y: -Math.sin(arrow.angle) };
+    const side = { x: -back.y, y: back.x };
+    const base = addScaled(arrow.tip, back, size);
+    return [arrow.tip, addScaled(base, side, size / 3), addScaled(base, side, -size / 3)];
+};
+
+// Approximate text box corners; glyph widths are taken as 0.6 of the height
+export const getTextOutline = (text: AnnotationText): Point[] => {
+    const width = text.value.length * text.height * 0.6;
+    const along = { x: Math.cos(text.angle), y: Math.sin(text.angle) };
+    const up = { x: Math.sin(text.angle), y: -Math.cos(text.angle) };
+    const startShift = text.align === 'left' ? 0 : text.align === 'right' ? -width : -width / 2;
+    const start = addScaled(text.position, along, startShift);
+    const end = addScaled(start, along, width);
+    return [addScaled(start, up, text.height / 2), addScaled(end, up, text.height / 2), addScaled(end, up, -text.height / 2), addScaled(start, up, -text.height / 2)];
+};
+
+const getAnnotationOutlines = (entity: AnnotationEntity): Point[][] => {
+    const g = getAnnotationGeometry(entity);
+    return [
+        ...g.segments,
+        ...g.arcs.map(arc => sampleArc({ ...arc, type: 'arc' } as ArcEntity)),
+        ...g.arrows.map(arrow => getArrowOutline(arrow, entity.textHeight)),
+        getTextOutline(g.text)
+    ];
+};
+
+const getAnnotationBounds = (entity: AnnotationEntity) => pointsBounds(getAnnotationOutlines(entity).flat());
+
+const isPointOnAnnotation = (p: Point, entity: AnnotationEntity, tolerance: number) => {
+    const g = getAnnotationGeometry(entity);
+    if (isPointInPoly(p, getTextOutline(g.text))) return true;
+    return getAnnotationOutlines(entity).some(path => isNearPolyline(p, path, tolerance, false));
+};
+
 export interface Handle {
   id: string;
   x: number;
   y: number;
   cursor: string;
-  type: 'start' | 'end' | 'center' | 'radius' | 'tl' | 'tr' | 'bl' | 'br' | 'poly-point' | 'light' | 'target';
+  type: 'start' | 'end' | 'center' | 'radius' | 'radius-x' | 'radius-y' | 'arc-start' | 'arc-end' | 'tl' | 'tr' | 'bl' | 'br' | 'poly-point' | 'light' | 'target';
   index?: number;
 }
 
@@ -174,16 +843,29 @@ export const getEntityHandles = (entity: Entity): Handle[] => {
       { id: 'radius', x: entity.center.x + entity.radius, y: entity.center.y, cursor: 'ew-resize', type: 'radius' },
     ];
   } else if (entity.type === 'rectangle') {
-    const { x, y } = entity.start;
-    const w = entity.width;
-    const h = entity.height;
+    const [tl, tr, br, bl] = getRectCorners(entity);
+    return [
+      { id: 'tl', x: tl.x, y: tl.y, cursor: 'nwse-resize', type: 'tl' },
+      { id: 'tr', x: tr.x, y: tr.y, cursor: 'nesw-resize', type: 'tr' },
+      { id: 'bl', x: bl.x, y: bl.y, cursor: 'nesw-resize', type: 'bl' },
+      { id: 'br', x: br.x, y: br.y, cursor: 'nwse-resize', type: 'br' },
+    ];
+  } else if (entity.type === 'arc') {
+    const { start, end } = getArcEndpoints(entity);
+    return [
+      { id: 'center', x: entity.center.x, y: entity.center.y, cursor: 'move', type: 'center' },
+      { id: 'arc-start', x: start.x, y: start.y, cursor: 'crosshair', type: 'arc-start' },
+      { id: 'arc-end', x: end.x, y: end.y, cursor: 'crosshair', type: 'arc-end' },
+    ];
+  } else if (entity.type === 'ellipse') {
+    const rx = pointOnCircle(entity.center, entity.radiusX, entity.rotation || 0);
+    const ry = pointOnCircle(entity.center, entity.radiusY, (entity.rotation || 0) + Math.PI / 2);
     return [
-      { id: 'tl', x: x, y: y, cursor: 'nwse-resize', type: 'tl' },
-      { id: 'tr', x: x + w, y: y, cursor: 'nesw-resize', type: 'tr' },
-      { id: 'bl', x: x, y: y + h, cursor: 'nesw-resize', type: 'bl' },
-      { id: 'br', x: x + w, y: y + h, cursor: 'nwse-resize', type: 'br' },
+      { id: 'center', x: entity.center.x, y: entity.center.y, cursor: 'move', type: 'center' },
+      { id: 'radius-x', x: rx.x, y: rx.y, cursor: 'crosshair', type: 'radius-x' },
+      { id: 'radius-y', x: ry.x, y: ry.y, cursor: 'crosshair', type: 'radius-y' },
     ];
-  } else if (entity.type === 'polygon') {
+  } else if (entity.type === 'polygon' || entity.type === 'spline' || entity.type === 'polyline') {
       return entity.points.map((p, i) => ({
           id: `p-${i}`,
           x: p.x,
@@ -219,10 +901,24 @@ export const isPointInEntity = (p: Point, entity: Entity, tolerance: number = 5)
         const d = distance(p, entity.center);
         return Math.abs(d - entity.radius) < tolerance || d < entity.radius; 
     } else if (entity.type === 'rectangle') {
+        // Test in the rectangle's own unrotated frame
+        const local = entity.rotation ? rotatePoint(p, getRectCenter(entity), -entity.rotation) : p;
         return (
-            p.x >= entity.start.x && p.x <= entity.start.x + entity.width &&
-            p.y >= entity.start.y && p.y <= entity.start.y + entity.height
+            local.x >= entity.start.x && local.x <= entity.start.x + entity.width &&
+            local.y >= entity.start.y && local.y <= entity.start.y + entity.height
         );
+    } else if (entity.type === 'arc') {
+        const d = distance(p, entity.center);
+        return Math.abs(d - entity.radius) < tolerance && isAngleOnArc(angleOf(entity.center, p), entity.startAngle, entity.endAngle);
+    } else if (entity.type === 'ellipse') {
+        const outline = sampleEllipse(entity);
+        return isPointInPoly(p, outline) || isNearPolyline(p, outline, tolerance, true);
+    } else if (entity.type === 'spline') {
+        const curve = sampleSpline(entity);
+        if (entity.closed && isPointInPoly(p, curve)) return true;
+        return isNearPolyline(p, curve, tolerance, entity.closed);
+    } else if (entity.type === 'polyline') {
+        return isNearPolyline(p, entity.points, Math.max(tolerance, (entity.thickness || 0) / 2), false);
     } else if (entity.type === 'light') {
         const effTolerance = Math.max(tolerance * 2, 15); 
         if (distance(p, entity.position) < effTolerance) return true;
@@ -252,12 +948,21 @@ export const isPointInEntity = (p: Point, entity: Entity, tolerance: number = 5)
              if(distance(p, proj) < tolerance) return true;
          }
          return false;
+    } else if (entity.type === 'text') {
+        // Anywhere on the text block, so thin glyphs and the gaps between them are easy to pick
+        return isPointInPoly(p, getTextBox(entity));
+    } else if (entity.type === 'hatch') {
+        const rings = [entity.points, ...(entity.holes || [])];
+        return rings.filter(ring => isPointInPoly(p, ring)).length % 2 === 1 || rings.some(ring => isNearPolyline(p, ring, tolerance, true));
+    } else if (isAnnotation(entity)) {
+        return isPointOnAnnotation(p, entity, tolerance);
     }
     return false;
 }
 
 export const getBounds = (entity: Entity) => {
     if (entity.type === 'rectangle') {
+        if (entity.rotation) return pointsBounds(getRectCorners(entity));
         return { x1: entity.start.x, y1: entity.start.y, x2: entity.start.x + entity.width, y2: entity.start.y + entity.height };
     } else if (entity.type === 'circle' || entity.type === 'sphere') {
         return { x1: entity.center.x - entity.radius, y1: entity.center.y - entity.radius, x2: entity.center.x + entity.radius, y2: entity.center.y + entity.radius };
@@ -267,8 +972,29 @@ export const getBounds = (entity: Entity) => {
         const xs = entity.points.map(p => p.x);
         const ys = entity.points.map(p => p.y);
         return { x1: Math.min(...xs), y1: Math.min(...ys), x2: Math.max(...xs), y2: Math.max(...ys) };
+    } else if (entity.type === 'arc') {
+        return pointsBounds(sampleArc(entity));
+    } else if (entity.type === 'ellipse') {
+        const cos = Math.cos(entity.rotation || 0);
+        const sin = Math.sin(entity.rotation || 0);
+        const hw = Math.sqrt((entity.radiusX * cos) ** 2 + (entity.radiusY * sin) ** 2);
+        const hh = Math.sqrt((entity.radiusX * sin) ** 2 + (entity.radiusY * cos) ** 2);
+        return { x1: entity.center.x - hw, y1: entity.center.y - hh, x2: entity.center.x + hw, y2: entity.center.y + hh };
+    } else if (entity.type === 'spline') {
+        return pointsBounds(sampleSpline(entity));
+    } else if (entity.type === 'polyline') {
+        const outline = getPolylineOutline(entity);
+        return pointsBounds(outline.length ? outline : entity.points);
     } else if (entity.type === 'light') {
         return { x1: entity.position.x - 10, y1: entity.position.y - 10, x2: entity.position.x + 10, y2: entity.position.y + 10 };
+    } else if (entity.type === 'mesh' && entity.outlines.top.length > 0) {
+        return pointsBounds(entity.outlines.top.map(p => ({ x: p.x + entity.center.x, y: p.y + entity.center.y })));
+    } else if (entity.type === 'text') {
+        return pointsBounds(getTextBox(entity));
+    } else if (entity.type === 'hatch') {
+        return pointsBounds(entity.points);
+    } else if (isAnnotation(entity)) {
+        return getAnnotationBounds(entity);
     }
     return { x1: 0, y1: 0, x2: 0, y2: 0 };
 }
@@ -285,18 +1011,257 @@ export const distanceToSegment = (p: Point, v: Point, w: Point) => {
   return distance(p, { x: v.x + t * (w.x - v.x), y: v.y + t * (w.y - v.y) });
 }
 
-// --- Robust Boolean Logic: Segment Stitching ---
+// --- Intersections ---
+
+// Parameters of the crossing of the infinite lines p1->p2 and p3->p4, or null when parallel
+const lineParams = (p1: Point, p2: Point, p3: Point, p4: Point): { ua: number, ub: number } | null => {
+    const denom = (p4.y - p3.y) * (p2.x - p1.x) - (p4.x - p3.x) * (p2.y - p1.y);
+    if (Math.abs(denom) < 1e-9) return null;
+    return {
+        ua: ((p4.x - p3.x) * (p1.y - p3.y) - (p4.y - p3.y) * (p1.x - p3.x)) / denom,
+        ub: ((p2.x - p1.x) * (p1.y - p3.y) - (p2.y - p1.y) * (p1.x - p3.x)) / denom
+    };
+};
+
+// Proper crossing of two segments (touching at an end does not count)
+export const getIntersection = (p1: Point, p2: Point, p3: Point, p4: Point): Point | null => {
+    const params = lineParams(p1, p2, p3, p4);
+    if (!params) return null;
+    const { ua, ub } = params;
+    if (ua > EPSILON && ua < 1 - EPSILON && ub > EPSILON && ub < 1 - EPSILON) {
+        return {
+            x: p1.x + ua * (p2.x - p1.x),
+            y: p1.y + ua * (p2.y - p1.y)
+        };
+    }
+    return null;
+};
+
+const ringSegments = (ring: Point[], closed: boolean): [Point, Point][] =>
+    ring.slice(0, closed ? ring.length : ring.length - 1).map((p, i) => [p, ring[(i + 1) % ring.length]]);
+
+// Parameters along the infinite line a->b (0 at a, 1 at b) where it meets the entity's outline
+export const getLineEntityParams = (a: Point, b: Point, entity: Entity): number[] => {
+    if (entity.type === 'circle' || entity.type === 'sphere' || entity.type === 'arc') {
+        const dx = b.x - a.x, dy = b.y - a.y;
+        const fx = a.x - entity.center.x, fy = a.y - entity.center.y;
+        const qa = dx * dx + dy * dy;
+        const qb = 2 * (fx * dx + fy * dy);
+        const qc = fx * fx + fy * fy - entity.radius * entity.radius;
+        const disc = qb * qb - 4 * qa * qc;
+        if (qa === 0 || disc < 0) return [];
+        const root = Math.sqrt(disc);
+        const params = [(-qb - root) / (2 * qa), (-qb + root) / (2 * qa)];
+        if (entity.type !== 'arc') return params;
+        return params.filter(t => isAngleOnArc(angleOf(entity.center, { x: a.x + dx * t, y: a.y + dy * t }), entity.startAngle, entity.endAngle));
+    }
+
+    let segments: [Point, Point][] = [];
+    if (entity.type === 'line') segments = [[entity.start, entity.end]];
+    else if (entity.type === 'rectangle' || entity.type === 'polygon') {
+        const polygon = entity.type === 'rectangle' ? rectToPolygon(entity) : entity;
+        segments = getPolygonRings(polygon).flatMap(ring => ringSegments(ring, true));
+    }
+    else if (entity.type === 'polyline') segments = ringSegments(entity.points, false);
+    else if (entity.type === 'ellipse') segments = ringSegments(sampleEllipse(entity), true);
+    else if (entity.type === 'spline') segments = ringSegments(sampleSpline(entity), entity.closed);
+
+    const params: number[] = [];
+    segments.forEach(([p3, p4]) => {
+        const hit = lineParams(a, b, p3, p4);
+        if (hit && hit.ub >= -EPSILON && hit.ub <= 1 + EPSILON) params.push(hit.ua);
+    });
+    return params;
+};
+
+// --- Trim, Extend, Split ---
+
+// Paths are addressed by a parameter s: segment floor(s), fraction s - floor(s) along it
+const pointAtParam = (points: Point[], s: number): Point => {
+    const i = Math.min(Math.floor(s), points.length - 1);
+    const a = points[i % points.length];
+    const b = points[(i + 1) % points.length];
+    const t = s - i;
+    return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+};
+
+// The part of a path between two parameters, running forward (and round, on closed paths)
+const slicePath = (points: Point[], closed: boolean, from: number, to: number): Point[] => {
+    const n = points.length;
+    const end = closed && to <= from ? to + n : to;
+    const result = [pointAtParam(points, from)];
+    for (let k = Math.floor(from) + 1; k < end; k++) result.push(points[k % n]);
+    result.push(pointAtParam(points, closed ? end % n : end));
+    return result.filter((p, i) => i === 0 || !arePointsEqual(p, result[i - 1]));
+};
+
+const nearestParam = (points: Point[], closed: boolean, p: Point): number => {
+    let best = 0, bestDist = Infinity;
+    ringSegments(points, closed).forEach(([a, b], i) => {
+        const l2 = distance(a, b) ** 2;
+        const t = l2 === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / l2));
+        const d = distance(p, { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+        if (d < bestDist) { bestDist = d; best = i + t; }
+    });
+    return best;
+};
+
+// Where the boundaries cross the path, as sorted path parameters
+const pathCuts = (points: Point[], closed: boolean, boundaries: Entity[]): number[] => {
+    const cuts: number[] = [];
+    ringSegments(points, closed).forEach(([a, b], i) => {
+        boundaries.forEach(boundary => {
+            getLineEntityParams(a, b, boundary).forEach(t => {
+                if (t >= -EPSILON && t <= 1 + EPSILON) cuts.push(i + Math.max(0, Math.min(1, t)));
+            });
+        });
+    });
+    const last = closed ? points.length : points.length - 1;
+    return cuts
+        .map(s => closed && s >= last - EPSILON ? 0 : s)
+        .filter(s => closed || (s > EPSILON && s < last - EPSILON))
+        .sort((x, y) => x - y)
+        .filter((s, i, all) => i === 0 || s - all[i - 1] > EPSILON);
+};
+
+export interface EntityEdit {
+    updated: Entity[];
+    added: Entity[];
+}
+
+export const isTrimSupported = (entity: Entity) =>
+    entity.type === 'line' || entity.type === 'polyline' || entity.type === 'rectangle' || entity.type === 'polygon';
+
+// Removes the piece of the path under p that lies between the nearest boundary crossings on
+// either side of it. Trimming a closed outline opens it, so a polygon comes back as polylines.
+// Returns null when no boundary crosses the picked piece.
+export const trimEntity = (entity: Entity, p: Point, boundaries: Entity[]): EntityEdit | null => {
+    if (!isTrimSupported(entity)) return null;
+    const others = boundaries.filter(b => b.id !== entity.id);
+
+    if (entity.type === 'line' || entity.type === 'polyline') {
+        const points = entity.type === 'line' ? [entity.start, entity.end] : entity.points;
+        const cuts = pathCuts(points, false, others);
+        const sc = nearestParam(points, false, p);
+        const lo = [...cuts].reverse().find(s => s < sc);
+        const hi = cuts.find(s => s > sc);
+        if (lo === undefined && hi === undefined) return null;
+
+        const pieces: Point[][] = [];
+        if (lo !== undefined) pieces.push(slicePath(points, false, 0, lo));
+        if (hi !== undefined) pieces.push(slicePath(points, false, hi, points.length - 1));
+        const toEntity = (piece: Point[], id: string): Entity => entity.type === 'line'
+            ? { ...entity, id, start: piece[0], end: piece[piece.length - 1] }
+            : { ...entity, id, points: piece };
+        return {
+            updated: [toEntity(pieces[0], entity.id)],
+            added: pieces.slice(1).map(piece => toEntity(piece, generateId()))
+        };
+    }
+
+    const polygon = entity.type === 'rectangle' ? rectToPolygon(entity) : entity as PolygonEntity;
+    const rings = getPolygonRings(polygon);
+    let ringIndex = 0, bestDist = Infinity;
+    rings.forEach((ring, r) => {
+        const d = Math.min(...ringSegments(ring, true).map(([a, b]) => distanceToSegment(p, a, b)));
+        if (d < bestDist) { bestDist = d; ringIndex = r; }
+    });
+    const ring = rings[ringIndex];
+    const cuts = pathCuts(ring, true, others);
+    if (cuts.length < 2) return null;
+    const sc = nearestParam(ring, true, p);
+    const lo = [...cuts].reverse().find(s => s < sc) ?? cuts[cuts.length - 1];
+    const hi = cuts.find(s => s > sc) ?? cuts[0];
+
+    const { holes: _holes, ...rest } = polygon;
+    const asPolyline = (points: Point[], id: string): PolylineEntity =>
+        ({ ...rest, id, type: 'polyline', points, thickness: DEFAULT_POLYLINE_THICKNESS });
+    const opened = slicePath(ring, true, hi, lo);
+
+    if (ringIndex === 0) {
+        // Without its outline the holes no longer bound anything; they stay as closed chains
+        return {
+            updated: [asPolyline(opened, polygon.id)],
+            added: (polygon.holes || []).map(h => asPolyline([...h, h[0]], generateId()))
+        };
+    }
+    return {
+        updated: [{ ...polygon, holes: (polygon.holes || []).filter((_, k) => k !== ringIndex - 1) }],
+        added: [asPolyline(opened, generateId())]
+    };
+};
+
+// Lengthens the end of a line or polyline nearest to p up to the first boundary ahead of it
+export const extendEntity = (entity: Entity, p: Point, boundaries: Entity[]): Entity | null => {
+    if (entity.type !== 'line' && entity.type !== 'polyline') return null;
+    const points = entity.type === 'line' ? [entity.start, entity.end] : entity.points;
+    if (points.length < 2) return null;
+    const atStart = distance(p, points[0]) < distance(p, points[points.length - 1]);
+    const end = atStart ? points[0] : points[points.length - 1];
+    const prev = atStart ? points[1] : points[points.length - 2];
+    const len = distance(prev, end);
+    if (len < EPSILON) return null;
+
+    // Parameters beyond 1 lie past the end, along the direction the path arrives in
+    const ahead = boundaries
+        .filter(b => b.id !== entity.id)
+        .flatMap(b => getLineEntityParams(prev, end, b))
+        .filter(t => (t - 1) * len > EPSILON);
+    if (ahead.length === 0) return null;
+    const t = Math.min(...ahead);
+    const reached = { x: prev.x + (end.x - prev.x) * t, y: prev.y + (end.y - prev.y) * t };
+
+    if (entity.type === 'line') {
+        return atStart ? { ...entity, start: reached } : { ...entity, end: reached };
+    }
+    const newPoints = [...entity.points];
+    newPoints[atStart ? 0 : newPoints.length - 1] = reached;
+    return { ...entity, points: newPoints };
+};
+
+export const isSplitSupported = (entity: Entity) =>
+    entity.type === 'line' || entity.type === 'polyline' || entity.type === 'arc';
+
+// Cuts a line, polyline or arc in two at the point of it nearest to p
+export const splitEntity = (entity: Entity, p: Point): EntityEdit | null => {
+    if (entity.type === 'arc') {
+        const angle = angleOf(entity.center, p);
+        const sweep = getArcSweep(entity.startAngle, entity.endAngle);
+        const along = getArcSweep(entity.startAngle, angle);
+        if (along < EPSILON || along > sweep - EPSILON) return null;
+        return {
+            updated: [{ ...entity, endAngle: angle }],
+            added: [{ ...entity, id: generateId(), startAngle: angle }]
+        };
+    }
+    if (entity.type !== 'line' && entity.type !== 'polyline') return null;
+    const points = entity.type === 'line' ? [entity.start, entity.end] : entity.points;
+    const s = nearestParam(points, false, p);
+    if (s < EPSILON || s > points.length - 1 - EPSILON) return null;
+    const first = slicePath(points, false, 0, s);
+    const second = slicePath(points, false, s, points.length - 1);
+    if (entity.type === 'line') {
+        return {
+            updated: [{ ...entity, end: first[1] }],
+            added: [{ ...entity, id: generateId(), start: second[0] }]
+        };
+    }
+    return {
+        updated: [{ ...entity, points: first }],
+        added: [{ ...entity, id: generateId(), points: second }]
+    };
+};
+
+// --- Boolean Operands ---
 
 export const convertToPoints = (ent: Entity): Point[] => {
     if (ent.type === 'polygon') return ent.points;
-    if (ent.type === 'rectangle') {
-        return [
-            { x: ent.start.x, y: ent.start.y },
-            { x: ent.start.x + ent.width, y: ent.start.y },
-            { x: ent.start.x + ent.width, y: ent.start.y + ent.height },
-            { x: ent.start.x, y: ent.start.y + ent.height },
-        ];
-    }
+    // Open curves close along their chord
+    if (ent.type === 'arc') return sampleArc(ent);
+    if (ent.type === 'ellipse') return sampleEllipse(ent);
+    if (ent.type === 'spline') return sampleSpline(ent);
+    if (ent.type === 'polyline') return getPolylineOutline(ent);
+    if (ent.type === 'rectangle') return getRectCorners(ent);
     if (ent.type === 'circle' || ent.type === 'sphere') {
         const pts = [];
         const segs = 64; 
@@ -331,23 +1296,7 @@ export const convertToPoints = (ent: Entity): Point[] => {
     return [];
 }
 
-const getIntersection = (p1: Point, p2: Point, p3: Point, p4: Point): Point | null => {
-    const denom = (p4.y - p3.y) * (p2.x - p1.x) - (p4.x - p3.x) * (p2.y - p1.y);
-    if (Math.abs(denom) < 1e-9) return null; 
-    
-    const ua = ((p4.x - p3.x) * (p1.y - p3.y) - (p4.y - p3.y) * (p1.x - p3.x)) / denom;
-    const ub = ((p2.x - p1.x) * (p1.y - p3.y) - (p2.y - p1.y) * (p1.x - p3.x)) / denom;
-    
-    if (ua > EPSILON && ua < 1 - EPSILON && ub > EPSILON && ub < 1 - EPSILON) {
-        return {
-            x: p1.x + ua * (p2.x - p1.x),
-            y: p1.y + ua * (p2.y - p1.y)
-        };
-    }
-    return null;
-}
-
-const isPointInPoly = (p: Point, poly: Point[]) => {
+export const isPointInPoly = (p: Point, poly: Point[]) => {
     let inside = false;
     for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
         const xi = poly[i].x, yi = poly[i].y;
@@ -358,7 +1307,7 @@ const isPointInPoly = (p: Point, poly: Point[]) => {
     return inside;
 }
 
-const getSignedArea = (points: Point[]): number => {
+export const getSignedArea = (points: Point[]): number => {
     let area = 0;
     for(let i=0; i<points.length; i++) {
         const j = (i+1) % points.length;
@@ -367,35 +1316,6 @@ const getSignedArea = (points: Point[]): number => {
     return area / 2.0;
 }
 
-const injectIntersections = (subject: Point[], clip: Point[]): Point[] => {
-    const newSubject: Point[] = [];
-    
-    for (let i=0; i<subject.length; i++) {
-        const s1 = subject[i];
-        const s2 = subject[(i+1)%subject.length];
-        newSubject.push(s1);
-        
-        const intersections: { t: number, p: Point }[] = [];
-        
-        for (let j=0; j<clip.length; j++) {
-            const c1 = clip[j];
-            const c2 = clip[(j+1)%clip.length];
-            const int = getIntersection(s1, s2, c1, c2);
-            if (int) {
-                intersections.push({ t: distance(s1, int), p: int });
-            }
-        }
-        
-        intersections.sort((a, b) => a.t - b.t);
-        intersections.forEach(int => {
-            if (!arePointsEqual(int.p, s1) && !arePointsEqual(int.p, s2)) {
-                newSubject.push(int.p);
-            }
-        });
-    }
-    return newSubject;
-}
-
 export const cleanPolygon = (points: Point[]): Point[] => {
     if (points.length < 3) return points;
     const cleaned = points.filter((p, i) => {
@@ -407,183 +1327,113 @@ export const cleanPolygon = (points: Point[]): Point[] => {
     return cleaned;
 }
 
-interface Segment { p1: Point; p2: Point; }
-
-const stitchSegments = (segments: Segment[]): Point[][] => {
-    if (segments.length === 0) return [];
-
-    const polygons: Point[][] = [];
-    let watchdog = 0;
-
-    while (segments.length > 0 && watchdog < 5000) {
-        const orderedPoints: Point[] = [];
-        let currentSeg = segments[0];
-        segments.splice(0, 1);
-        orderedPoints.push(currentSeg.p1);
-        
-        let loopWatchdog = 0;
-        let loopClosed = false;
-
-        while(loopWatchdog < 2000) {
-            const tail = currentSeg.p2;
-            let nextIdx = -1;
-            let minD = 9999;
-            
-            for(let i=0; i<segments.length; i++) {
-                const d = distance(tail, segments[i].p1);
-                if (d < minD) {
-                    minD = d;
-                    nextIdx = i;
-                }
-            }
+// Andrew's monotone chain; returns the hull counter-clockwise without repeating the first point
+export const convexHull = (points: Point[]): Point[] => {
+    const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+    if (sorted.length < 3) return sorted;
+    const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
 
-            if (nextIdx !== -1 && minD < 5.0) {
-                orderedPoints.push(currentSeg.p2);
-                currentSeg = segments[nextIdx];
-                segments.splice(nextIdx, 1);
-                
-                // Check if closed
-                if (distance(currentSeg.p2, orderedPoints[0]) < 5.0) {
-                     orderedPoints.push(currentSeg.p2);
-                     loopClosed = true;
-                     break;
-                }
-            } else {
-                // Check if we connect back to start with current segment
-                if (distance(currentSeg.p2, orderedPoints[0]) < 5.0) {
-                    orderedPoints.push(currentSeg.p2);
-                    loopClosed = true;
-                }
-                break;
-            }
-            loopWatchdog++;
-        }
-        
-        if (loopClosed && orderedPoints.length > 2) {
-            polygons.push(cleanPolygon(orderedPoints));
-        }
-        watchdog++;
+    const lower: Point[] = [];
+    for (const p of sorted) {
+        while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+        lower.push(p);
     }
-    
-    return polygons;
-}
+    const upper: Point[] = [];
+    for (let i = sorted.length - 1; i >= 0; i--) {
+        const p = sorted[i];
+        while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+        upper.push(p);
+    }
+    lower.pop();
+    upper.pop();
+    return lower.concat(upper);
+};
 
-// SHARED LOGIC
-const prepareBooleanOperands = (s: Entity, c: Entity) => {
-    let sPoly = cleanPolygon(convertToPoints(s));
-    let cPoly = cleanPolygon(convertToPoints(c));
-    
-    if (getSignedArea(sPoly) < 0) sPoly.reverse();
-    if (getSignedArea(cPoly) < 0) cPoly.reverse();
-    
-    return { sPoly, cPoly };
-}
+// Groups closed rings into outer boundaries and holes by containment depth:
+// even depth = outer ring, odd depth = hole of the ring directly around it.
+export const nestRings = <T>(
+    items: T[],
+    getPoints: (item: T) => Point[],
+    canContain: (outer: T, inner: T) => boolean = () => true
+): { outer: T, holes: T[] }[] => {
+    const sorted = [...items].sort((a, b) => Math.abs(getSignedArea(getPoints(b))) - Math.abs(getSignedArea(getPoints(a))));
+    const parents: number[] = sorted.map(() => -1);
+    const depths: number[] = sorted.map(() => 0);
 
-export const booleanSubtract = (subject: Entity, clip: Entity): { polys: Point[][], holes: Point[][] } => {
-    try {
-        logger.log('BOOLEAN', `Subtracting ${clip.type} from ${subject.type}`);
-        const { sPoly, cPoly } = prepareBooleanOperands(subject, clip);
-        if (sPoly.length < 3 || cPoly.length < 3) return { polys: [sPoly], holes: [] };
-
-        // Check bounds optimization
-        const sB = getBounds(subject);
-        const cB = getBounds(clip);
-        if (!doRectsIntersect(sB, cB)) return { polys: [sPoly], holes: [] };
-
-        let clipInside = true;
-        for(const p of cPoly) { if (!isPointInPoly(p, sPoly)) { clipInside = false; break; } }
-        if (clipInside) {
-            const existingHoles = (subject as PolygonEntity).holes || [];
-            return { polys: [sPoly], holes: [...existingHoles, cPoly] };
-        }
-        
-        let subjectInside = true;
-        for(const p of sPoly) { if (!isPointInPoly(p, cPoly)) { subjectInside = false; break; } }
-        if (subjectInside) return { polys: [], holes: [] };
-
-        const sWithInts = cleanPolygon(injectIntersections(sPoly, cPoly));
-        const cWithInts = cleanPolygon(injectIntersections(cPoly, sPoly));
-        
-        const resultSegments: Segment[] = [];
-
-        // Subject segments NOT in Clip
-        for(let i=0; i<sWithInts.length; i++) {
-            const p1 = sWithInts[i];
-            const p2 = sWithInts[(i+1)%sWithInts.length];
-            const mid = { x: (p1.x+p2.x)/2, y: (p1.y+p2.y)/2 };
-            if (!isPointInPoly(mid, cPoly)) resultSegments.push({ p1, p2 });
+    sorted.forEach((item, i) => {
+        for (let j = i - 1; j >= 0; j--) {
+            if (!canContain(sorted[j], item)) continue;
+            const outer = getPoints(sorted[j]);
+            if (getPoints(item).every(p => isPointInPoly(p, outer))) {
+                parents[i] = j;
+                depths[i] = depths[j] + 1;
+                break;
+            }
         }
+    });
 
-        // Clip segments INSIDE Subject (Reversed)
-        for(let i=0; i<cWithInts.length; i++) {
-            const p1 = cWithInts[i];
-            const p2 = cWithInts[(i+1)%cWithInts.length];
-            const mid = { x: (p1.x+p2.x)/2, y: (p1.y+p2.y)/2 };
-            if (isPointInPoly(mid, sPoly)) resultSegments.push({ p1: p2, p2: p1 });
-        }
+    const shapes = new Map<number, { outer: T, holes: T[] }>();
+    sorted.forEach((item, i) => {
+        if (depths[i] % 2 === 0) shapes.set(i, { outer: item, holes: [] });
+    });
+    sorted.forEach((item, i) => {
+        if (depths[i] % 2 === 1) shapes.get(parents[i])?.holes.push(item);
+    });
+    return Array.from(shapes.values());
+};
+
+export const entityToShape = (entity: Entity): BooleanShape => ({
+    points: convertToPoints(entity),
+    holes: entity.type === 'polygon' ? (entity.holes || []) : []
+});
 
-        // Stitching can return multiple islands (polygons)
-        const finalPolys = stitchSegments(resultSegments);
-        logger.log('BOOLEAN', `Result Islands: ${finalPolys.length}`);
-        return { polys: finalPolys, holes: (subject as PolygonEntity).holes || [] };
+// Text is one shape per glyph island; everything else is a single shape
+export const entityToShapes = (entity: Entity): BooleanShape[] =>
+    entity.type === 'text' ? getTextShapes(entity) : [entityToShape(entity)];
 
+// Boolean of two shapes with holes, one result shape per island.
+// Failures are logged with their code and rethrown as ClipError; callers decide how to surface them.
+export const booleanShapes = (a: BooleanShape, b: BooleanShape, op: BooleanOp): BooleanShape[] => {
+    try {
+        return clipShapes(a, b, op);
     } catch (e: any) {
-        logger.error('BOOLEAN', 'Subtract Failed', e);
-        return { polys: [convertToPoints(subject)], holes: [] };
+        const error = e instanceof ClipError ? e : new ClipError('INTERNAL', e?.message || String(e));
+        logger.error('BOOLEAN', `${op} failed: ${error.message}`, { code: error.code, ...error.details });
+        throw error;
     }
-}
+};
 
-export const booleanUnion = (entities: Entity[]): { points: Point[], holes: Point[][] } => {
-    if (entities.length < 2) return { points: [], holes: [] };
-    
-    try {
-        logger.log('BOOLEAN', 'Starting Union...');
-        let currentPoly = cleanPolygon(convertToPoints(entities[0]));
-        let currentHoles = (entities[0] as PolygonEntity).holes || [];
-
-        for(let k=1; k<entities.length; k++) {
-            const nextPoly = cleanPolygon(convertToPoints(entities[k]));
-            if(nextPoly.length < 3) continue;
-            
-            if(getSignedArea(currentPoly) < 0) currentPoly.reverse();
-            const nextPolyCW = getSignedArea(nextPoly) < 0 ? [...nextPoly].reverse() : nextPoly;
-
-            const sWithInts = cleanPolygon(injectIntersections(currentPoly, nextPolyCW));
-            const cWithInts = cleanPolygon(injectIntersections(nextPolyCW, currentPoly));
-            
-            const resultSegments: Segment[] = [];
-            
-            for(let i=0; i<sWithInts.length; i++) {
-                const p1 = sWithInts[i];
-                const p2 = sWithInts[(i+1)%sWithInts.length];
-                const mid = { x: (p1.x+p2.x)/2, y: (p1.y+p2.y)/2 };
-                if (!isPointInPoly(mid, nextPolyCW)) resultSegments.push({ p1, p2 });
-            }
+// Union of any number of entities. Returns one shape per resulting island; holes of
+// every operand survive wherever no other operand covers them.
+export const booleanUnion = (entities: Entity[]): BooleanShape[] => {
+    if (entities.length < 2) return [];
 
-            for(let i=0; i<cWithInts.length; i++) {
-                const p1 = cWithInts[i];
-                const p2 = cWithInts[(i+1)%cWithInts.length];
-                const mid = { x: (p1.x+p2.x)/2, y: (p1.y+p2.y)/2 };
-                if (!isPointInPoly(mid, currentPoly)) resultSegments.push({ p1, p2 });
-            }
-            
-            if (resultSegments.length === 0) {
-                let aInB = true;
-                for(const p of currentPoly) { if(!isPointInPoly(p, nextPolyCW)) { aInB = false; break; } }
-                if (aInB) {
-                    currentPoly = nextPolyCW;
-                    currentHoles = (entities[k] as PolygonEntity).holes || []; 
-                } 
-            } else {
-                const stitched = stitchSegments(resultSegments);
-                if (stitched.length > 0) currentPoly = stitched[0]; 
-            }
+    logger.log('BOOLEAN', 'Starting Union...');
+    let islands: BooleanShape[] = [];
+
+    entities.flatMap(entityToShapes).forEach(shape => {
+        let merged = shape;
+        if (merged.points.length < 3) return;
+
+        // Absorb every island the growing shape touches until none are left to join
+        let changed = true;
+        while (changed) {
+            changed = false;
+            const untouched: BooleanShape[] = [];
+            islands.forEach(island => {
+                const result = booleanShapes(merged, island, 'union');
+                if (result.length === 1) {
+                    merged = result[0];
+                    changed = true;
+                } else {
+                    untouched.push(island);
+                }
+            });
+            islands = untouched;
         }
-        
-        return { points: currentPoly, holes: currentHoles };
+        islands.push(merged);
+    });
 
-    } catch(e: any) {
-        logger.error('BOOLEAN', 'Union Failed', e);
-        return { points: convertToPoints(entities[0]), holes: [] };
-    }
+    logger.log('BOOLEAN', `Union produced ${islands.length} island(s)`);
+    return islands;
 }
@@ -0,0 +1,322 @@
+import { ShapeUtils, Vector2 } from 'three';
+import { Entity, HatchEntity, HatchPattern, Point } from '../types';
+import { distance, isPointInPoly, sampleArc, sampleEllipse, sampleSpline, getRectCorners, convertToPoints, entityToShapes, isDrafting } from './geometry';
+import type { BooleanShape } from './clipping';
+
+// Hatches fill a boundary (with holes) with a solid colour or families of parallel lines.
+// The lines are laid out from the drawing origin, so neighbouring hatches of the same
+// pattern, angle and scale line up across their shared edges.
+
+export const HATCH_PATTERNS: { id: HatchPattern, label: string }[] = [
+    { id: 'solid', label: 'Solid' },
+    { id: 'ansi31', label: 'ANSI31 (iron, general)' },
+    { id: 'ansi32', label: 'ANSI32 (steel)' },
+    { id: 'ansi33', label: 'ANSI33 (bronze, brass)' },
+    { id: 'ansi37', label: 'ANSI37 (crosshatch)' },
+    { id: 'net', label: 'Square grid' },
+];
+
+// One family of parallel lines: its angle in degrees, where it sits within the repeat and
+// optional dashes (on, off, on, off...), all in fractions of the hatch scale
+interface PatternLine {
+    angle: number;
+    offset: number;
+    dashes?: number[];
+}
+
+const PATTERN_LINES: Record<Exclude<HatchPattern, 'solid'>, PatternLine[]> = {
+    ansi31: [{ angle: 45, offset: 0 }],
+    ansi32: [{ angle: 45, offset: 0 }, { angle: 45, offset: 0.25 }],
+    ansi33: [{ angle: 45, offset: 0 }, { angle: 45, offset: 0.5, dashes: [0.5, 0.25] }],
+    ansi37: [{ angle: 45, offset: 0 }, { angle: 135, offset: 0 }],
+    net: [{ angle: 0, offset: 0 }, { angle: 90, offset: 0 }],
+};
+
+const MAX_LINES_PER_FAMILY = 2000; // Finer patterns over larger areas are thinned out
+const MAX_BOUNDARY_SEGMENTS = 20000;
+
+const getRings = (hatch: HatchEntity) => [hatch.points, ...(hatch.holes || [])].filter(r => r.length > 2);
+
+// Pattern lines clipped to the boundary, even-odd across the outline and its holes
+export const getHatchSegments = (hatch: HatchEntity): [Point, Point][] => {
+    if (hatch.pattern === 'solid' || !(hatch.scale > 0)) return [];
+    const rings = getRings(hatch);
+    if (rings.length === 0) return [];
+    const segments: [Point, Point][] = [];
+
+    (PATTERN_LINES[hatch.pattern] || PATTERN_LINES.ansi31).forEach(family => {
+        const angle = (hatch.angle || 0) + family.angle * Math.PI / 180;
+        const dir = { x: Math.cos(angle), y: Math.sin(angle) };
+        const normal = { x: -dir.y, y: dir.x };
+        const across = (p: Point) => p.x * normal.x + p.y * normal.y;
+        const along = (p: Point) => p.x * dir.x + p.y * dir.y;
+
+        const levels = rings.flat().map(across);
+        const min = Math.min(...levels), max = Math.max(...levels);
+        let period = hatch.scale;
+        const count = (max - min) / period;
+        if (count > MAX_LINES_PER_FAMILY) period *= Math.ceil(count / MAX_LINES_PER_FAMILY);
+        const offset = family.offset * hatch.scale;
+
+        for (let k = Math.ceil((min - offset) / period); offset + k * period <= max; k++) {
+            const c = offset + k * period;
+            const hits: number[] = [];
+            rings.forEach(ring => ring.forEach((a, i) => {
+                const b = ring[(i + 1) % ring.length];
+                const sa = across(a) - c, sb = across(b) - c;
+                if ((sa > 0) === (sb > 0)) return;
+                const t = sa / (sa - sb);
+                hits.push(along(a) + (along(b) - along(a)) * t);
+            }));
+            hits.sort((x, y) => x - y);
+            const at = (u: number): Point => ({ x: normal.x * c + dir.x * u, y: normal.y * c + dir.y * u });
+            for (let i = 0; i + 1 < hits.length; i += 2) {
+                dashSpans(hits[i], hits[i + 1], family.dashes, hatch.scale).forEach(([u0, u1]) => segments.push([at(u0), at(u1)]));
+            }
+        }
+    });
+    return segments;
+};
+
+// The drawn parts of [from, to] along a line, with the dashes repeating from the origin
+const dashSpans = (from: number, to: number, dashes: number[] | undefined, scale: number): [number, number][] => {
+    if (!dashes || dashes.length < 2) return [[from, to]];
+    const lengths = dashes.map(d => d * scale);
+    const repeat = lengths.reduce((sum, d) => sum + d, 0);
+    const spans: [number, number][] = [];
+    for (let start = Math.floor(from / repeat) * repeat; start < to; start += repeat) {
+        let u = start;
+        lengths.forEach((length, i) => {
+            if (i % 2 === 0) {
+                const a = Math.max(u, from), b = Math.min(u + length, to);
+                if (b > a) spans.push([a, b]);
+            }
+            u += length;
+        });
+    }
+    return spans;
+};
+
+// A solid hatch as triangles, for formats that cannot fill a region with holes
+export const getHatchTriangles = (hatch: HatchEntity): [Point, Point, Point][] => {
+    if (hatch.pattern !== 'solid' || hatch.points.length < 3) return [];
+    const toVector = (p: Point) => new Vector2(p.x, p.y);
+    const contour = hatch.points.map(toVector);
+    const holes = (hatch.holes || []).filter(h => h.length > 2).map(h => h.map(toVector));
+    const all = [...hatch.points, ...holes.flat().map(v => ({ x: v.x, y: v.y }))];
+    return ShapeUtils.triangulateShape(contour, holes).map(([a, b, c]) => [all[a], all[b], all[c]] as [Point, Point, Point]);
+};
+
+// Outlines an entity can be hatched by picking it: anything that encloses an area
+export const getPickedBoundaries = (entity: Entity): BooleanShape[] => {
+    if (isDrafting(entity) || entity.type === 'line' || entity.type === 'arc' || entity.type === 'light') return [];
+    if (entity.type === 'spline' && !entity.closed) return [];
+    return entityToShapes(entity).filter(s => s.points.length > 2);
+};
+
+// --- Boundary detection ---
+
+// The curves an entity contributes to region boundaries, as sampled paths
+const boundaryPaths = (entity: Entity): { points: Point[], closed: boolean }[] => {
+    switch (entity.type) {
+        case 'line':
+            return [{ points: [entity.start, entity.end], closed: false }];
+        case 'arc':
+            return [{ points: sampleArc(entity), closed: false }];
+        case 'polyline':
+            return [{ points: entity.points, closed: false }];
+        case 'spline':
+            return [{ points: sampleSpline(entity), closed: entity.closed }];
+        case 'rectangle':
+            return [{ points: getRectCorners(entity), closed: true }];
+        case 'ellipse':
+            return [{ points: sampleEllipse(entity), closed: true }];
+        case 'circle':
+        case 'sphere':
+            return [{ points: convertToPoints(entity), closed: true }];
+        case 'polygon':
+            return [entity.points, ...(entity.holes || [])].map(points => ({ points, closed: true }));
+        case 'text':
+            return entityToShapes(entity).flatMap(s => [s.points, ...s.holes]).map(points => ({ points, closed: true }));
+        default:
+            return [];
+    }
+};
+
+interface PlanarGraph {
+    vertices: Point[];
+    neighbours: number[][]; // Sorted by direction
+}
+
+const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+const signedArea = (ring: Point[]) => ring.reduce((sum, p, i) => sum + cross({ x: 0, y: 0 }, p, ring[(i + 1) % ring.length]), 0) / 2;
+
+// Nodes the paths at every crossing and touching end, merging points closer than eps
+const buildGraph = (paths: { points: Point[], closed: boolean }[], eps: number): PlanarGraph | null => {
+    const segments: { a: Point, b: Point, cuts: number[] }[] = [];
+    paths.forEach(({ points, closed }) => {
+        const last = closed ? points.length : points.length - 1;
+        for (let i = 0; i < last; i++) {
+            const a = points[i], b = points[(i + 1) % points.length];
+            if (distance(a, b) > eps) segments.push({ a, b, cuts: [0, 1] });
+        }
+    });
+    if (segments.length > MAX_BOUNDARY_SEGMENTS) return null;
+
+    // Sweep along x so only segments with overlapping extents are compared
+    const order = segments.map((_, i) => i).sort((i, j) => Math.min(segments[i].a.x, segments[i].b.x) - Math.min(segments[j].a.x, segments[j].b.x));
+    const paramOn = (s: { a: Point, b: Point }, p: Point) => {
+        const dx = s.b.x - s.a.x, dy = s.b.y - s.a.y;
+        const t = ((p.x - s.a.x) * dx + (p.y - s.a.y) * dy) / (dx * dx + dy * dy);
+        const foot = { x: s.a.x + dx * t, y: s.a.y + dy * t };
+        return t > 0 && t < 1 && distance(foot, p) < eps ? t : null;
+    };
+    for (let oi = 0; oi < order.length; oi++) {
+        const s = segments[order[oi]];
+        const maxX = Math.max(s.a.x, s.b.x) + eps;
+        for (let oj = oi + 1; oj < order.length; oj++) {
+            const r = segments[order[oj]];
+            if (Math.min(r.a.x, r.b.x) > maxX) break;
+            if (Math.min(r.a.y, r.b.y) > Math.max(s.a.y, s.b.y) + eps || Math.min(s.a.y, s.b.y) > Math.max(r.a.y, r.b.y) + eps) continue;
+            const denom = (r.b.y - r.a.y) * (s.b.x - s.a.x) - (r.b.x - r.a.x) * (s.b.y - s.a.y);
+            if (Math.abs(denom) > 1e-12) {
+                const ua = ((r.b.x - r.a.x) * (s.a.y - r.a.y) - (r.b.y - r.a.y) * (s.a.x - r.a.x)) / denom;
+                const ub = ((s.b.x - s.a.x) * (s.a.y - r.a.y) - (s.b.y - s.a.y) * (s.a.x - r.a.x)) / denom;
+                if (ua > 0 && ua < 1 && ub > 0 && ub < 1) {
+                    s.cuts.push(ua);
+                    r.cuts.push(ub);
+                }
+            }
+            // Ends lying on the other segment: T-junctions and overlapping collinear edges
+            [r.a, r.b].forEach(p => { const t = paramOn(s, p); if (t !== null) s.cuts.push(t); });
+            [s.a, s.b].forEach(p => { const t = paramOn(r, p); if (t !== null) r.cuts.push(t); });
+        }
+    }
+
+    const vertices: Point[] = [];
+    const cells = new Map<string, number[]>();
+    const cellOf = (x: number, y: number) => `${Math.floor(x / eps)},${Math.floor(y / eps)}`;
+    const vertexAt = (p: Point): number => {
+        const cx = Math.floor(p.x / eps), cy = Math.floor(p.y / eps);
+        for (let dx = -1; dx <= 1; dx++) {
+            for (let dy = -1; dy <= 1; dy++) {
+                const found = (cells.get(`${cx + dx},${cy + dy}`) || []).find(v => distance(vertices[v], p) < eps);
+                if (found !== undefined) return found;
+            }
+        }
+        vertices.push(p);
+        const key = cellOf(p.x, p.y);
+        cells.set(key, [...(cells.get(key) || []), vertices.length - 1]);
+        return vertices.length - 1;
+    };
+
+    const edges = new Map<string, [number, number]>();
+    segments.forEach(s => {
+        const ids = [...new Set(s.cuts)].sort((x, y) => x - y)
+            .map(t => vertexAt({ x: s.a.x + (s.b.x - s.a.x) * t, y: s.a.y + (s.b.y - s.a.y) * t }));
+        for (let i = 0; i + 1 < ids.length; i++) {
+            const [u, v] = ids[i] < ids[i + 1] ? [ids[i], ids[i + 1]] : [ids[i + 1], ids[i]];
+            if (u !== v) edges.set(`${u}-${v}`, [u, v]);
+        }
+    });
+
+    const neighbours: number[][] = vertices.map(() => []);
+    edges.forEach(([u, v]) => { neighbours[u].push(v); neighbours[v].push(u); });
+
+    // Loose ends cannot bound anything; removing them keeps the faces free of spikes
+    const stack = neighbours.map((n, i) => n.length === 1 ? i : -1).filter(i => i >= 0);
+    while (stack.length > 0) {
+        const v = stack.pop()!;
+        if (neighbours[v].length !== 1) continue;
+        const u = neighbours[v][0];
+        neighbours[v] = [];
+        neighbours[u] = neighbours[u].filter(w => w !== v);
+        if (neighbours[u].length === 1) stack.push(u);
+    }
+
+    neighbours.forEach((n, v) => n.sort((i, j) =>
+        Math.atan2(vertices[i].y - vertices[v].y, vertices[i].x - vertices[v].x) - Math.atan2(vertices[j].y - vertices[v].y, vertices[j].x - vertices[v].x)));
+    return { vertices, neighbours };
+};
+
+// Follows the face on the left of the directed edge from -> to, turning as far as it can at each vertex
+const walkFace = (graph: PlanarGraph, from: number, to: number): Point[] => {
+    const ring: Point[] = [];
+    let u = from, v = to;
+    for (let steps = 0; steps <= graph.vertices.length * 4; steps++) {
+        ring.push(graph.vertices[u]);
+        const around = graph.neighbours[v];
+        const next = around[(around.indexOf(u) - 1 + around.length) % around.length];
+        u = v;
+        v = next;
+        if (u === from && v === to) return ring;
+    }
+    return [];
+};
+
+const components = (graph: PlanarGraph): number[] => {
+    const label = graph.vertices.map(() => -1);
+    let count = 0;
+    graph.vertices.forEach((_, start) => {
+        if (label[start] >= 0 || graph.neighbours[start].length === 0) return;
+        const stack = [start];
+        label[start] = count;
+        while (stack.length > 0) {
+            graph.neighbours[stack.pop()!].forEach(w => {
+                if (label[w] < 0) { label[w] = count; stack.push(w); }
+            });
+        }
+        count++;
+    });
+    return label;
+};
+
+// The smallest region around p bounded by the entities, with every separate outline inside it as a hole.
+// Entities are in the coordinates of the view being hatched. Returns null when p is not enclosed.
+export const findHatchBoundary = (entities: Entity[], p: Point, eps: number = 1e-6): BooleanShape | null => {
+    const graph = buildGraph(entities.flatMap(boundaryPaths), eps);
+    if (!graph) return null;
+    const label = components(graph);
+
+    // Edges crossing the ray from p towards +x, nearest first
+    const hits: { x: number, u: number, v: number }[] = [];
+    graph.neighbours.forEach((around, u) => around.forEach(v => {
+        if (v < u) return;
+        const a = graph.vertices[u], b = graph.vertices[v];
+        if ((a.y > p.y) === (b.y > p.y)) return;
+        const x = a.x + (p.y - a.y) * (b.x - a.x) / (b.y - a.y);
+        if (x > p.x) hits.push({ x, u, v });
+    }));
+    hits.sort((h1, h2) => h1.x - h2.x);
+
+    let outer: Point[] | null = null;
+    let outerComponent = -1;
+    for (const { u, v } of hits) {
+        const [from, to] = cross(graph.vertices[u], graph.vertices[v], p) > 0 ? [u, v] : [v, u];
+        const ring = walkFace(graph, from, to);
+        if (ring.length > 2 && signedArea(ring) > 0 && isPointInPoly(p, ring)) {
+            outer = ring;
+            outerComponent = label[u];
+            break;
+        }
+    }
+    if (!outer) return null;
+
+    // Each other outline inside the region is a hole; it is traced round the outside from its leftmost vertex
+    const leftmost = new Map<number, number>();
+    graph.vertices.forEach((q, v) => {
+        const c = label[v];
+        if (c < 0 || c === outerComponent) return;
+        const best = leftmost.get(c);
+        if (best === undefined || q.x < graph.vertices[best].x || (q.x === graph.vertices[best].x && q.y < graph.vertices[best].y)) leftmost.set(c, v);
+    });
+    const islands: Point[][] = [];
+    leftmost.forEach(v => {
+        if (!isPointInPoly(graph.vertices[v], outer!)) return;
+        const around = graph.neighbours[v];
+        const ring = walkFace(graph, v, around[around.length - 1]);
+        if (ring.length > 2) islands.push(ring.reverse());
+    });
+    const holes = islands.filter(ring => !islands.some(other => other !== ring && isPointInPoly(ring[0], other)));
+    return { points: outer, holes };
+};
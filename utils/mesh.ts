@@ -0,0 +1,307 @@
+import { Entity, PolygonEntity, SphereEntity } from '../types';
+import * as THREE from 'three';
+import { csgSubtract } from './csg';
+import { logger } from './debug';
+import { convertToPoints, isDrafting, entityToShapes } from './geometry';
+
+// Single source of 3D geometry for the viewport and every mesh exporter.
+// Geometry is baked in world space: X = drawing X, Y = elevation (up), Z = drawing Y.
+
+const textureCache = new Map<string, THREE.Texture>();
+
+// --- Procedural Texture Generator ---
+export const getProceduralTexture = (type: string): THREE.Texture | null => {
+    if(textureCache.has(type)) return textureCache.get(type)!;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = 512;
+    canvas.height = 512;
+    const ctx = canvas.getContext('2d');
+    if(!ctx) return null;
+
+    if(type === 'wood') {
+        ctx.fillStyle = '#8b5a2b';
+        ctx.fillRect(0,0,512,512);
+        ctx.strokeStyle = '#654321';
+        for(let i=0; i<60; i++) {
+             ctx.lineWidth = 1 + Math.random() * 4;
+             ctx.beginPath();
+             ctx.moveTo(0, Math.random() * 512);
+             ctx.lineTo(512, Math.random() * 512);
+             ctx.stroke();
+        }
+    } else if (type === 'brick') {
+        ctx.fillStyle = '#9CA3AF'; // mortar
+        ctx.fillRect(0,0,512,512);
+        ctx.fillStyle = '#7f2e1d'; // brick
+        const w = 100; const h = 50;
+        for(let y=0; y<512; y+=60) {
+            const offset = (y/60)%2 === 0 ? 0 : 50;
+            for(let x=-50; x<512; x+=110) {
+                ctx.fillRect(x+offset, y, w, h);
+                // Add noise to brick
+                ctx.fillStyle = 'rgba(0,0,0,0.1)';
+                ctx.fillRect(x+offset + Math.random()*50, y+Math.random()*20, 10, 10);
+                ctx.fillStyle = '#7f2e1d';
+            }
+        }
+    } else if (type === 'concrete') {
+        ctx.fillStyle = '#909090';
+        ctx.fillRect(0,0,512,512);
+        for(let i=0; i<10000; i++) {
+            ctx.fillStyle = Math.random() > 0.5 ? '#A0A0A0' : '#707070';
+            ctx.fillRect(Math.random()*512, Math.random()*512, 2, 2);
+        }
+    } else if (type === 'metal') {
+         const grad = ctx.createLinearGradient(0,0,512,512);
+         grad.addColorStop(0, '#cfcfcf');
+         grad.addColorStop(0.5, '#ffffff');
+         grad.addColorStop(1, '#cfcfcf');
+         ctx.fillStyle = grad;
+         ctx.fillRect(0,0,512,512);
+         ctx.strokeStyle = 'rgba(255,255,255,0.5)';
+         for(let i=0; i<20; i++) {
+             ctx.beginPath();
+             ctx.moveTo(0, i*25);
+             ctx.lineTo(512, i*25+50);
+             ctx.stroke();
+         }
+    } else if (type === 'checkered') {
+         ctx.fillStyle = '#ffffff';
+         ctx.fillRect(0,0,512,512);
+         ctx.fillStyle = '#202020';
+         for(let y=0; y<512; y+=64) {
+             for(let x=0; x<512; x+=64) {
+                 if (((x/64) + (y/64)) % 2 === 0) ctx.fillRect(x,y,64,64);
+             }
+         }
+    }
+
+    const tex = new THREE.CanvasTexture(canvas);
+    tex.colorSpace = THREE.SRGBColorSpace;
+    tex.wrapS = THREE.RepeatWrapping;
+    tex.wrapT = THREE.RepeatWrapping;
+    textureCache.set(type, tex);
+    return tex;
+};
+
+// --- Box UV Mapping Helper ---
+export const applyBoxUV = (geometry: THREE.BufferGeometry, scale: number = 0.02) => {
+    geometry.computeBoundingBox();
+    const pos = geometry.attributes.position;
+    if(!geometry.attributes.normal) geometry.computeVertexNormals();
+    const norm = geometry.attributes.normal;
+
+    const uvs = new Float32Array(pos.count * 2);
+
+    for(let i=0; i<pos.count; i++) {
+        const x = pos.getX(i);
+        const y = pos.getY(i);
+        const z = pos.getZ(i);
+
+        const nx = Math.abs(norm.getX(i));
+        const ny = Math.abs(norm.getY(i));
+        const nz = Math.abs(norm.getZ(i));
+
+        if (nx > ny && nx > nz) {
+            uvs[i*2] = z * scale;
+            uvs[i*2+1] = y * scale;
+        } else if (ny > nx && ny > nz) {
+            uvs[i*2] = x * scale;
+            uvs[i*2+1] = z * scale;
+        } else {
+            uvs[i*2] = x * scale;
+            uvs[i*2+1] = y * scale;
+        }
+    }
+    geometry.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
+    geometry.attributes.uv.needsUpdate = true;
+};
+
+export const hasTexture = (entity: Entity) => !!entity.texture && entity.texture !== 'none';
+
+// PBR material shared by the viewport and the glTF exporter
+export const createEntityMaterial = (entity: Entity, layerColor: string): THREE.MeshStandardMaterial => {
+    const tex = hasTexture(entity) ? getProceduralTexture(entity.texture!) : null;
+    return new THREE.MeshStandardMaterial({
+        color: tex ? 0xffffff : new THREE.Color(entity.color || layerColor),
+        map: tex,
+        metalness: entity.metalness ?? 0.1,
+        roughness: entity.roughness ?? 0.5,
+        side: THREE.DoubleSide
+    });
+};
+
+// Helper to generate Three.js geometry from our Entity definitions
+export const generateEntityGeometry = (entity: Entity): THREE.BufferGeometry | null => {
+    if (entity.type === 'light' || isDrafting(entity) || !entity.layerId) return null;
+
+    const elevation = entity.elevation || 0;
+    let geometry: THREE.BufferGeometry | null = null;
+
+    if (entity.type === 'mesh') {
+            // Imported reference meshes are stored relative to their footprint centre and base
+            geometry = new THREE.BufferGeometry();
+            geometry.setAttribute('position', new THREE.Float32BufferAttribute(entity.vertices, 3));
+            geometry.translate(entity.center.x, elevation, entity.center.y);
+            geometry.computeVertexNormals();
+    } else if (entity.type === 'sphere') {
+            const sph = entity as SphereEntity;
+            // Sphere in Viewport is positioned at (x, elev+r, y).
+            geometry = new THREE.SphereGeometry(sph.radius, 64, 64);
+            geometry.translate(sph.center.x, elevation + sph.radius, sph.center.y);
+    } else {
+            // Extrusion shapes
+            let shape: THREE.Shape | THREE.Shape[] | null = null;
+
+            if (entity.type === 'rectangle') {
+            // Shape defined in XY plane; corners include the rectangle's rotation
+            const corners = convertToPoints(entity);
+            shape = new THREE.Shape();
+            shape.moveTo(corners[0].x, -corners[0].y);
+            for(let i=1; i<corners.length; i++) shape.lineTo(corners[i].x, -corners[i].y);
+            shape.lineTo(corners[0].x, -corners[0].y);
+            } else if (entity.type === 'circle') {
+            const c = entity as any;
+            shape = new THREE.Shape();
+            shape.absarc(c.center.x, -c.center.y, c.radius, 0, Math.PI * 2, false);
+            } else if (entity.type === 'polygon') {
+            const p = entity as PolygonEntity;
+            if (p.points.length > 2) {
+                shape = new THREE.Shape();
+                shape.moveTo(p.points[0].x, -p.points[0].y);
+                for(let i=1; i<p.points.length; i++) shape.lineTo(p.points[i].x, -p.points[i].y);
+                shape.closePath();
+
+                if (p.holes) {
+                    p.holes.forEach(h => {
+                        if (h.length > 2) {
+                            const hp = new THREE.Path();
+                            hp.moveTo(h[0].x, -h[0].y);
+                            for(let i=1; i<h.length; i++) hp.lineTo(h[i].x, -h[i].y);
+                            hp.closePath();
+                            shape!.holes.push(hp);
+                        }
+                    });
+                }
+            }
+            } else if (entity.type === 'arc' || entity.type === 'ellipse' || entity.type === 'spline') {
+            // Curves extrude from their sampled outline; open ones are closed along the chord
+            const pts = convertToPoints(entity);
+            if (pts.length > 2) {
+                shape = new THREE.Shape();
+                shape.moveTo(pts[0].x, -pts[0].y);
+                for(let i=1; i<pts.length; i++) shape.lineTo(pts[i].x, -pts[i].y);
+                shape.closePath();
+            }
+            } else if (entity.type === 'polyline') {
+            // Walls need a height; flat polylines stay as plain paths
+            const outline = convertToPoints(entity);
+            if ((entity.extrusionDepth || 0) > 0 && outline.length > 2) {
+                shape = new THREE.Shape();
+                shape.moveTo(outline[0].x, -outline[0].y);
+                for(let i=1; i<outline.length; i++) shape.lineTo(outline[i].x, -outline[i].y);
+                shape.closePath();
+            }
+            } else if (entity.type === 'text') {
+            // One shape per glyph island, counters (the holes in letters) included
+            const glyphs = entityToShapes(entity).map(glyph => {
+                const glyphShape = new THREE.Shape(glyph.points.map(p => new THREE.Vector2(p.x, -p.y)));
+                glyph.holes.forEach(h => glyphShape.holes.push(new THREE.Path(h.map(p => new THREE.Vector2(p.x, -p.y)))));
+                return glyphShape;
+            });
+            if (glyphs.length > 0) shape = glyphs;
+            } else if (entity.type === 'line') {
+                const l = entity as any;
+                if ((l.extrusionDepth || 0) > 0) {
+                const dx = l.end.x - l.start.x;
+                const dy = l.end.y - l.start.y;
+                const len = Math.sqrt(dx*dx + dy*dy);
+                const angle = Math.atan2(dy, dx);
+                geometry = new THREE.BoxGeometry(len, l.extrusionDepth, 1);
+                const midX = (l.start.x + l.end.x) / 2;
+                const midY = (l.start.y + l.end.y) / 2;
+
+                // Rotate around Y to match orientation on floor
+                geometry.rotateY(-angle);
+                geometry.translate(midX, elevation + l.extrusionDepth/2, midY);
+                }
+            }
+
+            if (shape) {
+                const depth = Math.max(0.1, entity.extrusionDepth || 0);
+                geometry = new THREE.ExtrudeGeometry(shape, {
+                    depth: depth,
+                    bevelEnabled: false,
+                    curveSegments: 24
+                });
+                // Align 2D extrusion (Z) with 3D world (Y-up, mapped)
+                geometry.rotateX(-Math.PI / 2);
+                geometry.translate(0, elevation, 0);
+            }
+    }
+
+    if (geometry && hasTexture(entity)) applyBoxUV(geometry, 0.02);
+    return geometry;
+};
+
+// --- Cut Evaluation ---
+
+const MATERIAL_KEYS = ['selected', 'isBase', 'name', 'color', 'roughness', 'metalness', 'texture', 'locked', 'vertices', 'outlines'];
+const SOLID_CACHE_SIZE = 64;
+const solidCache = new Map<string, THREE.BufferGeometry>();
+
+// Only shape fields matter; imported mesh vertices never change after import so the id stands in for them
+const shapeKey = (entity: Entity) => JSON.stringify(entity, (key, value) => MATERIAL_KEYS.includes(key) ? undefined : value);
+
+// Geometry of a 'solid' entity with every overlapping 'cut' entity subtracted.
+// Cut results are indexed and welded (watertight) and carry no normals; see prepareForRender.
+export const generateSolidGeometry = (entity: Entity, entities: Entity[]): THREE.BufferGeometry | null => {
+    const base = generateEntityGeometry(entity);
+    if (!base || entity.operation === 'cut') return base;
+
+    base.computeBoundingBox();
+    const cutters: { entity: Entity, geometry: THREE.BufferGeometry }[] = [];
+    entities.forEach(other => {
+        if (other.operation !== 'cut' || other.id === entity.id) return;
+        const geometry = generateEntityGeometry(other);
+        if (!geometry) return;
+        geometry.computeBoundingBox();
+        if (geometry.boundingBox!.intersectsBox(base.boundingBox!)) cutters.push({ entity: other, geometry });
+        else geometry.dispose();
+    });
+    if (cutters.length === 0) return base;
+
+    const key = shapeKey(entity) + cutters.map(c => shapeKey(c.entity)).join('');
+    let result = solidCache.get(key);
+    if (!result) {
+        try {
+            result = csgSubtract(base, cutters.map(c => c.geometry)) || undefined;
+        } catch (err: any) {
+            logger.error('CSG', `Cut evaluation failed for ${entity.name || entity.id}`, err.message);
+        }
+        if (result) {
+            if (solidCache.size >= SOLID_CACHE_SIZE) {
+                const oldest = solidCache.keys().next().value!;
+                solidCache.get(oldest)!.dispose();
+                solidCache.delete(oldest);
+            }
+            solidCache.set(key, result);
+        }
+    }
+    cutters.forEach(c => c.geometry.dispose());
+    if (!result) return base;
+
+    base.dispose();
+    return result.clone();
+};
+
+// Flat-shaded, textured copy of a welded cut result; other geometry passes through untouched
+export const prepareForRender = (geometry: THREE.BufferGeometry, entity: Entity): THREE.BufferGeometry => {
+    if (geometry.attributes.normal) return geometry;
+    const flat = geometry.index ? geometry.toNonIndexed() : geometry;
+    flat.computeVertexNormals();
+    if (hasTexture(entity)) applyBoxUV(flat, 0.02);
+    if (flat !== geometry) geometry.dispose();
+    return flat;
+};
@@ -0,0 +1,120 @@
+import { MeshEntity, Point } from '../types';
+import { generateId, convexHull } from './geometry';
+import { logger } from './debug';
+import * as THREE from 'three';
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+
+// STL/OBJ reader. Meshes come in as locked `mesh` reference entities: the triangles are kept
+// as-is for the 3D view and exports, and a convex silhouette per view is baked for Canvas2D.
+
+export interface MeshImportResult {
+    entities: MeshEntity[];
+    skipped: number; // Objects without triangles (OBJ line/point sets, empty meshes)
+}
+
+const LARGE_MESH_TRIANGLES = 200000;
+
+const round = (v: number) => Math.round(v * 10000) / 10000;
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+// Convex silhouettes of the vertices (x, up, z) as each view sees them
+export const getMeshOutlines = (vertices: number[]): MeshEntity['outlines'] => {
+    const top: Point[] = [], front: Point[] = [], right: Point[] = [];
+    for (let i = 0; i + 2 < vertices.length; i += 3) {
+        top.push({ x: vertices[i], y: vertices[i + 2] });
+        front.push({ x: vertices[i], y: -vertices[i + 1] });
+        right.push({ x: vertices[i + 2], y: -vertices[i + 1] });
+    }
+    return { top: convexHull(top), front: convexHull(front), right: convexHull(right) };
+};
+
+// positions: non-indexed triangle soup already in world axes (x, up, z)
+const buildMeshEntity = (positions: ArrayLike<number>, name: string, layerId: string, sourceFile: string): MeshEntity | null => {
+    const count = Math.floor(positions.length / 9) * 9;
+    if (count === 0) return null;
+
+    let minX = Infinity, minY = Infinity, minZ = Infinity;
+    let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+    for (let i = 0; i < count; i += 3) {
+        minX = Math.min(minX, positions[i]); maxX = Math.max(maxX, positions[i]);
+        minY = Math.min(minY, positions[i + 1]); maxY = Math.max(maxY, positions[i + 1]);
+        minZ = Math.min(minZ, positions[i + 2]); maxZ = Math.max(maxZ, positions[i + 2]);
+    }
+    const cx = (minX + maxX) / 2;
+    const cz = (minZ + maxZ) / 2;
+
+    const vertices: number[] = new Array(count);
+    for (let i = 0; i < count; i += 3) {
+        vertices[i] = round(positions[i] - cx);
+        vertices[i + 1] = round(positions[i + 1] - minY);
+        vertices[i + 2] = round(positions[i + 2] - cz);
+    }
+
+    const triangles = count / 9;
+    if (triangles > LARGE_MESH_TRIANGLES) {
+        logger.warn('MESH', `${name} has ${triangles} triangles; large meshes slow down the viewport and project files`);
+    }
+
+    return {
+        id: generateId(),
+        name,
+        type: 'mesh',
+        layerId,
+        selected: true,
+        extrusionDepth: round(maxY - minY),
+        elevation: round(minY),
+        roughness: 0.5,
+        metalness: 0.1,
+        operation: 'solid',
+        locked: true,
+        center: { x: round(cx), y: round(cz) },
+        vertices,
+        outlines: getMeshOutlines(vertices),
+        sourceFile
+    };
+};
+
+// STL is conventionally Z-up: file (x, y, z) -> world (x, z, -y), a proper rotation so winding is kept
+export const parseStl = (data: ArrayBuffer | string, layerId: string, fileName: string): MeshImportResult => {
+    const geometry = new STLLoader().parse(data);
+    const pos = geometry.getAttribute('position');
+    const positions = new Float32Array(pos.count * 3);
+    for (let i = 0; i < pos.count; i++) {
+        positions[i * 3] = pos.getX(i);
+        positions[i * 3 + 1] = pos.getZ(i);
+        positions[i * 3 + 2] = -pos.getY(i);
+    }
+    geometry.dispose();
+
+    const entity = buildMeshEntity(positions, baseName(fileName), layerId, fileName);
+    logger.log('MESH', `STL import: ${pos.count / 3} triangles from ${fileName}`);
+    return { entities: entity ? [entity] : [], skipped: entity ? 0 : 1 };
+};
+
+// OBJ is Y-up like our world, so only the object transforms are applied. One entity per object/group.
+export const parseObj = (content: string, layerId: string, fileName: string): MeshImportResult => {
+    const group = new OBJLoader().parse(content);
+    group.updateMatrixWorld(true);
+
+    const entities: MeshEntity[] = [];
+    let skipped = 0;
+    group.traverse((child: any) => {
+        if (!child.geometry) return;
+        if (!child.isMesh) { skipped++; return; }
+
+        const geometry: THREE.BufferGeometry = child.geometry.index ? child.geometry.toNonIndexed() : child.geometry.clone();
+        geometry.applyMatrix4(child.matrixWorld);
+        const name = child.name || `${baseName(fileName)}-${entities.length + 1}`;
+        const entity = buildMeshEntity(geometry.getAttribute('position').array, name, layerId, fileName);
+        geometry.dispose();
+
+        if (entity) entities.push(entity);
+        else skipped++;
+    });
+
+    if (skipped > 0) logger.warn('MESH', `Skipped ${skipped} OBJ object${skipped === 1 ? '' : 's'} without faces`);
+    logger.log('MESH', `OBJ import: ${entities.length} meshes from ${fileName}`);
+    return { entities, skipped };
+};
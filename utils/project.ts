@@ -0,0 +1,365 @@
+import { Entity, EntityType, Layer, ProjectData, ProjectSettings, DimensionKind } from '../types';
+import { DEFAULT_LAYERS, DEFAULT_PROJECT_SETTINGS } from '../constants';
+import { generateId, DEFAULT_POLYLINE_THICKNESS } from './geometry';
+import { getMeshOutlines } from './meshImport';
+import { LENGTH_UNITS } from './units';
+import { TEXT_FONTS } from './text';
+import { HATCH_PATTERNS } from './hatch';
+
+// Project files carry a schema version. Older files are upgraded one version at a time, then
+// every entity is checked against its variant in types.ts. Fields that only style or tune an
+// entity are reset to their defaults; an entity whose geometry is missing or not finite is
+// dropped, since any guess would draw something the author never did.
+
+export const SCHEMA_VERSION = 1;
+
+export class ProjectFileError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProjectFileError';
+    }
+}
+
+export interface ProjectLoadReport {
+    fromVersion: number;
+    repaired: string[];
+    rejected: string[];
+}
+
+// MIGRATIONS[n] upgrades a version n file to version n + 1, so there is one per version
+const MIGRATIONS: ((data: any) => any)[] = [
+    // 0 -> 1: files from before versioning. Those without settings predate units and were millimetres.
+    data => ({ ...data, settings: data.settings ?? { ...DEFAULT_PROJECT_SETTINGS, units: 'mm', meshUnits: 'mm' } }),
+];
+
+// --- Checks ---
+
+interface Check {
+    test: (value: any, entity: any) => boolean;
+    expected: string;
+}
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isPoint = (v: unknown) => isObject(v) && isFiniteNumber(v.x) && isFiniteNumber(v.y);
+const isCount = (v: unknown) => Number.isInteger(v) && (v as number) >= 1;
+
+const finite: Check = { test: isFiniteNumber, expected: 'a finite number' };
+const positive: Check = { test: v => isFiniteNumber(v) && v > 0, expected: 'a positive number' };
+const nonNegative: Check = { test: v => isFiniteNumber(v) && v >= 0, expected: 'a number of at least 0' };
+const fraction: Check = { test: v => isFiniteNumber(v) && v >= 0 && v <= 1, expected: 'a number from 0 to 1' };
+const point: Check = { test: isPoint, expected: 'a point with finite x and y' };
+const text: Check = { test: v => typeof v === 'string', expected: 'text' };
+const flag: Check = { test: v => typeof v === 'boolean', expected: 'true or false' };
+const pointList = (min: number): Check => ({ test: v => Array.isArray(v) && v.length >= min && v.every(isPoint), expected: `a list of at least ${min} points` });
+const oneOf = (values: readonly string[]): Check => ({ test: v => values.includes(v), expected: `one of ${values.join(', ')}` });
+const rings: Check = { test: v => Array.isArray(v) && v.every(pointList(3).test), expected: 'a list of rings of at least 3 points' };
+
+const VIEWS = ['top', 'front', 'right'];
+const DIMENSION_KINDS: DimensionKind[] = ['aligned', 'horizontal', 'vertical', 'radial', 'diameter', 'angular'];
+const isRadial = (kind: unknown) => kind === 'radial' || kind === 'diameter';
+
+const isAnchor = (v: unknown) => isObject(v) && isPoint(v.point) &&
+    (v.ref === undefined || (isObject(v.ref) && typeof v.ref.entityId === 'string' && typeof v.ref.key === 'string'));
+
+const anchorCount = (kind: DimensionKind) => kind === 'angular' ? 3 : isRadial(kind) ? 1 : 2;
+
+const arrayParams: Check = {
+    test: v => isObject(v) && (
+        (v.kind === 'rectangular' && isCount(v.rows) && isCount(v.columns) && isFiniteNumber(v.rowSpacing) && isFiniteNumber(v.columnSpacing)) ||
+        (v.kind === 'polar' && isCount(v.count) && isFiniteNumber(v.angle) && isPoint(v.center) && typeof v.rotateItems === 'boolean') ||
+        (v.kind === 'path' && isCount(v.count) && typeof v.pathId === 'string' && typeof v.alignToPath === 'boolean')),
+    expected: 'rectangular, polar or path array parameters'
+};
+
+const meshVertices: Check = {
+    test: v => Array.isArray(v) && v.length > 0 && v.length % 9 === 0 && v.every(isFiniteNumber),
+    expected: 'whole triangles of finite coordinates'
+};
+
+const meshOutlines: Check = {
+    test: v => isObject(v) && VIEWS.every(view => pointList(0).test(v[view], null)),
+    expected: 'a silhouette for each view'
+};
+
+// --- Rules ---
+
+// Without a fallback an invalid required field drops the entity, and an invalid optional one is removed
+interface FieldRule {
+    check: Check;
+    fallback?: (entity: any, settings: ProjectSettings) => unknown;
+    optional?: boolean;
+}
+
+const required = (check: Check): FieldRule => ({ check });
+const defaulted = (check: Check, fallback: FieldRule['fallback']): FieldRule => ({ check, fallback });
+const optional = (check: Check, fallback?: FieldRule['fallback']): FieldRule => ({ check, fallback, optional: true });
+
+const gridStep = (_: any, settings: ProjectSettings) => settings.gridSpacing;
+const validRings = (value: unknown) => Array.isArray(value) ? value.filter(pointList(3).test) : undefined;
+
+// Ids, layers and cross-references are checked separately, against the whole file
+const BASE_RULES: Record<string, FieldRule> = {
+    name: optional(text),
+    selected: defaulted(flag, () => false),
+    isBase: optional(flag),
+    extrusionDepth: defaulted(finite, () => 0),
+    elevation: defaulted(finite, () => 0),
+    color: optional(text),
+    roughness: defaulted(fraction, () => 0.5),
+    metalness: defaulted(fraction, () => 0.1),
+    texture: optional(text),
+    operation: defaulted(oneOf(['solid', 'cut']), () => 'solid'),
+    locked: optional(flag),
+    array: optional(arrayParams),
+    arrayOf: optional(text),
+};
+
+const ENTITY_RULES: Record<EntityType, Record<string, FieldRule>> = {
+    line: { start: required(point), end: required(point) },
+    rectangle: { start: required(point), width: required(finite), height: required(finite), rotation: optional(finite) },
+    circle: { center: required(point), radius: required(positive) },
+    arc: { center: required(point), radius: required(positive), startAngle: required(finite), endAngle: required(finite) },
+    ellipse: { center: required(point), radiusX: required(positive), radiusY: required(positive), rotation: defaulted(finite, () => 0) },
+    spline: { points: required(pointList(2)), closed: defaulted(flag, () => false) },
+    polyline: { points: required(pointList(2)), thickness: defaulted(positive, () => DEFAULT_POLYLINE_THICKNESS) },
+    polygon: { points: required(pointList(3)), holes: optional(rings, e => validRings(e.holes)) },
+    sphere: { center: required(point), radius: required(positive) },
+    light: {
+        position: required(point),
+        target: defaulted(point, e => ({ x: e.position.x, y: e.position.y - 50 })),
+        intensity: defaulted(nonNegative, () => 2),
+        distance: defaulted(nonNegative, () => 200),
+        coneAngle: optional(finite),
+    },
+    mesh: {
+        center: required(point),
+        vertices: required(meshVertices),
+        outlines: defaulted(meshOutlines, e => getMeshOutlines(e.vertices)),
+        sourceFile: optional(text),
+    },
+    text: {
+        position: required(point),
+        text: required(text),
+        font: defaulted(oneOf(TEXT_FONTS.map(f => f.id)), () => 'helvetiker'),
+        size: required(positive),
+        align: defaulted(oneOf(['left', 'center', 'right']), () => 'left'),
+        rotation: defaulted(finite, () => 0),
+    },
+    dimension: {
+        kind: required(oneOf(DIMENSION_KINDS)),
+        view: required(oneOf(VIEWS)),
+        anchors: required({
+            test: (v, e) => Array.isArray(v) && v.length === anchorCount(e.kind) && v.every(isAnchor),
+            expected: 'the points this kind of dimension measures'
+        }),
+        radius: required({
+            test: (v, e) => v === undefined ? !isRadial(e.kind) : isFiniteNumber(v) && v > 0,
+            expected: 'a positive number on radial and diameter dimensions'
+        }),
+        position: required(point),
+        textHeight: defaulted(positive, gridStep),
+        text: optional(text),
+    },
+    leader: {
+        view: required(oneOf(VIEWS)),
+        anchor: required({ test: isAnchor, expected: 'an arrowhead point' }),
+        points: required(pointList(1)),
+        text: defaulted(text, () => ''),
+        textHeight: defaulted(positive, gridStep),
+    },
+    hatch: {
+        view: required(oneOf(VIEWS)),
+        points: required(pointList(3)),
+        holes: optional(rings, e => validRings(e.holes)),
+        pattern: defaulted(oneOf(HATCH_PATTERNS.map(p => p.id)), () => 'ansi31'),
+        angle: defaulted(finite, () => 0),
+        scale: defaulted(positive, gridStep),
+    },
+};
+
+const entityLabel = (index: number, entity: Record<string, any>) =>
+    `Entity ${index + 1} (${typeof entity.type === 'string' ? entity.type : 'no type'}${typeof entity.name === 'string' ? ` "${entity.name}"` : ''})`;
+
+const describe = (value: unknown) =>
+    Array.isArray(value) ? `the ${value.length} valid one(s)` : isObject(value) ? 'a recomputed value' : JSON.stringify(value);
+
+// --- Reading ---
+
+const readSettings = (raw: unknown, report: ProjectLoadReport): ProjectSettings => {
+    if (!isObject(raw)) {
+        report.repaired.push('Project settings were missing; the defaults were used');
+        return DEFAULT_PROJECT_SETTINGS;
+    }
+    const units = LENGTH_UNITS.map(u => u.id);
+    const settings = { ...DEFAULT_PROJECT_SETTINGS };
+    const read = <K extends keyof ProjectSettings>(key: K, check: Check) => {
+        if (check.test(raw[key], raw)) settings[key] = raw[key];
+        else report.repaired.push(`Settings: ${key} should be ${check.expected}; reset to ${describe(settings[key])}`);
+    };
+    read('units', oneOf(units));
+    read('gridSpacing', positive);
+    read('gridMajor', { test: isCount, expected: 'a whole number of at least 1' });
+    read('meshUnits', oneOf(units));
+    return settings;
+};
+
+const readLayers = (raw: unknown, report: ProjectLoadReport): Layer[] => {
+    if (!Array.isArray(raw) || raw.length === 0) {
+        report.repaired.push('The file has no layers; the default layers were added');
+        return DEFAULT_LAYERS;
+    }
+    const layers: Layer[] = [];
+    raw.forEach((layer, i) => {
+        if (!isObject(layer) || typeof layer.id !== 'string' || !layer.id || layers.some(l => l.id === layer.id)) {
+            report.rejected.push(`Layer ${i + 1} was dropped: its id is missing or used twice`);
+            return;
+        }
+        const label = `Layer ${i + 1} (${layer.id})`;
+        const pick = <T>(key: string, check: Check, fallback: T): T => {
+            if (check.test(layer[key], layer)) return layer[key];
+            report.repaired.push(`${label}: ${key} should be ${check.expected}; reset to ${describe(fallback)}`);
+            return fallback;
+        };
+        layers.push({
+            ...layer,
+            id: layer.id,
+            name: pick('name', text, `Layer ${i + 1}`),
+            color: pick('color', text, '#ffffff'),
+            visible: pick('visible', flag, true),
+            locked: pick('locked', flag, false)
+        });
+    });
+    if (layers.length > 0) return layers;
+    report.repaired.push('No usable layers were left; the default layers were added');
+    return DEFAULT_LAYERS;
+};
+
+const readEntity = (raw: unknown, index: number, layers: Layer[], settings: ProjectSettings, report: ProjectLoadReport): Entity | null => {
+    if (!isObject(raw)) {
+        report.rejected.push(`Entity ${index + 1} was dropped: it is not an object`);
+        return null;
+    }
+    const label = entityLabel(index, raw);
+    if (!Object.prototype.hasOwnProperty.call(ENTITY_RULES, raw.type)) {
+        report.rejected.push(`${label} was dropped: unknown entity type`);
+        return null;
+    }
+    const rules = ENTITY_RULES[raw.type as EntityType];
+
+    const entity: Record<string, any> = { ...raw };
+    for (const [field, rule] of Object.entries({ ...BASE_RULES, ...rules })) {
+        const value = entity[field];
+        if (value === undefined && rule.optional) continue;
+        if (rule.check.test(value, entity)) continue;
+        if (!rule.fallback && !rule.optional) {
+            report.rejected.push(`${label} was dropped: ${field} should be ${rule.check.expected}`);
+            return null;
+        }
+        const replacement = rule.fallback?.(entity, settings);
+        if (replacement === undefined) delete entity[field];
+        else entity[field] = replacement;
+        report.repaired.push(`${label}: ${field} should be ${rule.check.expected}; ${replacement === undefined ? 'removed' : `reset to ${describe(replacement)}`}`);
+    }
+
+    if (!layers.some(l => l.id === entity.layerId)) {
+        report.repaired.push(`${label}: its layer does not exist; moved to "${layers[0].name}"`);
+        entity.layerId = layers[0].id;
+    }
+    return entity as Entity;
+};
+
+// Ids must be unique, and links between entities must point at entities that are still there.
+// Each entity comes with its position in the file, which the report refers to.
+const checkReferences = (read: { index: number, entity: Entity }[], report: ProjectLoadReport): Entity[] => {
+    const seen = new Set<string>();
+    const labels = new Map<string, string>();
+    const withIds = read.map(({ index, entity: e }) => {
+        let id = e.id;
+        if (typeof id !== 'string' || !id || seen.has(id)) {
+            id = generateId();
+            report.repaired.push(`${entityLabel(index, e)}: its id was missing or used twice; a new one was given`);
+        }
+        seen.add(id);
+        labels.set(id, entityLabel(index, e));
+        return id === e.id ? e : { ...e, id };
+    });
+
+    const byId = new Map(withIds.map(e => [e.id, e]));
+    const unlinked = withIds.map(e => {
+        if (e.array?.kind === 'path' && !byId.has(e.array.pathId)) {
+            report.repaired.push(`${labels.get(e.id)}: the path its array follows is missing; the array was removed`);
+            const { array, ...rest } = e;
+            return rest as Entity;
+        }
+        return e;
+    });
+
+    const sources = new Set(unlinked.filter(e => e.array).map(e => e.id));
+    return unlinked.map(e => {
+        let next = e;
+        if (e.arrayOf !== undefined && !sources.has(e.arrayOf)) {
+            report.repaired.push(`${labels.get(e.id)}: its array source is missing; it was kept as a plain entity`);
+            const { arrayOf, ...rest } = next;
+            next = rest as Entity;
+        }
+        const detach = <A extends { ref?: { entityId: string } }>(anchor: A): A => {
+            if (!anchor.ref || byId.has(anchor.ref.entityId)) return anchor;
+            report.repaired.push(`${labels.get(e.id)}: it was attached to a missing entity; the point was kept unattached`);
+            const { ref, ...rest } = anchor;
+            return rest as A;
+        };
+        if (next.type === 'dimension') next = { ...next, anchors: next.anchors.map(detach) };
+        if (next.type === 'leader') next = { ...next, anchor: detach(next.anchor) };
+        return next;
+    });
+};
+
+// Upgrades and validates parsed project JSON. Throws ProjectFileError when nothing usable can be read.
+export const readProjectFile = (raw: unknown): { project: ProjectData, report: ProjectLoadReport } => {
+    if (!isObject(raw) || !Array.isArray(raw.entities)) throw new ProjectFileError('This is not a project file: it has no entity list.');
+    const fromVersion = raw.schemaVersion === undefined ? 0 : raw.schemaVersion;
+    if (!Number.isInteger(fromVersion) || fromVersion < 0) throw new ProjectFileError(`The file has an invalid schema version (${JSON.stringify(raw.schemaVersion)}).`);
+    if (fromVersion > SCHEMA_VERSION) {
+        throw new ProjectFileError(`The file was saved by a newer version of the app (schema ${fromVersion}); this one reads up to schema ${SCHEMA_VERSION}.`);
+    }
+
+    const data = MIGRATIONS.slice(fromVersion).reduce((current, migrate) => migrate(current), raw);
+    const report: ProjectLoadReport = { fromVersion, repaired: [], rejected: [] };
+    const settings = readSettings(data.settings, report);
+    const layers = readLayers(data.layers, report);
+    const read = (data.entities as unknown[])
+        .map((e, index) => ({ index, entity: readEntity(e, index, layers, settings, report) }))
+        .filter((r): r is { index: number, entity: Entity } => !!r.entity);
+    const entities = checkReferences(read, report);
+
+    return {
+        project: {
+            id: typeof data.id === 'string' ? data.id : generateId(),
+            name: typeof data.name === 'string' && data.name ? data.name : 'Untitled',
+            schemaVersion: SCHEMA_VERSION,
+            entities,
+            layers,
+            settings,
+            lastModified: isFiniteNumber(data.lastModified) ? data.lastModified : Date.now()
+        },
+        report
+    };
+};
+
+const REPORT_LINES = 10; // Per section in the summary; the log has them all
+
+// A summary for the user; empty when the file loaded exactly as saved
+export const formatLoadReport = (report: ProjectLoadReport): string => {
+    if (report.repaired.length === 0 && report.rejected.length === 0) return '';
+    const section = (title: string, lines: string[]) => lines.length === 0 ? [] : [
+        `${title} (${lines.length}):`,
+        ...lines.slice(0, REPORT_LINES).map(l => `- ${l}`),
+        ...(lines.length > REPORT_LINES ? [`- ...and ${lines.length - REPORT_LINES} more (see the debug log)`] : [])
+    ];
+    return [
+        report.fromVersion < SCHEMA_VERSION ? `The file was upgraded from schema ${report.fromVersion} to ${SCHEMA_VERSION}.` : '',
+        ...section('Rejected', report.rejected),
+        ...section('Repaired', report.repaired)
+    ].filter(Boolean).join('\n');
+};
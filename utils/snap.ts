@@ -0,0 +1,246 @@
+import { Entity, Point, ObjectSnapMode, SnapSettings } from '../types';
+import { distance, getBounds, getRectCorners, getRectCenter, getPolygonRings, getArcEndpoints, getArcSweep, isAngleOnArc, pointOnCircle, sampleEllipse, sampleSpline, snapPoint } from './geometry';
+
+// Object snaps. Every entity is broken into segments and circular arcs; the point snaps
+// (endpoints, midpoints, centres, quadrants) come from the entity itself, the rest from
+// those pieces. Curves without an exact form (ellipses, splines) are followed by samples.
+
+export interface SnapResult {
+    point: Point;
+    mode: ObjectSnapMode | 'grid' | null; // null: the cursor as is
+}
+
+type Primitive =
+    | { kind: 'segment', a: Point, b: Point }
+    | { kind: 'circle', center: Point, radius: number, arc?: { start: number, end: number } };
+
+interface SnapGeometry {
+    primitives: Primitive[];
+    endpoint: Point[];
+    midpoint: Point[];
+    center: Point[];
+    quadrant: Point[];
+}
+
+const EPSILON = 1e-9;
+
+// Point snaps win over the rest when both are within reach
+const POINT_MODES: ObjectSnapMode[] = ['endpoint', 'intersection', 'midpoint', 'center', 'quadrant', 'perpendicular', 'tangent'];
+
+const midpointOf = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+const pathGeometry = (points: Point[], closed: boolean, geometry: SnapGeometry, sampled: boolean) => {
+    const count = closed ? points.length : points.length - 1;
+    for (let i = 0; i < count; i++) {
+        const a = points[i], b = points[(i + 1) % points.length];
+        geometry.primitives.push({ kind: 'segment', a, b });
+        if (!sampled) geometry.midpoint.push(midpointOf(a, b));
+    }
+    if (!sampled) geometry.endpoint.push(...points);
+};
+
+const circleQuadrants = (center: Point, radius: number) =>
+    [0, 1, 2, 3].map(i => pointOnCircle(center, radius, i * Math.PI / 2));
+
+const getSnapGeometry = (entity: Entity): SnapGeometry => {
+    const geometry: SnapGeometry = { primitives: [], endpoint: [], midpoint: [], center: [], quadrant: [] };
+    switch (entity.type) {
+        case 'line':
+            pathGeometry([entity.start, entity.end], false, geometry, false);
+            break;
+        case 'rectangle':
+            pathGeometry(getRectCorners(entity), true, geometry, false);
+            geometry.center.push(getRectCenter(entity));
+            break;
+        case 'polygon':
+            getPolygonRings(entity).forEach(ring => pathGeometry(ring, true, geometry, false));
+            break;
+        case 'polyline':
+            pathGeometry(entity.points, false, geometry, false);
+            break;
+        case 'circle':
+        case 'sphere':
+            geometry.primitives.push({ kind: 'circle', center: entity.center, radius: entity.radius });
+            geometry.center.push(entity.center);
+            geometry.quadrant.push(...circleQuadrants(entity.center, entity.radius));
+            break;
+        case 'arc': {
+            const { start, end } = getArcEndpoints(entity);
+            geometry.primitives.push({ kind: 'circle', center: entity.center, radius: entity.radius, arc: { start: entity.startAngle, end: entity.endAngle } });
+            geometry.endpoint.push(start, end);
+            geometry.midpoint.push(pointOnCircle(entity.center, entity.radius, entity.startAngle + getArcSweep(entity.startAngle, entity.endAngle) / 2));
+            geometry.center.push(entity.center);
+            geometry.quadrant.push(...[0, 1, 2, 3]
+                .filter(i => isAngleOnArc(i * Math.PI / 2, entity.startAngle, entity.endAngle))
+                .map(i => pointOnCircle(entity.center, entity.radius, i * Math.PI / 2)));
+            break;
+        }
+        case 'ellipse': {
+            pathGeometry(sampleEllipse(entity, 96), true, geometry, true);
+            const cos = Math.cos(entity.rotation || 0), sin = Math.sin(entity.rotation || 0);
+            geometry.center.push(entity.center);
+            geometry.quadrant.push(...[[entity.radiusX, 0], [0, entity.radiusY], [-entity.radiusX, 0], [0, -entity.radiusY]]
+                .map(([x, y]) => ({ x: entity.center.x + x * cos - y * sin, y: entity.center.y + x * sin + y * cos })));
+            break;
+        }
+        case 'spline':
+            pathGeometry(sampleSpline(entity), entity.closed && entity.points.length > 2, geometry, true);
+            // The curve passes through every picked point
+            geometry.endpoint.push(...entity.points);
+            break;
+        case 'light':
+            geometry.center.push(entity.position);
+            break;
+        case 'text':
+            // Only the insertion point; glyph outlines would swamp the other snaps
+            geometry.endpoint.push(entity.position);
+            break;
+    }
+    return geometry;
+};
+
+const isOnPrimitiveArc = (c: Extract<Primitive, { kind: 'circle' }>, p: Point) =>
+    !c.arc || isAngleOnArc(Math.atan2(p.y - c.center.y, p.x - c.center.x), c.arc.start, c.arc.end);
+
+const closestOnPrimitive = (prim: Primitive, p: Point): Point => {
+    if (prim.kind === 'segment') {
+        const dx = prim.b.x - prim.a.x, dy = prim.b.y - prim.a.y;
+        const len2 = dx * dx + dy * dy;
+        const t = len2 > 0 ? Math.max(0, Math.min(1, ((p.x - prim.a.x) * dx + (p.y - prim.a.y) * dy) / len2)) : 0;
+        return { x: prim.a.x + dx * t, y: prim.a.y + dy * t };
+    }
+    const d = distance(p, prim.center);
+    const onCircle = d > EPSILON
+        ? { x: prim.center.x + (p.x - prim.center.x) / d * prim.radius, y: prim.center.y + (p.y - prim.center.y) / d * prim.radius }
+        : pointOnCircle(prim.center, prim.radius, 0);
+    if (isOnPrimitiveArc(prim, onCircle)) return onCircle;
+    const start = pointOnCircle(prim.center, prim.radius, prim.arc!.start);
+    const end = pointOnCircle(prim.center, prim.radius, prim.arc!.end);
+    return distance(p, start) <= distance(p, end) ? start : end;
+};
+
+const intersectPrimitives = (p: Primitive, q: Primitive): Point[] => {
+    if (p.kind === 'circle' && q.kind === 'segment') return intersectPrimitives(q, p);
+    if (p.kind === 'segment' && q.kind === 'segment') {
+        const rx = p.b.x - p.a.x, ry = p.b.y - p.a.y;
+        const sx = q.b.x - q.a.x, sy = q.b.y - q.a.y;
+        const denom = rx * sy - ry * sx;
+        if (Math.abs(denom) < EPSILON) return [];
+        const t = ((q.a.x - p.a.x) * sy - (q.a.y - p.a.y) * sx) / denom;
+        const u = ((q.a.x - p.a.x) * ry - (q.a.y - p.a.y) * rx) / denom;
+        return t >= 0 && t <= 1 && u >= 0 && u <= 1 ? [{ x: p.a.x + rx * t, y: p.a.y + ry * t }] : [];
+    }
+    if (p.kind === 'segment' && q.kind === 'circle') {
+        const dx = p.b.x - p.a.x, dy = p.b.y - p.a.y;
+        const fx = p.a.x - q.center.x, fy = p.a.y - q.center.y;
+        const a = dx * dx + dy * dy;
+        if (a < EPSILON) return [];
+        const b = 2 * (fx * dx + fy * dy);
+        const c = fx * fx + fy * fy - q.radius * q.radius;
+        const disc = b * b - 4 * a * c;
+        if (disc < 0) return [];
+        const root = Math.sqrt(disc);
+        return [(-b - root) / (2 * a), (-b + root) / (2 * a)]
+            .filter(t => t >= 0 && t <= 1)
+            .map(t => ({ x: p.a.x + dx * t, y: p.a.y + dy * t }))
+            .filter(pt => isOnPrimitiveArc(q, pt));
+    }
+    if (p.kind === 'circle' && q.kind === 'circle') {
+        const d = distance(p.center, q.center);
+        if (d < EPSILON || d > p.radius + q.radius || d < Math.abs(p.radius - q.radius)) return [];
+        const a = (p.radius * p.radius - q.radius * q.radius + d * d) / (2 * d);
+        const h = Math.sqrt(Math.max(0, p.radius * p.radius - a * a));
+        const ux = (q.center.x - p.center.x) / d, uy = (q.center.y - p.center.y) / d;
+        const mx = p.center.x + ux * a, my = p.center.y + uy * a;
+        return [{ x: mx - uy * h, y: my + ux * h }, { x: mx + uy * h, y: my - ux * h }]
+            .filter(pt => isOnPrimitiveArc(p, pt) && isOnPrimitiveArc(q, pt));
+    }
+    return [];
+};
+
+// Feet of the perpendiculars dropped from `from` onto the primitive
+const perpendicularPoints = (prim: Primitive, from: Point): Point[] => {
+    if (prim.kind === 'segment') {
+        const dx = prim.b.x - prim.a.x, dy = prim.b.y - prim.a.y;
+        const len2 = dx * dx + dy * dy;
+        if (len2 < EPSILON) return [];
+        const t = ((from.x - prim.a.x) * dx + (from.y - prim.a.y) * dy) / len2;
+        return t >= 0 && t <= 1 ? [{ x: prim.a.x + dx * t, y: prim.a.y + dy * t }] : [];
+    }
+    const angle = Math.atan2(from.y - prim.center.y, from.x - prim.center.x);
+    return [angle, angle + Math.PI]
+        .map(a => pointOnCircle(prim.center, prim.radius, a))
+        .filter(pt => isOnPrimitiveArc(prim, pt));
+};
+
+// Points where a line from `from` touches the circle
+const tangentPoints = (prim: Primitive, from: Point): Point[] => {
+    if (prim.kind !== 'circle') return [];
+    const d = distance(from, prim.center);
+    if (d <= prim.radius) return [];
+    const angle = Math.atan2(from.y - prim.center.y, from.x - prim.center.x);
+    const offset = Math.acos(prim.radius / d);
+    return [angle - offset, angle + offset]
+        .map(a => pointOnCircle(prim.center, prim.radius, a))
+        .filter(pt => isOnPrimitiveArc(prim, pt));
+};
+
+// The best object snap within `tolerance` of the cursor, else the grid point (when on), else the cursor.
+// `from` is the last picked point, which perpendicular and tangent snaps are measured from.
+export const findSnap = (p: Point, entities: Entity[], settings: SnapSettings, tolerance: number, from: Point | null = null, gridSize?: number): SnapResult => {
+    const near = entities.filter(e => {
+        const b = getBounds(e);
+        return p.x >= b.x1 - tolerance && p.x <= b.x2 + tolerance && p.y >= b.y1 - tolerance && p.y <= b.y2 + tolerance;
+    });
+
+    const candidates: { point: Point, mode: ObjectSnapMode }[] = [];
+    const nearPrimitives: { owner: number, prim: Primitive }[] = [];
+    near.forEach((entity, owner) => {
+        const geometry = getSnapGeometry(entity);
+        (['endpoint', 'midpoint', 'center', 'quadrant'] as const).forEach(mode => {
+            if (settings[mode]) geometry[mode].forEach(point => candidates.push({ point, mode }));
+        });
+        geometry.primitives.forEach(prim => {
+            if (distance(p, closestOnPrimitive(prim, p)) <= tolerance) nearPrimitives.push({ owner, prim });
+        });
+    });
+
+    if (settings.intersection) {
+        // Only pieces passing near the cursor can cross near it
+        for (let i = 0; i < nearPrimitives.length; i++) {
+            for (let j = i + 1; j < nearPrimitives.length; j++) {
+                if (nearPrimitives[i].owner === nearPrimitives[j].owner) continue;
+                intersectPrimitives(nearPrimitives[i].prim, nearPrimitives[j].prim).forEach(point => candidates.push({ point, mode: 'intersection' }));
+            }
+        }
+    }
+    if (from) {
+        nearPrimitives.forEach(({ prim }) => {
+            if (settings.perpendicular) perpendicularPoints(prim, from).forEach(point => candidates.push({ point, mode: 'perpendicular' }));
+            if (settings.tangent) tangentPoints(prim, from).forEach(point => candidates.push({ point, mode: 'tangent' }));
+        });
+    }
+
+    let best: { point: Point, mode: ObjectSnapMode } | null = null;
+    let bestDist = tolerance;
+    for (const mode of POINT_MODES) {
+        for (const c of candidates.filter(c => c.mode === mode)) {
+            const d = distance(p, c.point);
+            // Earlier modes keep the spot on ties, so an endpoint is not reported as an intersection
+            if (d < bestDist - EPSILON || (!best && d <= bestDist)) {
+                best = c;
+                bestDist = d;
+            }
+        }
+    }
+    if (best) return best;
+
+    if (settings.nearest && nearPrimitives.length > 0) {
+        const points = nearPrimitives.map(({ prim }) => closestOnPrimitive(prim, p));
+        const point = points.reduce((a, b) => distance(p, a) <= distance(p, b) ? a : b);
+        return { point, mode: 'nearest' };
+    }
+
+    if (settings.grid) return { point: snapPoint(p, true, gridSize), mode: 'grid' };
+    return { point: p, mode: null };
+};
@@ -0,0 +1,639 @@
+import { Entity, Layer, Point, ViewType, LineEntity, PolygonEntity, PolylineEntity, LengthUnit } from '../types';
+import { mapEntityToView, getBounds, generateId, cleanPolygon, nestRings, getArcEndpoints, getArcSweep, splineToBeziers, DEFAULT_POLYLINE_THICKNESS, getAnnotationGeometry, getArrowOutline, pointOnCircle, entityToShapes } from './geometry';
+import { getHatchSegments } from './hatch';
+import { downloadBlob } from './exporter';
+import { logger } from './debug';
+
+// SVG user units are world units, so the drawing keeps its real size regardless of the canvas zoom.
+// The `unit` only sets the physical size of one user unit on the root element.
+
+export interface SvgExportOptions {
+    unit: string; // CSS absolute unit: mm, cm, in...
+    strokeWidth: number; // In world units
+    fillOpacity: number;
+    padding: number;
+}
+
+const DEFAULT_SVG_OPTIONS: SvgExportOptions = {
+    unit: 'mm',
+    strokeWidth: 0.25,
+    fillOpacity: 0.15,
+    padding: 5
+};
+
+const fmt = (n: number) => Number((n || 0).toFixed(4)).toString();
+
+const escapeXml = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const ringToPath = (points: Point[]) => {
+    if (points.length === 0) return '';
+    return 'M ' + points.map(p => `${fmt(p.x)} ${fmt(p.y)}`).join(' L ') + ' Z';
+};
+
+// Returns the SVG element for an entity already mapped into the view plane
+const entityToSvg = (entity: Entity, mapped: Entity): string | null => {
+    const attrs: string[] = [];
+    if (entity.name) attrs.push(`inkscape:label="${escapeXml(entity.name)}"`);
+    if (entity.color) attrs.push(`stroke="${escapeXml(entity.color)}"`);
+    const isOpen = mapped.type === 'line' || mapped.type === 'arc' || mapped.type === 'polyline' || (mapped.type === 'spline' && !mapped.closed);
+    if (entity.operation === 'cut' || isOpen) attrs.push('fill="none"');
+    else if (entity.color) attrs.push(`fill="${escapeXml(entity.color)}"`);
+    if (entity.operation === 'cut') attrs.push('stroke-dasharray="2 2"');
+    const extra = attrs.length ? ' ' + attrs.join(' ') : '';
+
+    if (mapped.type === 'line') {
+        return `<line x1="${fmt(mapped.start.x)}" y1="${fmt(mapped.start.y)}" x2="${fmt(mapped.end.x)}" y2="${fmt(mapped.end.y)}"${extra}/>`;
+    } else if (mapped.type === 'rectangle') {
+        const rotation = mapped.rotation
+            ? ` transform="rotate(${fmt(mapped.rotation * 180 / Math.PI)} ${fmt(mapped.start.x + mapped.width / 2)} ${fmt(mapped.start.y + mapped.height / 2)})"`
+            : '';
+        return `<rect x="${fmt(mapped.start.x)}" y="${fmt(mapped.start.y)}" width="${fmt(mapped.width)}" height="${fmt(mapped.height)}"${rotation}${extra}/>`;
+    } else if (mapped.type === 'circle' || mapped.type === 'sphere') {
+        return `<circle cx="${fmt(mapped.center.x)}" cy="${fmt(mapped.center.y)}" r="${fmt(mapped.radius)}"${extra}/>`;
+    } else if (mapped.type === 'arc') {
+        const sweep = getArcSweep(mapped.startAngle, mapped.endAngle);
+        if (sweep >= Math.PI * 2 - 1e-6) {
+            return `<circle cx="${fmt(mapped.center.x)}" cy="${fmt(mapped.center.y)}" r="${fmt(mapped.radius)}"${extra}/>`;
+        }
+        // SVG is y-down like the drawing, so sweep-flag 1 follows increasing angles
+        const { start, end } = getArcEndpoints(mapped);
+        const r = fmt(mapped.radius);
+        return `<path d="M ${fmt(start.x)} ${fmt(start.y)} A ${r} ${r} 0 ${sweep > Math.PI ? 1 : 0} 1 ${fmt(end.x)} ${fmt(end.y)}"${extra}/>`;
+    } else if (mapped.type === 'ellipse') {
+        const rotation = mapped.rotation ? ` transform="rotate(${fmt(mapped.rotation * 180 / Math.PI)} ${fmt(mapped.center.x)} ${fmt(mapped.center.y)})"` : '';
+        return `<ellipse cx="${fmt(mapped.center.x)}" cy="${fmt(mapped.center.y)}" rx="${fmt(mapped.radiusX)}" ry="${fmt(mapped.radiusY)}"${rotation}${extra}/>`;
+    } else if (mapped.type === 'spline') {
+        const segments = splineToBeziers(mapped.points, mapped.closed);
+        if (segments.length === 0) return null;
+        const d = `M ${fmt(segments[0].start.x)} ${fmt(segments[0].start.y)} ` +
+            segments.map(({ c1, c2, end }) => `C ${fmt(c1.x)} ${fmt(c1.y)} ${fmt(c2.x)} ${fmt(c2.y)} ${fmt(end.x)} ${fmt(end.y)}`).join(' ') +
+            (mapped.closed ? ' Z' : '');
+        return `<path d="${d}"${extra}/>`;
+    } else if (mapped.type === 'polyline') {
+        if (mapped.points.length < 2) return null;
+        return `<polyline points="${mapped.points.map(p => `${fmt(p.x)},${fmt(p.y)}`).join(' ')}"${extra}/>`;
+    } else if (mapped.type === 'polygon') {
+        if (mapped.points.length < 2) return null;
+        const d = [mapped.points, ...(mapped.holes || [])].filter(r => r.length > 1).map(ringToPath).join(' ');
+        return `<path d="${d}" fill-rule="evenodd"${extra}/>`;
+    } else if (mapped.type === 'text') {
+        const d = entityToShapes(mapped).flatMap(glyph => [glyph.points, ...glyph.holes]).map(ringToPath).join(' ');
+        return d ? `<path d="${d}" fill-rule="evenodd"${extra}/>` : null;
+    } else if (mapped.type === 'hatch') {
+        // Solid hatches fill opaque; pattern lines are only stroked
+        if (mapped.pattern === 'solid') {
+            const d = [mapped.points, ...(mapped.holes || [])].filter(r => r.length > 2).map(ringToPath).join(' ');
+            return `<g${extra}><path d="${d}" fill-rule="evenodd" fill-opacity="1" stroke="none"/></g>`;
+        }
+        const d = getHatchSegments(mapped).map(([a, b]) => `M ${fmt(a.x)} ${fmt(a.y)} L ${fmt(b.x)} ${fmt(b.y)}`).join(' ');
+        return d ? `<g${extra}><path d="${d}" fill="none"/></g>` : null;
+    } else if (mapped.type === 'dimension' || mapped.type === 'leader') {
+        // Lines and arcs are only stroked; arrowheads and text take the fill colour, fully opaque
+        const g = getAnnotationGeometry(mapped);
+        const parts = [
+            ...g.segments.map(([a, b]) => `<line x1="${fmt(a.x)}" y1="${fmt(a.y)}" x2="${fmt(b.x)}" y2="${fmt(b.y)}"/>`),
+            ...g.arcs.map(arc => {
+                const sweep = getArcSweep(arc.startAngle, arc.endAngle);
+                const start = pointOnCircle(arc.center, arc.radius, arc.startAngle);
+                const end = pointOnCircle(arc.center, arc.radius, arc.endAngle);
+                const r = fmt(arc.radius);
+                return `<path d="M ${fmt(start.x)} ${fmt(start.y)} A ${r} ${r} 0 ${sweep > Math.PI ? 1 : 0} 1 ${fmt(end.x)} ${fmt(end.y)}" fill="none"/>`;
+            }),
+            ...g.arrows.map(arrow => `<polygon points="${getArrowOutline(arrow, mapped.textHeight).map(p => `${fmt(p.x)},${fmt(p.y)}`).join(' ')}" fill-opacity="1" stroke="none"/>`)
+        ];
+        if (g.text.value) {
+            const { position: at, angle, height, align } = g.text;
+            const rotate = angle ? ` transform="rotate(${fmt(angle * 180 / Math.PI)} ${fmt(at.x)} ${fmt(at.y)})"` : '';
+            const anchor = align === 'left' ? 'start' : align === 'right' ? 'end' : 'middle';
+            parts.push(`<text x="${fmt(at.x)}" y="${fmt(at.y)}" font-size="${fmt(height)}" font-family="sans-serif" text-anchor="${anchor}" dominant-baseline="middle"${rotate} fill-opacity="1" stroke="none">${escapeXml(g.text.value)}</text>`);
+        }
+        return `<g${extra}>${parts.join('')}</g>`;
+    }
+    return null;
+};
+
+export const buildSvg = (entities: Entity[], layers: Layer[], viewType: ViewType, options: Partial<SvgExportOptions> = {}): string => {
+    // The default stroke and padding are millimetre sizes; they keep that look in other units
+    const perMm = 1 / (UNIT_TO_MM[options.unit || DEFAULT_SVG_OPTIONS.unit] || 1);
+    const opts = {
+        ...DEFAULT_SVG_OPTIONS,
+        strokeWidth: DEFAULT_SVG_OPTIONS.strokeWidth * perMm,
+        padding: DEFAULT_SVG_OPTIONS.padding * perMm,
+        ...options
+    };
+
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    const groups: string[] = [];
+
+    layers.forEach(layer => {
+        if (!layer.visible) return;
+        const elements: string[] = [];
+        entities.forEach(entity => {
+            if (entity.layerId !== layer.id || entity.type === 'light') return;
+            const mapped = mapEntityToView(entity, viewType);
+            if (!mapped) return;
+            const el = entityToSvg(entity, mapped);
+            if (!el) return;
+            const b = getBounds(mapped);
+            minX = Math.min(minX, b.x1); minY = Math.min(minY, b.y1);
+            maxX = Math.max(maxX, b.x2); maxY = Math.max(maxY, b.y2);
+            elements.push('    ' + el);
+        });
+        if (elements.length === 0) return;
+        const color = escapeXml(layer.color);
+        groups.push(
+            `  <g id="${escapeXml(layer.id)}" inkscape:groupmode="layer" inkscape:label="${escapeXml(layer.name)}" ` +
+            `stroke="${color}" fill="${color}" stroke-width="${fmt(opts.strokeWidth)}" fill-opacity="${fmt(opts.fillOpacity)}" stroke-linejoin="round">\n` +
+            elements.join('\n') +
+            '\n  </g>'
+        );
+    });
+
+    if (groups.length === 0) { minX = 0; minY = 0; maxX = 0; maxY = 0; }
+
+    const x = minX - opts.padding;
+    const y = minY - opts.padding;
+    const w = (maxX - minX) + opts.padding * 2;
+    const h = (maxY - minY) + opts.padding * 2;
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+        `<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" ` +
+        `width="${fmt(w)}${opts.unit}" height="${fmt(h)}${opts.unit}" viewBox="${fmt(x)} ${fmt(y)} ${fmt(w)} ${fmt(h)}">`,
+        `  <title>ThoughtlessCAD ${viewType} view</title>`,
+        ...groups,
+        '</svg>',
+        ''
+    ].join('\n');
+};
+
+export const exportToSvg = (entities: Entity[], layers: Layer[], viewType: ViewType, onlySelected: boolean = false, filename: string = `ThoughtlessCAD-${viewType}.svg`, options: Partial<SvgExportOptions> = {}) => {
+    logger.log('EXPORT', `Starting SVG Export (${viewType}). Count: ${entities.length}, SelectedOnly: ${onlySelected}`);
+
+    const targetEntities = onlySelected ? entities.filter(e => e.selected) : entities;
+
+    if (targetEntities.length === 0) {
+        alert("Export Failed: No entities selected.");
+        return;
+    }
+
+    try {
+        const output = buildSvg(targetEntities, layers, viewType, options);
+        downloadBlob(output, filename);
+        logger.log('EXPORT', 'SVG Export Success');
+        alert("Export Successful!");
+    } catch (err: any) {
+        logger.error('EXPORT', 'SVG Failed', err);
+        alert("Export failed. See logs.");
+    }
+};
+
+// --- Reader ---
+
+export interface SvgImportOptions {
+    tolerance: number; // Max distance between a curve and its flattened polyline, in world units
+}
+
+export interface SvgImportResult {
+    entities: Entity[];
+    skipped: Record<string, number>; // Unsupported element -> count
+    units?: LengthUnit; // Set when the file declared a physical size; unitless files have none
+}
+
+// 2D affine matrix [a, b, c, d, e, f] as in SVG: x' = a*x + c*y + e, y' = b*x + d*y + f
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+const NUMBER_RE = /[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/g;
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5]
+];
+
+const applyMatrix = (m: Matrix, p: Point): Point => ({
+    x: m[0] * p.x + m[2] * p.y + m[4],
+    y: m[1] * p.x + m[3] * p.y + m[5]
+});
+
+const parseTransform = (value: string | null): Matrix => {
+    let result: Matrix = IDENTITY;
+    if (!value) return result;
+    const re = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+    let match: RegExpExecArray | null;
+    while ((match = re.exec(value)) !== null) {
+        const args = (match[2].match(NUMBER_RE) || []).map(parseFloat);
+        let m: Matrix = IDENTITY;
+        switch (match[1]) {
+            case 'matrix':
+                if (args.length === 6) m = args as Matrix;
+                break;
+            case 'translate':
+                m = [1, 0, 0, 1, args[0] || 0, args[1] || 0];
+                break;
+            case 'scale':
+                m = [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0];
+                break;
+            case 'rotate': {
+                const a = (args[0] || 0) * Math.PI / 180;
+                const cx = args[1] || 0, cy = args[2] || 0;
+                const cos = Math.cos(a), sin = Math.sin(a);
+                m = [cos, sin, -sin, cos, cx - cos * cx + sin * cy, cy - sin * cx - cos * cy];
+                break;
+            }
+            case 'skewX':
+                m = [1, 0, Math.tan((args[0] || 0) * Math.PI / 180), 1, 0, 0];
+                break;
+            case 'skewY':
+                m = [1, Math.tan((args[0] || 0) * Math.PI / 180), 0, 1, 0, 0];
+                break;
+        }
+        result = multiply(result, m);
+    }
+    return result;
+};
+
+// Physical size of one root user unit in mm, when the root declares an absolute width
+const UNIT_TO_MM: Record<string, number> = { mm: 1, cm: 10, in: 25.4, pt: 25.4 / 72, pc: 25.4 / 6 };
+
+interface SubPath {
+    points: Point[];
+    closed: boolean;
+}
+
+// --- Curve Flattening ---
+
+// Wang's formula: segment count that keeps a Bezier within `tol` of its chords
+const bezierSegments = (pts: Point[], tol: number): number => {
+    let dd = 0;
+    for (let i = 0; i + 2 < pts.length; i++) {
+        const x = pts[i].x - 2 * pts[i + 1].x + pts[i + 2].x;
+        const y = pts[i].y - 2 * pts[i + 1].y + pts[i + 2].y;
+        dd = Math.max(dd, Math.sqrt(x * x + y * y));
+    }
+    const degree = pts.length - 1;
+    const n = Math.ceil(Math.sqrt((degree * (degree - 1) / 8) * dd / tol));
+    return Math.max(1, Math.min(n, 256));
+};
+
+const flattenCubic = (p0: Point, p1: Point, p2: Point, p3: Point, tol: number): Point[] => {
+    const n = bezierSegments([p0, p1, p2, p3], tol);
+    const out: Point[] = [];
+    for (let i = 1; i <= n; i++) {
+        const t = i / n, mt = 1 - t;
+        out.push({
+            x: mt * mt * mt * p0.x + 3 * mt * mt * t * p1.x + 3 * mt * t * t * p2.x + t * t * t * p3.x,
+            y: mt * mt * mt * p0.y + 3 * mt * mt * t * p1.y + 3 * mt * t * t * p2.y + t * t * t * p3.y
+        });
+    }
+    return out;
+};
+
+const flattenQuadratic = (p0: Point, p1: Point, p2: Point, tol: number): Point[] => {
+    const n = bezierSegments([p0, p1, p2], tol);
+    const out: Point[] = [];
+    for (let i = 1; i <= n; i++) {
+        const t = i / n, mt = 1 - t;
+        out.push({
+            x: mt * mt * p0.x + 2 * mt * t * p1.x + t * t * p2.x,
+            y: mt * mt * p0.y + 2 * mt * t * p1.y + t * t * p2.y
+        });
+    }
+    return out;
+};
+
+// Angular step that keeps the sagitta of each chord below `tol`
+const arcStep = (radius: number, tol: number) => {
+    if (radius <= tol) return Math.PI / 2;
+    return Math.max(2 * Math.acos(1 - tol / radius), Math.PI / 180);
+};
+
+const flattenEllipse = (cx: number, cy: number, rx: number, ry: number, tol: number): Point[] => {
+    const n = Math.max(8, Math.ceil((Math.PI * 2) / arcStep(Math.max(rx, ry), tol)));
+    const pts: Point[] = [];
+    for (let i = 0; i < n; i++) {
+        const theta = (i / n) * Math.PI * 2;
+        pts.push({ x: cx + Math.cos(theta) * rx, y: cy + Math.sin(theta) * ry });
+    }
+    return pts;
+};
+
+// SVG endpoint arc -> center parameterization (SVG 1.1 Appendix F.6)
+const flattenArc = (from: Point, rxIn: number, ryIn: number, xRot: number, largeArc: boolean, sweep: boolean, to: Point, tol: number): Point[] => {
+    let rx = Math.abs(rxIn), ry = Math.abs(ryIn);
+    if (rx === 0 || ry === 0) return [to];
+    const phi = xRot * Math.PI / 180;
+    const cos = Math.cos(phi), sin = Math.sin(phi);
+    const dx = (from.x - to.x) / 2, dy = (from.y - to.y) / 2;
+    const x1 = cos * dx + sin * dy;
+    const y1 = -sin * dx + cos * dy;
+
+    const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+    if (lambda > 1) { rx *= Math.sqrt(lambda); ry *= Math.sqrt(lambda); }
+
+    const num = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+    const den = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+    const coef = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, num / den));
+    const cxp = coef * (rx * y1 / ry);
+    const cyp = coef * -(ry * x1 / rx);
+    const cx = cos * cxp - sin * cyp + (from.x + to.x) / 2;
+    const cy = sin * cxp + cos * cyp + (from.y + to.y) / 2;
+
+    const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+    const theta1 = angle(1, 0, (x1 - cxp) / rx, (y1 - cyp) / ry);
+    let dTheta = angle((x1 - cxp) / rx, (y1 - cyp) / ry, (-x1 - cxp) / rx, (-y1 - cyp) / ry);
+    if (!sweep && dTheta > 0) dTheta -= Math.PI * 2;
+    if (sweep && dTheta < 0) dTheta += Math.PI * 2;
+
+    const n = Math.max(1, Math.ceil(Math.abs(dTheta) / arcStep(Math.max(rx, ry), tol)));
+    const out: Point[] = [];
+    for (let i = 1; i <= n; i++) {
+        const t = theta1 + dTheta * (i / n);
+        const ex = rx * Math.cos(t), ey = ry * Math.sin(t);
+        out.push({ x: cos * ex - sin * ey + cx, y: sin * ex + cos * ey + cy });
+    }
+    out[out.length - 1] = to;
+    return out;
+};
+
+// --- Path Data ---
+
+export const parsePathData = (d: string, tol: number): SubPath[] => {
+    const subPaths: SubPath[] = [];
+    let current: SubPath | null = null;
+    let pos: Point = { x: 0, y: 0 };
+    let start: Point = { x: 0, y: 0 };
+    let lastControl: Point | null = null;
+    let lastCmd = '';
+    let i = 0;
+
+    const skipSeparators = () => { while (i < d.length && /[\s,]/.test(d[i])) i++; };
+    const readNumber = (): number => {
+        skipSeparators();
+        NUMBER_RE.lastIndex = i;
+        const m = NUMBER_RE.exec(d);
+        if (!m || m.index !== i) throw new Error(`Expected number at ${i} in path data`);
+        i += m[0].length;
+        return parseFloat(m[0]);
+    };
+    const readFlag = (): boolean => {
+        skipSeparators();
+        const c = d[i++];
+        if (c !== '0' && c !== '1') throw new Error(`Expected arc flag at ${i - 1} in path data`);
+        return c === '1';
+    };
+    const hasNumber = () => {
+        skipSeparators();
+        return i < d.length && /[0-9.+-]/.test(d[i]);
+    };
+    const lineTo = (pts: Point[]) => {
+        if (!current) {
+            current = { points: [{ ...pos }], closed: false };
+            subPaths.push(current);
+        }
+        current.points.push(...pts);
+    };
+
+    while (true) {
+        skipSeparators();
+        if (i >= d.length) break;
+        let cmd = d[i];
+        if (/[a-zA-Z]/.test(cmd)) {
+            i++;
+        } else if (lastCmd) {
+            // Implicit repetition; a repeated moveto becomes a lineto
+            cmd = lastCmd === 'M' ? 'L' : lastCmd === 'm' ? 'l' : lastCmd;
+        } else {
+            throw new Error('Path data must start with a command');
+        }
+        const rel = cmd === cmd.toLowerCase();
+        const ox = rel ? pos.x : 0, oy = rel ? pos.y : 0;
+        let upper = cmd.toUpperCase();
+
+        if (upper === 'Z') {
+            if (current) { current.closed = true; current = null; }
+            pos = { ...start };
+            lastControl = null;
+            lastCmd = cmd;
+            continue;
+        }
+
+        do {
+            if (upper === 'M') {
+                pos = { x: ox + readNumber(), y: oy + readNumber() };
+                start = { ...pos };
+                current = { points: [{ ...pos }], closed: false };
+                subPaths.push(current);
+                lastControl = null;
+                // Further pairs after a moveto are linetos
+                cmd = rel ? 'l' : 'L';
+                upper = 'L';
+            } else if (upper === 'L') {
+                pos = { x: (rel ? pos.x : 0) + readNumber(), y: (rel ? pos.y : 0) + readNumber() };
+                lineTo([pos]);
+                lastControl = null;
+            } else if (upper === 'H') {
+                pos = { x: (rel ? pos.x : 0) + readNumber(), y: pos.y };
+                lineTo([pos]);
+                lastControl = null;
+            } else if (upper === 'V') {
+                pos = { x: pos.x, y: (rel ? pos.y : 0) + readNumber() };
+                lineTo([pos]);
+                lastControl = null;
+            } else if (upper === 'C' || upper === 'S') {
+                const bx = rel ? pos.x : 0, by = rel ? pos.y : 0;
+                const c1 = upper === 'C'
+                    ? { x: bx + readNumber(), y: by + readNumber() }
+                    : (lastControl && /[CcSs]/.test(lastCmd) ? { x: 2 * pos.x - lastControl.x, y: 2 * pos.y - lastControl.y } : { ...pos });
+                const c2 = { x: bx + readNumber(), y: by + readNumber() };
+                const end = { x: bx + readNumber(), y: by + readNumber() };
+                lineTo(flattenCubic(pos, c1, c2, end, tol));
+                lastControl = c2;
+                pos = end;
+            } else if (upper === 'Q' || upper === 'T') {
+                const bx = rel ? pos.x : 0, by = rel ? pos.y : 0;
+                const c = upper === 'Q'
+                    ? { x: bx + readNumber(), y: by + readNumber() }
+                    : (lastControl && /[QqTt]/.test(lastCmd) ? { x: 2 * pos.x - lastControl.x, y: 2 * pos.y - lastControl.y } : { ...pos });
+                const end = { x: bx + readNumber(), y: by + readNumber() };
+                lineTo(flattenQuadratic(pos, c, end, tol));
+                lastControl = c;
+                pos = end;
+            } else if (upper === 'A') {
+                const bx = rel ? pos.x : 0, by = rel ? pos.y : 0;
+                const rx = readNumber(), ry = readNumber(), rot = readNumber();
+                const large = readFlag(), sweep = readFlag();
+                const end = { x: bx + readNumber(), y: by + readNumber() };
+                lineTo(flattenArc(pos, rx, ry, rot, large, sweep, end, tol));
+                lastControl = null;
+                pos = end;
+            } else {
+                throw new Error(`Unknown path command "${cmd}"`);
+            }
+            lastCmd = cmd;
+        } while (hasNumber());
+    }
+
+    return subPaths.filter(sp => sp.points.length > 1);
+};
+
+// --- Elements ---
+
+const num = (el: Element, attr: string, fallback: number = 0) => {
+    const v = parseFloat(el.getAttribute(attr) || '');
+    return isFinite(v) ? v : fallback;
+};
+
+const parsePointList = (value: string | null): Point[] => {
+    const nums = (value || '').match(NUMBER_RE)?.map(parseFloat) || [];
+    const pts: Point[] = [];
+    for (let i = 0; i + 1 < nums.length; i += 2) pts.push({ x: nums[i], y: nums[i + 1] });
+    return pts;
+};
+
+const roundedRectPath = (x: number, y: number, w: number, h: number, rx: number, ry: number) =>
+    `M ${x + rx} ${y} H ${x + w - rx} A ${rx} ${ry} 0 0 1 ${x + w} ${y + ry} V ${y + h - ry} ` +
+    `A ${rx} ${ry} 0 0 1 ${x + w - rx} ${y + h} H ${x + rx} A ${rx} ${ry} 0 0 1 ${x} ${y + h - ry} ` +
+    `V ${y + ry} A ${rx} ${ry} 0 0 1 ${x + rx} ${y} Z`;
+
+const elementToSubPaths = (el: Element, tol: number): SubPath[] | null => {
+    switch (el.tagName.toLowerCase()) {
+        case 'path':
+            return parsePathData(el.getAttribute('d') || '', tol);
+        case 'rect': {
+            const x = num(el, 'x'), y = num(el, 'y'), w = num(el, 'width'), h = num(el, 'height');
+            if (w <= 0 || h <= 0) return [];
+            let rx = el.hasAttribute('rx') ? num(el, 'rx') : num(el, 'ry');
+            let ry = el.hasAttribute('ry') ? num(el, 'ry') : rx;
+            rx = Math.min(Math.max(0, rx), w / 2);
+            ry = Math.min(Math.max(0, ry), h / 2);
+            if (rx > 0 && ry > 0) return parsePathData(roundedRectPath(x, y, w, h, rx, ry), tol);
+            return [{ points: [{ x, y }, { x: x + w, y }, { x: x + w, y: y + h }, { x, y: y + h }], closed: true }];
+        }
+        case 'circle': {
+            const r = num(el, 'r');
+            if (r <= 0) return [];
+            return [{ points: flattenEllipse(num(el, 'cx'), num(el, 'cy'), r, r, tol), closed: true }];
+        }
+        case 'ellipse': {
+            const rx = num(el, 'rx'), ry = num(el, 'ry');
+            if (rx <= 0 || ry <= 0) return [];
+            return [{ points: flattenEllipse(num(el, 'cx'), num(el, 'cy'), rx, ry, tol), closed: true }];
+        }
+        case 'line':
+            return [{ points: [{ x: num(el, 'x1'), y: num(el, 'y1') }, { x: num(el, 'x2'), y: num(el, 'y2') }], closed: false }];
+        case 'polyline':
+            return [{ points: parsePointList(el.getAttribute('points')), closed: false }];
+        case 'polygon':
+            return [{ points: parsePointList(el.getAttribute('points')), closed: true }];
+        default:
+            return null;
+    }
+};
+
+// Containers we descend into; anything else that is not a shape is reported and skipped
+const CONTAINERS = ['svg', 'g', 'a', 'switch'];
+const IGNORED = ['defs', 'title', 'desc', 'metadata', 'style', 'script', 'clippath', 'mask', 'symbol', 'marker', 'pattern',
+    'lineargradient', 'radialgradient', 'filter', 'sodipodi:namedview'];
+
+const rootScale = (svg: Element): { matrix: Matrix, absolute: boolean } => {
+    const viewBox = (svg.getAttribute('viewBox') || '').match(NUMBER_RE)?.map(parseFloat);
+    const widthAttr = svg.getAttribute('width') || '';
+    const unitMatch = widthAttr.trim().match(/^([+-]?[\d.]+(?:e[+-]?\d+)?)\s*(mm|cm|in|pt|pc)$/i);
+    if (!viewBox || viewBox.length !== 4 || !unitMatch || viewBox[2] <= 0) {
+        return { matrix: viewBox && viewBox.length === 4 ? [1, 0, 0, 1, -viewBox[0], -viewBox[1]] : IDENTITY, absolute: false };
+    }
+    const s = parseFloat(unitMatch[1]) * UNIT_TO_MM[unitMatch[2].toLowerCase()] / viewBox[2];
+    return { matrix: [s, 0, 0, s, -viewBox[0] * s, -viewBox[1] * s], absolute: true };
+};
+
+// Root SVG elements sized in absolute units (mm, cm, in, pt) are converted to mm; unitless/px files import 1:1
+export const parseSvg = (content: string, layerId: string, options: Partial<SvgImportOptions> = {}): SvgImportResult => {
+    const tolerance = Math.max(options.tolerance ?? 0.5, 1e-3);
+    const doc = new DOMParser().parseFromString(content, 'image/svg+xml');
+    const parserError = doc.getElementsByTagName('parsererror')[0];
+    if (parserError) throw new Error(`Invalid SVG: ${parserError.textContent?.slice(0, 200)}`);
+    const root = doc.documentElement;
+    if (root.tagName.toLowerCase() !== 'svg') throw new Error('Not an SVG document');
+
+    const entities: Entity[] = [];
+    const skipped: Record<string, number> = {};
+
+    const base = {
+        layerId,
+        selected: false,
+        elevation: 0,
+        roughness: 0.5,
+        metalness: 0.1,
+        operation: 'solid' as const
+    };
+
+    const visit = (el: Element, ctm: Matrix) => {
+        const tag = el.tagName.toLowerCase();
+        if (IGNORED.includes(tag)) return;
+        if (el.getAttribute('display') === 'none') return;
+
+        const m = multiply(ctm, parseTransform(el.getAttribute('transform')));
+
+        if (CONTAINERS.includes(tag)) {
+            // Nested <svg> elements position their content with x/y
+            const inner = tag === 'svg' && el !== root ? multiply(m, [1, 0, 0, 1, num(el, 'x'), num(el, 'y')]) : m;
+            Array.from(el.children).forEach(child => visit(child, inner));
+            return;
+        }
+
+        // Flatten in local units with a tolerance scaled by the transform so the result meets it in world units
+        const scale = Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2])) || 1;
+        let subPaths: SubPath[] | null;
+        try {
+            subPaths = elementToSubPaths(el, tolerance / scale);
+        } catch (e: any) {
+            logger.warn('SVG', `Could not parse <${tag}>: ${e.message}`);
+            skipped[tag] = (skipped[tag] || 0) + 1;
+            return;
+        }
+        if (subPaths === null) {
+            skipped[tag] = (skipped[tag] || 0) + 1;
+            return;
+        }
+
+        const closed: Point[][] = [];
+        subPaths.forEach(sp => {
+            const pts = cleanPolygon(sp.points.map(p => applyMatrix(m, p)));
+            if (sp.closed && pts.length >= 3) {
+                closed.push(pts);
+            } else if (pts.length >= 3) {
+                entities.push({ ...base, id: generateId(), type: 'polyline', extrusionDepth: 0, points: pts, thickness: DEFAULT_POLYLINE_THICKNESS } as PolylineEntity);
+            } else if (pts.length === 2) {
+                entities.push({ ...base, id: generateId(), type: 'line', extrusionDepth: 0, start: pts[0], end: pts[1] } as LineEntity);
+            }
+        });
+
+        // Subpaths of one element nested inside another of its subpaths are holes
+        nestRings(closed, r => r).forEach(({ outer, holes }) => {
+            entities.push({
+                ...base,
+                id: generateId(),
+                type: 'polygon',
+                extrusionDepth: 20,
+                points: outer,
+                ...(holes.length ? { holes } : {})
+            } as PolygonEntity);
+        });
+    };
+
+    const { matrix, absolute } = rootScale(root);
+    visit(root, matrix);
+
+    Object.entries(skipped).forEach(([tag, count]) => {
+        logger.warn('SVG', `Skipped ${count} unsupported element${count === 1 ? '' : 's'}: <${tag}>`);
+    });
+    logger.log('SVG', `Parsed ${entities.length} entities (tolerance ${tolerance})`);
+
+    return { entities, skipped, ...(absolute ? { units: 'mm' as const } : {}) };
+};
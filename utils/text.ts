@@ -0,0 +1,111 @@
+import { Font } from 'three/examples/jsm/loaders/FontLoader.js';
+import helvetikerRegular from 'three/examples/fonts/helvetiker_regular.typeface.json';
+import helvetikerBold from 'three/examples/fonts/helvetiker_bold.typeface.json';
+import optimerRegular from 'three/examples/fonts/optimer_regular.typeface.json';
+import optimerBold from 'three/examples/fonts/optimer_bold.typeface.json';
+import droidSansMono from 'three/examples/fonts/droid/droid_sans_mono_regular.typeface.json';
+import { Point, TextEntity, TextFont } from '../types';
+import type { BooleanShape } from './clipping';
+
+// Text is drawn, picked, extruded and exported from its glyph outlines. The typeface fonts are
+// bundled into the app, so text works offline and every machine produces the same outlines.
+
+export const TEXT_FONTS: { id: TextFont, label: string }[] = [
+    { id: 'helvetiker', label: 'Helvetiker' },
+    { id: 'helvetiker-bold', label: 'Helvetiker Bold' },
+    { id: 'optimer', label: 'Optimer' },
+    { id: 'optimer-bold', label: 'Optimer Bold' },
+    { id: 'mono', label: 'Droid Sans Mono' },
+];
+
+const FONT_DATA: Record<TextFont, any> = {
+    'helvetiker': helvetikerRegular,
+    'helvetiker-bold': helvetikerBold,
+    'optimer': optimerRegular,
+    'optimer-bold': optimerBold,
+    'mono': droidSansMono,
+};
+
+const CURVE_DIVISIONS = 6; // Per quadratic or cubic segment of a glyph
+const OUTLINE_CACHE_SIZE = 64;
+
+const fonts = new Map<TextFont, Font>();
+const getFont = (id: TextFont): Font => {
+    const known = FONT_DATA[id] ? id : 'helvetiker';
+    if (!fonts.has(known)) fonts.set(known, new Font(FONT_DATA[known]));
+    return fonts.get(known)!;
+};
+
+interface TextLayout {
+    outlines: BooleanShape[];
+    box: { x1: number, y1: number, x2: number, y2: number };
+}
+
+// Glyph advances as the font lays them out; missing characters fall back to '?' like the font does
+const measureLine = (data: any, line: string, scale: number) =>
+    Array.from(line).reduce((width, char) => width + ((data.glyphs[char] || data.glyphs['?'])?.ha || 0) * scale, 0);
+
+const dropClosingPoint = (points: Point[]) =>
+    points.length > 1 && Math.abs(points[0].x - points[points.length - 1].x) < 1e-9 && Math.abs(points[0].y - points[points.length - 1].y) < 1e-9
+        ? points.slice(0, -1) : points;
+
+const layoutCache = new Map<string, TextLayout>();
+
+// Outlines relative to the position before rotating, Y-down like the drawing
+const getTextLayout = (entity: TextEntity): TextLayout => {
+    const key = `${entity.font}|${entity.size}|${entity.align}|${entity.text}`;
+    const cached = layoutCache.get(key);
+    if (cached) return cached;
+
+    const font = getFont(entity.font);
+    const data = (font as any).data;
+    const scale = entity.size / data.resolution;
+    const lineHeight = (data.boundingBox.yMax - data.boundingBox.yMin + data.underlineThickness) * scale;
+    const lines = entity.text.split('\n');
+
+    const outlines: BooleanShape[] = [];
+    let x1 = Infinity, x2 = -Infinity;
+    lines.forEach((line, i) => {
+        const width = measureLine(data, line, scale);
+        const shift = entity.align === 'left' ? 0 : entity.align === 'right' ? -width : -width / 2;
+        x1 = Math.min(x1, shift);
+        x2 = Math.max(x2, shift + width);
+        const toDrawing = (v: { x: number, y: number }): Point => ({ x: v.x + shift, y: -v.y + i * lineHeight });
+        font.generateShapes(line, entity.size).forEach(shape => {
+            const { shape: outer, holes } = shape.extractPoints(CURVE_DIVISIONS);
+            const points = dropClosingPoint(outer.map(toDrawing));
+            if (points.length < 3) return;
+            outlines.push({
+                points,
+                holes: holes.map((h: { x: number, y: number }[]) => dropClosingPoint(h.map(toDrawing))).filter((h: Point[]) => h.length > 2)
+            });
+        });
+    });
+
+    const layout = {
+        outlines,
+        box: { x1, y1: -data.ascender * scale, x2, y2: (lines.length - 1) * lineHeight - data.descender * scale }
+    };
+    if (layoutCache.size >= OUTLINE_CACHE_SIZE) layoutCache.delete(layoutCache.keys().next().value!);
+    layoutCache.set(key, layout);
+    return layout;
+};
+
+const placePoint = (entity: TextEntity, p: Point): Point => {
+    const cos = Math.cos(entity.rotation || 0), sin = Math.sin(entity.rotation || 0);
+    return { x: entity.position.x + p.x * cos - p.y * sin, y: entity.position.y + p.x * sin + p.y * cos };
+};
+
+// One shape per glyph island, holes included, in drawing coordinates
+export const getTextShapes = (entity: TextEntity): BooleanShape[] =>
+    getTextLayout(entity).outlines.map(o => ({
+        points: o.points.map(p => placePoint(entity, p)),
+        holes: o.holes.map(h => h.map(p => placePoint(entity, p)))
+    }));
+
+// Corners of the text block from the first line's ascender to the last line's descender
+export const getTextBox = (entity: TextEntity): Point[] => {
+    const { box } = getTextLayout(entity);
+    const x1 = isFinite(box.x1) ? box.x1 : 0, x2 = isFinite(box.x2) ? box.x2 : 0;
+    return [{ x: x1, y: box.y1 }, { x: x2, y: box.y1 }, { x: x2, y: box.y2 }, { x: x1, y: box.y2 }].map(p => placePoint(entity, p));
+};
@@ -0,0 +1,81 @@
+import { Point } from '../types';
+import { distance } from './geometry';
+
+// Ortho and polar tracking: the rubber-band point is pulled onto rays from the point
+// being drawn from, and from earlier picked points, at fixed angle increments.
+
+export interface TrackingGuide {
+    from: Point;
+    angle: number; // Radians, same sense as the rest of the drawing
+}
+
+export interface TrackingResult {
+    point: Point;
+    guides: TrackingGuide[];
+    label: string;
+}
+
+const toDegrees = (angle: number) => {
+    const deg = Math.round(angle * 180 / Math.PI) % 360;
+    return deg < 0 ? deg + 360 : deg;
+};
+
+// Lengths along a ray land on whole grid steps when the grid snap is on
+const roundLength = (length: number, step: number) => step > 0 ? Math.round(length / step) * step : length;
+
+const along = (from: Point, angle: number, length: number): Point =>
+    ({ x: from.x + Math.cos(angle) * length, y: from.y + Math.sin(angle) * length });
+
+// Horizontal or vertical from the anchor, whichever the cursor is closer to
+export const trackOrtho = (anchor: Point, p: Point, step: number): TrackingResult => {
+    const dx = p.x - anchor.x, dy = p.y - anchor.y;
+    const horizontal = Math.abs(dx) >= Math.abs(dy);
+    const length = roundLength(Math.abs(horizontal ? dx : dy), step);
+    const angle = horizontal ? (dx >= 0 ? 0 : Math.PI) : (dy >= 0 ? Math.PI / 2 : -Math.PI / 2);
+    return { point: along(anchor, angle, length), guides: [{ from: anchor, angle }], label: `Ortho ${toDegrees(angle)}°` };
+};
+
+// The increment ray from `from` that passes within `tolerance` of p, if any
+const nearestRay = (from: Point, p: Point, increment: number, tolerance: number) => {
+    if (distance(from, p) < tolerance) return null;
+    const angle = Math.round(Math.atan2(p.y - from.y, p.x - from.x) / increment) * increment;
+    const cos = Math.cos(angle), sin = Math.sin(angle);
+    const length = (p.x - from.x) * cos + (p.y - from.y) * sin;
+    const offset = Math.abs((p.x - from.x) * sin - (p.y - from.y) * cos);
+    return length > 0 && offset <= tolerance ? { from, angle, length, offset } : null;
+};
+
+const toGuide = (ray: TrackingGuide): TrackingGuide => ({ from: ray.from, angle: ray.angle });
+
+const intersectRays = (a: TrackingGuide, b: TrackingGuide): Point | null => {
+    const ax = Math.cos(a.angle), ay = Math.sin(a.angle);
+    const bx = Math.cos(b.angle), by = Math.sin(b.angle);
+    const denom = ax * by - ay * bx;
+    if (Math.abs(denom) < 1e-9) return null;
+    const t = ((b.from.x - a.from.x) * by - (b.from.y - a.from.y) * bx) / denom;
+    return along(a.from, a.angle, t);
+};
+
+// Polar tracking is a pull, not a lock: it only acts near a ray. Where a ray from the anchor
+// crosses one from an earlier point, the crossing wins, which closes shapes squarely.
+export const trackPolar = (p: Point, anchor: Point, earlier: Point[], increment: number, tolerance: number, step: number): TrackingResult | null => {
+    const main = nearestRay(anchor, p, increment, tolerance);
+    const other = earlier
+        .map(from => nearestRay(from, p, increment, tolerance))
+        .filter((r): r is NonNullable<typeof r> => r !== null && (!main || Math.abs(Math.sin(r.angle - main.angle)) > 1e-6))
+        .sort((a, b) => a.offset - b.offset)[0];
+
+    if (main && other) {
+        const crossing = intersectRays(main, other);
+        if (crossing && distance(crossing, p) <= tolerance * 2) {
+            return { point: crossing, guides: [toGuide(main), toGuide(other)], label: `Polar ${toDegrees(main.angle)}° / ${toDegrees(other.angle)}°` };
+        }
+    }
+    if (main) {
+        return { point: along(anchor, main.angle, roundLength(main.length, step)), guides: [toGuide(main)], label: `Polar ${toDegrees(main.angle)}°` };
+    }
+    if (other) {
+        return { point: along(other.from, other.angle, other.length), guides: [toGuide(other)], label: `Aligned ${toDegrees(other.angle)}°` };
+    }
+    return null;
+};
@@ -0,0 +1,238 @@
+import { Entity, Point, PolygonEntity, EllipseEntity, SplineEntity } from '../types';
+import { convexHull, rectToPolygon, getRectCenter, sampleArc, getBounds } from './geometry';
+
+// Rotate, scale and mirror for every entity type, as affine maps of the drawing plane.
+// Entities keep their type wherever the result can still be described by it (a rotated
+// rectangle is a rectangle with a rotation); otherwise they become the closest type that
+// can (a rectangle scaled along a slanted axis is a polygon, a stretched circle an ellipse).
+
+// x' = a x + c y + e, y' = b x + d y + f (the SVG order)
+export type Matrix = [number, number, number, number, number, number];
+
+const EPSILON = 1e-9;
+
+export const applyMatrix = (m: Matrix, p: Point): Point => ({
+    x: m[0] * p.x + m[2] * p.y + m[4],
+    y: m[1] * p.x + m[3] * p.y + m[5]
+});
+
+// Directions and sizes ignore the translation part
+const applyLinear = (m: Matrix, v: Point): Point => ({ x: m[0] * v.x + m[2] * v.y, y: m[1] * v.x + m[3] * v.y });
+
+const determinant = (m: Matrix) => m[0] * m[3] - m[1] * m[2];
+
+// Maps about a fixed point: translate it to the origin, apply the linear part, translate back
+const aboutPoint = (p: Point, a: number, b: number, c: number, d: number): Matrix =>
+    [a, b, c, d, p.x - a * p.x - c * p.y, p.y - b * p.x - d * p.y];
+
+export const translationMatrix = (dx: number, dy: number): Matrix => [1, 0, 0, 1, dx, dy];
+
+// Angles follow the drawing's y-down axes, so a positive angle turns clockwise on screen
+export const rotationMatrix = (pivot: Point, angle: number): Matrix => {
+    const cos = Math.cos(angle), sin = Math.sin(angle);
+    return aboutPoint(pivot, cos, sin, -sin, cos);
+};
+
+export const scaleMatrix = (base: Point, sx: number, sy: number = sx): Matrix => aboutPoint(base, sx, 0, 0, sy);
+
+// Reflection across the line through p1 and p2
+export const mirrorMatrix = (p1: Point, p2: Point): Matrix => {
+    const angle = Math.atan2(p2.y - p1.y, p2.x - p1.x);
+    const cos = Math.cos(2 * angle), sin = Math.sin(2 * angle);
+    return aboutPoint(p1, cos, sin, sin, -cos);
+};
+
+// Rotations, uniform scales and reflections keep circles circular and angles intact
+const isConformal = (m: Matrix) =>
+    (Math.abs(m[0] - m[3]) < EPSILON && Math.abs(m[1] + m[2]) < EPSILON) ||
+    (Math.abs(m[0] + m[3]) < EPSILON && Math.abs(m[1] - m[2]) < EPSILON);
+
+const angleOfVector = (v: Point) => Math.atan2(v.y, v.x);
+
+// Semi-axes and rotation of the ellipse x = A (cos t, sin t), from the eigenvalues of A Aᵀ
+const ellipseFromLinear = (a: number, b: number, c: number, d: number) => {
+    const p = a * a + c * c, q = a * b + c * d, r = b * b + d * d;
+    const mean = (p + r) / 2;
+    const spread = Math.sqrt(((p - r) / 2) ** 2 + q * q);
+    return {
+        radiusX: Math.sqrt(mean + spread),
+        radiusY: Math.sqrt(Math.max(0, mean - spread)),
+        rotation: Math.atan2(2 * q, p - r) / 2
+    };
+};
+
+const mapPoints = (m: Matrix, points: Point[]) => points.map(p => applyMatrix(m, p));
+
+export const transformEntity = (entity: Entity, m: Matrix): Entity => {
+    const scale = Math.sqrt(Math.abs(determinant(m)));
+
+    switch (entity.type) {
+        case 'line':
+            return { ...entity, start: applyMatrix(m, entity.start), end: applyMatrix(m, entity.end) };
+        case 'spline':
+        case 'polyline':
+            return { ...entity, points: mapPoints(m, entity.points) };
+        case 'polygon':
+            return {
+                ...entity,
+                points: mapPoints(m, entity.points),
+                ...(entity.holes ? { holes: entity.holes.map(h => mapPoints(m, h)) } : {})
+            };
+        case 'dimension': {
+            // Anchors keep their references; the geometry they follow moves them again on its next edit
+            const mapAnchor = (a: { point: Point }) => ({ ...a, point: applyMatrix(m, a.point) });
+            return {
+                ...entity,
+                anchors: entity.anchors.map(mapAnchor),
+                position: applyMatrix(m, entity.position),
+                textHeight: entity.textHeight * scale,
+                ...(entity.radius !== undefined ? { radius: entity.radius * scale } : {})
+            };
+        }
+        case 'leader':
+            return {
+                ...entity,
+                anchor: { ...entity.anchor, point: applyMatrix(m, entity.anchor.point) },
+                points: mapPoints(m, entity.points),
+                textHeight: entity.textHeight * scale
+            };
+        case 'hatch': {
+            // The pattern turns and scales with the region; a reflection mirrors only its outline
+            const angle = angleOfVector(applyLinear(m, { x: Math.cos(entity.angle || 0), y: Math.sin(entity.angle || 0) }));
+            return {
+                ...entity,
+                points: mapPoints(m, entity.points),
+                ...(entity.holes ? { holes: entity.holes.map(h => mapPoints(m, h)) } : {}),
+                angle: Math.abs(angle) < EPSILON ? 0 : angle,
+                scale: entity.scale * scale
+            };
+        }
+        case 'text': {
+            // Glyphs are never mirrored. A reflection that would leave the text upside down turns it
+            // the right way up and swaps its alignment, so it still covers the mirrored footprint.
+            const rotation = angleOfVector(applyLinear(m, { x: Math.cos(entity.rotation || 0), y: Math.sin(entity.rotation || 0) }));
+            const upsideDown = determinant(m) < 0 && Math.cos(rotation) < -EPSILON;
+            const swapped = { left: 'right', center: 'center', right: 'left' } as const;
+            return {
+                ...entity,
+                position: applyMatrix(m, entity.position),
+                size: entity.size * scale,
+                rotation: upsideDown ? rotation - Math.PI : rotation,
+                align: upsideDown ? swapped[entity.align] : entity.align
+            };
+        }
+        case 'light':
+            return {
+                ...entity,
+                position: applyMatrix(m, entity.position),
+                ...(entity.target ? { target: applyMatrix(m, entity.target) } : {})
+            };
+        case 'rectangle': {
+            const rot = entity.rotation || 0;
+            const u = applyLinear(m, { x: Math.cos(rot) * entity.width, y: Math.sin(rot) * entity.width });
+            const v = applyLinear(m, { x: -Math.sin(rot) * entity.height, y: Math.cos(rot) * entity.height });
+            const width = Math.hypot(u.x, u.y), height = Math.hypot(v.x, v.y);
+            if (Math.abs(u.x * v.x + u.y * v.y) > 1e-6 * Math.max(width * height, EPSILON)) {
+                // The sides are no longer square to each other
+                const polygon = rectToPolygon(entity);
+                return { ...polygon, points: mapPoints(m, polygon.points) } as PolygonEntity;
+            }
+            // A rectangle is symmetric, so its image is the box along the mapped first side
+            const center = applyMatrix(m, getRectCenter(entity));
+            const rotation = width > EPSILON ? angleOfVector(u) : angleOfVector(v) - Math.PI / 2;
+            return {
+                ...entity,
+                start: { x: center.x - width / 2, y: center.y - height / 2 },
+                width,
+                height,
+                rotation: Math.abs(rotation) < EPSILON ? 0 : rotation
+            };
+        }
+        case 'circle': {
+            const center = applyMatrix(m, entity.center);
+            if (isConformal(m)) return { ...entity, center, radius: entity.radius * scale };
+            const { type, radius, ...rest } = entity;
+            const ellipse: EllipseEntity = {
+                ...rest,
+                type: 'ellipse',
+                center,
+                ...ellipseFromLinear(m[0] * radius, m[1] * radius, m[2] * radius, m[3] * radius)
+            };
+            return ellipse;
+        }
+        case 'sphere':
+            // A sphere cannot stretch; uneven factors scale it by their geometric mean
+            return { ...entity, center: applyMatrix(m, entity.center), radius: entity.radius * scale };
+        case 'arc': {
+            if (!isConformal(m)) {
+                // Stretched arcs are elliptical, which only a spline can follow
+                const { type, center, radius, startAngle, endAngle, ...rest } = entity;
+                const spline: SplineEntity = { ...rest, type: 'spline', points: mapPoints(m, sampleArc(entity, 32)), closed: false };
+                return spline;
+            }
+            const mapAngle = (angle: number) => angleOfVector(applyLinear(m, { x: Math.cos(angle), y: Math.sin(angle) }));
+            // A reflection reverses the sweep, so the ends swap
+            const flipped = determinant(m) < 0;
+            return {
+                ...entity,
+                center: applyMatrix(m, entity.center),
+                radius: entity.radius * scale,
+                startAngle: mapAngle(flipped ? entity.endAngle : entity.startAngle),
+                endAngle: mapAngle(flipped ? entity.startAngle : entity.endAngle)
+            };
+        }
+        case 'ellipse': {
+            const rot = entity.rotation || 0;
+            const axisX = applyLinear(m, { x: Math.cos(rot) * entity.radiusX, y: Math.sin(rot) * entity.radiusX });
+            const axisY = applyLinear(m, { x: -Math.sin(rot) * entity.radiusY, y: Math.cos(rot) * entity.radiusY });
+            return { ...entity, center: applyMatrix(m, entity.center), ...ellipseFromLinear(axisX.x, axisX.y, axisY.x, axisY.y) };
+        }
+        case 'mesh': {
+            // Vertices are (x, up, z) about the centre; the drawing plane is x/z.
+            // A uniform scale grows the height with the footprint; a stretch leaves it alone.
+            const up = isConformal(m) ? scale : 1;
+            const vertices = [...entity.vertices];
+            for (let i = 0; i < vertices.length; i += 3) {
+                const p = applyLinear(m, { x: vertices[i], y: vertices[i + 2] });
+                vertices[i] = p.x;
+                vertices[i + 1] *= up;
+                vertices[i + 2] = p.y;
+            }
+            if (determinant(m) < 0) {
+                // Mirrored triangles would face inwards; swap two corners of each
+                for (let i = 0; i < vertices.length; i += 9) {
+                    for (let k = 0; k < 3; k++) {
+                        const t = vertices[i + 3 + k];
+                        vertices[i + 3 + k] = vertices[i + 6 + k];
+                        vertices[i + 6 + k] = t;
+                    }
+                }
+            }
+            const top: Point[] = [], front: Point[] = [], right: Point[] = [];
+            for (let i = 0; i < vertices.length; i += 3) {
+                top.push({ x: vertices[i], y: vertices[i + 2] });
+                front.push({ x: vertices[i], y: -vertices[i + 1] });
+                right.push({ x: vertices[i + 2], y: -vertices[i + 1] });
+            }
+            return {
+                ...entity,
+                center: applyMatrix(m, entity.center),
+                elevation: entity.elevation * up,
+                extrusionDepth: entity.extrusionDepth * up,
+                vertices,
+                outlines: { top: convexHull(top), front: convexHull(front), right: convexHull(right) }
+            };
+        }
+    }
+};
+
+// Combined bounds of several entities; sets the reference size when scaling by cursor
+export const getSelectionBounds = (entities: Entity[]) => {
+    const all = entities.map(getBounds);
+    return {
+        x1: Math.min(...all.map(b => b.x1)),
+        y1: Math.min(...all.map(b => b.y1)),
+        x2: Math.max(...all.map(b => b.x2)),
+        y2: Math.max(...all.map(b => b.y2))
+    };
+};
@@ -0,0 +1,63 @@
+import { Entity, LengthUnit, Point } from '../types';
+import { transformEntity, scaleMatrix } from './transform';
+
+// One drawing unit is one of the project's `units`. Files that carry no units of their own
+// (STL, OBJ) are read and written in the project's mesh units; the rest declare theirs.
+
+export const LENGTH_UNITS: { id: LengthUnit; label: string }[] = [
+    { id: 'mm', label: 'Millimetres' },
+    { id: 'cm', label: 'Centimetres' },
+    { id: 'm', label: 'Metres' },
+    { id: 'in', label: 'Inches' },
+    { id: 'ft', label: 'Feet' },
+];
+
+const MM_PER_UNIT: Record<LengthUnit, number> = { mm: 1, cm: 10, m: 1000, in: 25.4, ft: 304.8 };
+
+// Factor that turns a length in `from` units into `to` units
+export const unitScale = (from: LengthUnit, to: LengthUnit) => MM_PER_UNIT[from] / MM_PER_UNIT[to];
+
+const scalePoints = (points: Point[], factor: number) => points.map(p => ({ x: p.x * factor, y: p.y * factor }));
+
+// Uniform scale about the origin that also covers heights, thicknesses and array spacings
+export const scaleEntity = (entity: Entity, factor: number): Entity => {
+    let scaled: Entity = entity.type === 'mesh'
+        ? {
+            ...entity,
+            center: { x: entity.center.x * factor, y: entity.center.y * factor },
+            vertices: entity.vertices.map(v => v * factor),
+            outlines: {
+                top: scalePoints(entity.outlines.top, factor),
+                front: scalePoints(entity.outlines.front, factor),
+                right: scalePoints(entity.outlines.right, factor)
+            }
+        }
+        : transformEntity(entity, scaleMatrix({ x: 0, y: 0 }, factor));
+
+    if (scaled.type === 'polyline') scaled = { ...scaled, thickness: scaled.thickness * factor };
+    if (scaled.type === 'light') scaled = { ...scaled, distance: scaled.distance * factor };
+    if (scaled.array?.kind === 'rectangular') {
+        scaled = { ...scaled, array: { ...scaled.array, rowSpacing: scaled.array.rowSpacing * factor, columnSpacing: scaled.array.columnSpacing * factor } };
+    } else if (scaled.array?.kind === 'polar') {
+        scaled = { ...scaled, array: { ...scaled.array, center: { x: scaled.array.center.x * factor, y: scaled.array.center.y * factor } } };
+    }
+    return { ...scaled, elevation: (entity.elevation || 0) * factor, extrusionDepth: (entity.extrusionDepth || 0) * factor };
+};
+
+export const scaleEntities = (entities: Entity[], factor: number): Entity[] =>
+    factor === 1 ? entities : entities.map(e => scaleEntity(e, factor));
+
+// Grid lines closer than this on screen are merged into coarser ones
+const MIN_GRID_PIXELS = 8;
+
+// The grid steps by the major interval as the view zooms: out of it when lines would crowd
+// together, and into subdivisions of the configured spacing when cells grow large.
+// Every level is the spacing times a power of the interval, so a level's major lines are the
+// next coarser level's minor lines and no line moves when the level changes.
+export const getAdaptiveGrid = (spacing: number, majorEvery: number, scale: number) => {
+    const factor = Math.max(2, Math.round(majorEvery));
+    let minor = spacing > 0 ? spacing : 1;
+    for (let i = 0; i < 20 && minor * scale < MIN_GRID_PIXELS; i++) minor *= factor;
+    for (let i = 0; i < 20 && (minor / factor) * scale >= MIN_GRID_PIXELS * 2; i++) minor /= factor;
+    return { minor, factor };
+};